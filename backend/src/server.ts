@@ -1,6 +1,7 @@
 /**
  * Rhode Island School Map - Backend API
- * Serves GeoJSON for districts and schools with filtering.
+ * Serves GeoJSON for districts and schools with filtering, and stores
+ * shared sandbox scenarios.
  */
 
 import express from 'express';
@@ -8,11 +9,13 @@ import cors from 'cors';
 import morgan from 'morgan';
 import * as path from 'path';
 import * as fs from 'fs';
+import { randomUUID } from 'crypto';
 import Fuse from 'fuse.js';
 
 const app = express();
 app.use(cors());
 app.use(morgan('short'));
+app.use(express.json({ limit: '256kb' }));
 
 const DATA_DIR = path.join(__dirname, '..', '..', 'data');
 const CACHE_MAX_AGE = process.env.NODE_ENV === 'production' ? 3600 : 60;
@@ -126,6 +129,119 @@ app.get('/api/schools', (req, res) => {
   }
 });
 
+// --- Sandbox scenarios (shared between team members) ---
+
+/** Must match SavedScenario in frontend/src/lib/scenarios.ts */
+interface StoredScenario {
+  id: string;
+  name: string;
+  note?: string;
+  author?: string;
+  districtKeys: string[];
+  params: Record<string, unknown>;
+  closedSchoolIds?: string[];
+  enrollmentYear?: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SCENARIOS_FILE = process.env.SCENARIOS_FILE || path.join(DATA_DIR, 'scenarios.json');
+
+function readScenarios(): StoredScenario[] {
+  if (!fs.existsSync(SCENARIOS_FILE)) return [];
+  const raw = JSON.parse(fs.readFileSync(SCENARIOS_FILE, 'utf-8'));
+  return Array.isArray(raw?.scenarios) ? raw.scenarios : [];
+}
+
+function writeScenarios(scenarios: StoredScenario[]): void {
+  const tmp = `${SCENARIOS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ scenarios }, null, 2));
+  fs.renameSync(tmp, SCENARIOS_FILE);
+}
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === 'string');
+
+/** Validated scenario fields from a request body, or an error message. */
+function scenarioFields(body: any): Omit<StoredScenario, 'id' | 'createdAt' | 'updatedAt'> | string {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) return 'name is required';
+  if (!isStringArray(body.districtKeys)) return 'districtKeys must be an array of strings';
+  if (!body.params || typeof body.params !== 'object' || Array.isArray(body.params)) return 'params must be an object';
+  if (body.closedSchoolIds !== undefined && !isStringArray(body.closedSchoolIds)) {
+    return 'closedSchoolIds must be an array of strings';
+  }
+  return {
+    name: name.slice(0, 120),
+    ...(typeof body.note === 'string' && body.note.trim() ? { note: body.note.trim().slice(0, 2000) } : {}),
+    ...(typeof body.author === 'string' && body.author.trim() ? { author: body.author.trim().slice(0, 80) } : {}),
+    districtKeys: body.districtKeys,
+    params: body.params,
+    ...(body.closedSchoolIds ? { closedSchoolIds: body.closedSchoolIds } : {}),
+    ...(typeof body.enrollmentYear === 'number' ? { enrollmentYear: body.enrollmentYear } : {}),
+  };
+}
+
+app.get('/api/scenarios', (_req, res) => {
+  try {
+    const scenarios = readScenarios().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    res.set('Cache-Control', 'no-store');
+    res.json({ scenarios });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get('/api/scenarios/:id', (req, res) => {
+  try {
+    const scenario = readScenarios().find((s) => s.id === req.params.id);
+    if (!scenario) return res.status(404).json({ error: 'Scenario not found' });
+    res.set('Cache-Control', 'no-store');
+    res.json(scenario);
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.post('/api/scenarios', (req, res) => {
+  try {
+    const fields = scenarioFields(req.body);
+    if (typeof fields === 'string') return res.status(400).json({ error: fields });
+    const now = new Date().toISOString();
+    const scenario: StoredScenario = { id: randomUUID(), ...fields, createdAt: now, updatedAt: now };
+    writeScenarios([...readScenarios(), scenario]);
+    res.status(201).json(scenario);
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.put('/api/scenarios/:id', (req, res) => {
+  try {
+    const fields = scenarioFields(req.body);
+    if (typeof fields === 'string') return res.status(400).json({ error: fields });
+    const scenarios = readScenarios();
+    const i = scenarios.findIndex((s) => s.id === req.params.id);
+    if (i < 0) return res.status(404).json({ error: 'Scenario not found' });
+    scenarios[i] = { id: scenarios[i].id, ...fields, createdAt: scenarios[i].createdAt, updatedAt: new Date().toISOString() };
+    writeScenarios(scenarios);
+    res.json(scenarios[i]);
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.delete('/api/scenarios/:id', (req, res) => {
+  try {
+    const scenarios = readScenarios();
+    const rest = scenarios.filter((s) => s.id !== req.params.id);
+    if (rest.length === scenarios.length) return res.status(404).json({ error: 'Scenario not found' });
+    writeScenarios(rest);
+    res.status(204).end();
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
 // In production, serve the built frontend
 const FRONTEND_DIST = path.join(__dirname, '..', '..', 'frontend', 'dist');
 if (fs.existsSync(FRONTEND_DIST)) {
@@ -1,11 +1,36 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef, type Dispatch, type SetStateAction } from 'react';
 import MapView from './components/Map';
 import Sidebar from './components/Sidebar';
+import DistrictTable from './components/DistrictTable';
 import { useMediaQuery } from './hooks/useMediaQuery';
-import type { GeoJSONFC, SchoolFeature, DistrictFeature } from './types';
-import { districtKey, type LeaEnrollmentMap, type SchoolEnrollmentMap } from './lib/enrollment';
+import type { GeoJSONFC, SchoolFeature, DistrictFeature, SandboxLink, SandboxScenario } from './types';
+import {
+  districtKey,
+  FALLBACK_ENROLLMENT_INDEX,
+  type EnrollmentHistory,
+  type EnrollmentIndex,
+  type LeaEnrollmentMap,
+  type SchoolEnrollmentMap,
+} from './lib/enrollment';
 import type { BudgetsMap } from './lib/budgets';
 import type { DistrictAnchorsMap } from './lib/anchors';
+import { loadFundingFormulaParams, type FundingFormulaParams } from './lib/fundingFormula';
+import { anchorPointId, loadTravelMatrix, travelBetween, type TravelMatrix } from './lib/geoDistance';
+import type { ConsolidationParamsV2 } from './lib/consolidationV2';
+import { selectHub } from './lib/hubSelection';
+import { loadSchoolCapacity, withUtilization, type SchoolCapacityMap } from './lib/capacity';
+import { loadDistrictAdjacency, type DistrictAdjacencyGraph } from './lib/adjacency';
+import type { OptimizerResult } from './lib/optimizer';
+import { sandboxScenarioColor, sandboxScenarioName } from './lib/sandboxScenarios';
+import { buildChoropleth } from './lib/choropleth';
+import { DEFAULT_PEER_PARAMS, findPeers, type PeerParams } from './lib/peers';
+import {
+  encodeUrlState,
+  parseUrlState,
+  selectionSignature,
+  type MapViewState,
+  type UrlState,
+} from './lib/urlState';
 
 async function fetchJson<T>(url: string): Promise<T> {
   const res = await fetch(url);
@@ -24,31 +49,62 @@ export default function App() {
   const [allSchools, setAllSchools] = useState<GeoJSONFC<SchoolFeature> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState({
-    public: false,
-    private: false,
-    grade: [] as string[],
+  // State restored from a shared link; selection resolves to features once they load.
+  const [initialUrlState] = useState<UrlState>(() => parseUrlState(window.location.search));
+  const pendingSelection = useRef<{ districtKey: string | null; schoolId: string | null } | null>({
+    districtKey: initialUrlState.selectedDistrictKey,
+    schoolId: initialUrlState.selectedSchoolId,
   });
+  const [filters, setFilters] = useState(initialUrlState.filters);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDistrict, setSelectedDistrict] = useState<DistrictFeature | null>(null);
-  const [selectedDistrictKeys, setSelectedDistrictKeys] = useState<string[]>([]);
-  const [sandboxDistrictKeys, setSandboxDistrictKeys] = useState<string[]>([]);
+  const [selectedDistrictKeys, setSelectedDistrictKeys] = useState<string[]>(initialUrlState.selectedDistrictKeys);
+  const [sandboxScenarios, setSandboxScenarios] = useState<SandboxScenario[]>(() =>
+    initialUrlState.sandboxScenarios.map((keys, i) => ({ id: `s${i + 1}`, name: sandboxScenarioName(i), keys })),
+  );
+  const [activeSandboxId, setActiveSandboxId] = useState(() => `s${initialUrlState.activeSandbox + 1}`);
+  const activeSandbox = sandboxScenarios.find((s) => s.id === activeSandboxId) ?? sandboxScenarios[0];
+  const sandboxDistrictKeys = activeSandbox.keys;
+  const setSandboxDistrictKeys = useCallback<Dispatch<SetStateAction<string[]>>>(
+    (next) =>
+      setSandboxScenarios((prev) =>
+        prev.map((s) => (s.id === activeSandbox.id ? { ...s, keys: typeof next === 'function' ? next(s.keys) : next } : s)),
+      ),
+    [activeSandbox.id],
+  );
+  const [consolidationParams, setConsolidationParams] = useState<ConsolidationParamsV2>(
+    initialUrlState.consolidationParams,
+  );
   const [selectedSchool, setSelectedSchool] = useState<SchoolFeature | null>(null);
   const [highlightDistrict, setHighlightDistrict] = useState<DistrictFeature | null>(null);
-  const [showDistricts, setShowDistricts] = useState(true);
-  const [showDistrictLabels, setShowDistrictLabels] = useState(false);
-  const [clusterSchools, setClusterSchools] = useState(false);
-  const [districtLevelFilter, setDistrictLevelFilter] = useState({
-    unified: true,
-    elementary: true,
-    secondary: true,
-  });
+  const [showDistricts, setShowDistricts] = useState(initialUrlState.showDistricts);
+  const [showDistrictLabels, setShowDistrictLabels] = useState(initialUrlState.showDistrictLabels);
+  const [clusterSchools, setClusterSchools] = useState(initialUrlState.clusterSchools);
+  const [districtLevelFilter, setDistrictLevelFilter] = useState(initialUrlState.districtLevelFilter);
   const [leaEnrollment, setLeaEnrollment] = useState<LeaEnrollmentMap | null>(null);
   const [schoolEnrollment, setSchoolEnrollment] = useState<SchoolEnrollmentMap | null>(null);
   const [enrollmentLoadError, setEnrollmentLoadError] = useState<string | null>(null);
+  const [enrollmentIndex, setEnrollmentIndex] = useState<EnrollmentIndex | null>(null);
+  const [enrollmentYear, setEnrollmentYear] = useState<number | null>(null);
+  const [enrollmentHistory, setEnrollmentHistory] = useState<EnrollmentHistory | null>(null);
+  const enrollmentCache = useRef<Record<number, { lea: LeaEnrollmentMap; school: SchoolEnrollmentMap }>>({});
   const [budgets, setBudgets] = useState<BudgetsMap | null>(null);
   const [anchors, setAnchors] = useState<DistrictAnchorsMap | null>(null);
-  const [showAnchors, setShowAnchors] = useState(false);
+  const [fundingParams, setFundingParams] = useState<FundingFormulaParams | null>(null);
+  const [travelMatrix, setTravelMatrix] = useState<TravelMatrix | null>(null);
+  const [adjacency, setAdjacency] = useState<DistrictAdjacencyGraph | null>(null);
+  const [showAnchors, setShowAnchors] = useState(initialUrlState.showAnchors);
+  const [schoolCapacity, setSchoolCapacity] = useState<SchoolCapacityMap | null>(null);
+  const [colorByUtilization, setColorByUtilization] = useState(initialUrlState.colorByUtilization);
+  const [showDistrictTable, setShowDistrictTable] = useState(initialUrlState.showDistrictTable);
+  const [choroplethMetric, setChoroplethMetric] = useState(initialUrlState.choroplethMetric);
+  const [classificationMethod, setClassificationMethod] = useState(initialUrlState.classificationMethod);
+  const [closedSchoolIds, setClosedSchoolIds] = useState<string[]>(initialUrlState.closedSchoolIds);
+  const viewRef = useRef<MapViewState | null>(initialUrlState.view);
+  const [viewRequest, setViewRequest] = useState<MapViewState | null>(null);
+  const [optimizerResult, setOptimizerResult] = useState<OptimizerResult | null>(null);
+  const [showPeers, setShowPeers] = useState(false);
+  const [peerParams, setPeerParams] = useState<PeerParams>(DEFAULT_PEER_PARAMS);
   const isMobile = useMediaQuery('(max-width: 768px)');
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState<boolean>(() => {
     try {
@@ -94,26 +150,63 @@ export default function App() {
     if (filters.grade.length > 0) {
       features = features.filter((f) => filters.grade.includes(f.properties.grade_bucket));
     }
-    return { type: 'FeatureCollection' as const, features };
-  }, [allSchools, filters.public, filters.private, filters.grade]);
+    if (closedSchoolIds.length > 0) {
+      features = features.map((f) =>
+        closedSchoolIds.includes(f.properties.id) ? { ...f, properties: { ...f.properties, closed: true } } : f,
+      );
+    }
+    const fc = { type: 'FeatureCollection' as const, features };
+    return colorByUtilization && schoolCapacity ? withUtilization(fc, schoolCapacity, schoolEnrollment) : fc;
+  }, [allSchools, filters.public, filters.private, filters.grade, closedSchoolIds, colorByUtilization, schoolCapacity, schoolEnrollment]);
 
   useEffect(() => {
+    fetchJson<EnrollmentIndex>('/enrollment/index.json')
+      .catch((e) => {
+        console.warn('Enrollment index not loaded (Oct 2024 only):', e);
+        return FALLBACK_ENROLLMENT_INDEX;
+      })
+      .then((index) => {
+        setEnrollmentIndex(index);
+        const linked = initialUrlState.enrollmentYear;
+        setEnrollmentYear(linked != null && index.snapshots.some((s) => s.year === linked) ? linked : index.latest);
+      });
+    fetchJson<EnrollmentHistory>('/enrollment/ri_lea_enrollment_history.json')
+      .then((data) => setEnrollmentHistory(data))
+      .catch((e) => console.warn('Enrollment history not loaded:', e));
+  }, []);
+
+  useEffect(() => {
+    const snapshot = enrollmentIndex?.snapshots.find((s) => s.year === enrollmentYear);
+    if (!snapshot) return;
+    const cached = enrollmentCache.current[snapshot.year];
+    if (cached) {
+      setLeaEnrollment(cached.lea);
+      setSchoolEnrollment(cached.school);
+      setEnrollmentLoadError(null);
+      return;
+    }
+    let cancelled = false;
     (async () => {
       try {
         const [lea, school] = await Promise.all([
-          fetchJson<LeaEnrollmentMap>('/enrollment/ri_lea_enrollment_2024-10.json'),
-          fetchJson<SchoolEnrollmentMap>('/enrollment/ri_school_enrollment_2024-10.json'),
+          fetchJson<LeaEnrollmentMap>(`/enrollment/${snapshot.lea}`),
+          fetchJson<SchoolEnrollmentMap>(`/enrollment/${snapshot.school}`),
         ]);
+        enrollmentCache.current[snapshot.year] = { lea, school };
+        if (cancelled) return;
         setLeaEnrollment(lea);
         setSchoolEnrollment(school);
         setEnrollmentLoadError(null);
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
-        setEnrollmentLoadError(msg);
+        if (!cancelled) setEnrollmentLoadError(msg);
         console.error('Enrollment load error:', msg);
       }
     })();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [enrollmentIndex, enrollmentYear]);
 
   useEffect(() => {
     fetchJson<BudgetsMap>('/budgets/budgets.json')
@@ -127,6 +220,68 @@ export default function App() {
       .catch((e) => console.warn('Anchors not loaded:', e));
   }, []);
 
+  useEffect(() => {
+    loadFundingFormulaParams()
+      .then((data) => setFundingParams(data))
+      .catch((e) => console.warn('Funding formula params not loaded:', e));
+  }, []);
+
+  useEffect(() => {
+    loadTravelMatrix()
+      .then((data) => setTravelMatrix(data))
+      .catch((e) => console.warn('Travel matrix not loaded (straight-line distances used):', e));
+  }, []);
+
+  useEffect(() => {
+    loadDistrictAdjacency()
+      .then((data) => setAdjacency(data))
+      .catch((e) => console.warn('District adjacency not loaded (no contiguity checks):', e));
+  }, []);
+
+  useEffect(() => {
+    loadSchoolCapacity()
+      .then((data) => setSchoolCapacity(data))
+      .catch((e) => console.warn('School capacity not loaded (utilization unavailable):', e));
+  }, []);
+
+  const sandboxLinks = useMemo((): SandboxLink[] => {
+    if (!anchors || !leaEnrollment) return [];
+    const keys = sandboxDistrictKeys.filter((k) => anchors[k] && leaEnrollment[k]?.total > 0);
+    if (keys.length < 2) return [];
+    const { hubKey } = selectHub(keys, consolidationParams.hubStrategy, consolidationParams.pinnedHubKey, {
+      budgets: budgets ?? {},
+      enrollments: leaEnrollment,
+      anchors,
+      travel: travelMatrix,
+    });
+    const hub = anchors[hubKey];
+    return keys
+      .filter((k) => k !== hubKey)
+      .map((k) => {
+        const a = anchors[k];
+        const leg = travelBetween(
+          { id: anchorPointId(k), lat: a.lat, lon: a.lon },
+          { id: anchorPointId(hubKey), lat: hub.lat, lon: hub.lon },
+          travelMatrix,
+        );
+        return {
+          fromKey: k,
+          toKey: hubKey,
+          from: [a.lon, a.lat] as [number, number],
+          to: [hub.lon, hub.lat] as [number, number],
+          ...leg,
+        };
+      });
+  }, [sandboxDistrictKeys, anchors, leaEnrollment, budgets, travelMatrix, consolidationParams.hubStrategy, consolidationParams.pinnedHubKey]);
+
+  const sandboxGroups = useMemo(
+    () =>
+      sandboxScenarios.length > 1
+        ? sandboxScenarios.map((s, i) => ({ keys: s.keys, color: sandboxScenarioColor(i) }))
+        : null,
+    [sandboxScenarios],
+  );
+
   const keyToGeoid = useMemo(() => {
     const m = new Map<string, string>();
     if (!districts?.features) return m;
@@ -168,6 +323,127 @@ export default function App() {
     setHighlightDistrict(null);
   }, []);
 
+  // --- Shareable URL: state mirrors the query string; selection changes add history entries ---
+
+  const featureByDistrictKey = useCallback(
+    (key: string) =>
+      districts?.features.find((f) => districtKey(f.properties.district_name ?? f.properties.name ?? '') === key) ?? null,
+    [districts],
+  );
+
+  const handleTableSelect = useCallback(
+    (key: string, shiftKey: boolean) => handleDistrictClick(featureByDistrictKey(key), shiftKey),
+    [handleDistrictClick, featureByDistrictKey],
+  );
+
+  const handleTableAddToSandbox = useCallback(
+    (keys: string[]) => setSandboxDistrictKeys((prev) => [...prev, ...keys.filter((k) => !prev.includes(k))]),
+    [setSandboxDistrictKeys],
+  );
+
+  useEffect(() => {
+    const pending = pendingSelection.current;
+    if (!pending || !districts || !allSchools) return;
+    pendingSelection.current = null;
+    setSelectedDistrict(pending.districtKey ? featureByDistrictKey(pending.districtKey) : null);
+    setSelectedSchool(pending.schoolId ? allSchools.features.find((f) => f.properties.id === pending.schoolId) ?? null : null);
+  }, [districts, allSchools, featureByDistrictKey]);
+
+  const urlState = useMemo(
+    (): Omit<UrlState, 'view'> => ({
+      filters,
+      districtLevelFilter,
+      showDistricts,
+      showDistrictLabels,
+      clusterSchools,
+      showAnchors,
+      colorByUtilization,
+      showDistrictTable,
+      choroplethMetric,
+      classificationMethod,
+      enrollmentYear:
+        enrollmentYear == null ? initialUrlState.enrollmentYear : enrollmentYear === enrollmentIndex?.latest ? null : enrollmentYear,
+      selectedDistrictKey: selectedDistrict
+        ? districtKey(selectedDistrict.properties.district_name ?? selectedDistrict.properties.name ?? '')
+        : pendingSelection.current?.districtKey ?? null,
+      selectedDistrictKeys,
+      selectedSchoolId: selectedSchool?.properties.id ?? pendingSelection.current?.schoolId ?? null,
+      sandboxScenarios: sandboxScenarios.map((s) => s.keys),
+      activeSandbox: Math.max(0, sandboxScenarios.indexOf(activeSandbox)),
+      closedSchoolIds,
+      consolidationParams,
+    }),
+    [
+      filters, districtLevelFilter, showDistricts, showDistrictLabels, clusterSchools, showAnchors, colorByUtilization,
+      showDistrictTable, choroplethMetric, classificationMethod, enrollmentYear, enrollmentIndex, initialUrlState, selectedDistrict, selectedDistrictKeys, selectedSchool,
+      sandboxScenarios, activeSandbox, closedSchoolIds, consolidationParams,
+    ],
+  );
+  const urlStateRef = useRef(urlState);
+  urlStateRef.current = urlState;
+  const lastSelection = useRef(selectionSignature(initialUrlState));
+
+  const writeUrl = useCallback((push: boolean) => {
+    const search = encodeUrlState({ ...urlStateRef.current, view: viewRef.current });
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (push) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, []);
+
+  useEffect(() => {
+    const signature = selectionSignature(urlState);
+    const push = signature !== lastSelection.current;
+    lastSelection.current = signature;
+    writeUrl(push);
+  }, [urlState, writeUrl]);
+
+  const handleViewChange = useCallback(
+    (view: MapViewState) => {
+      viewRef.current = view;
+      writeUrl(false);
+    },
+    [writeUrl],
+  );
+
+  useEffect(() => {
+    const onPopState = () => {
+      const state = parseUrlState(window.location.search);
+      lastSelection.current = selectionSignature(state);
+      setFilters(state.filters);
+      setDistrictLevelFilter(state.districtLevelFilter);
+      setShowDistricts(state.showDistricts);
+      setShowDistrictLabels(state.showDistrictLabels);
+      setClusterSchools(state.clusterSchools);
+      setShowAnchors(state.showAnchors);
+      setColorByUtilization(state.colorByUtilization);
+      setShowDistrictTable(state.showDistrictTable);
+      setChoroplethMetric(state.choroplethMetric);
+      setClassificationMethod(state.classificationMethod);
+      if (enrollmentIndex) setEnrollmentYear(state.enrollmentYear ?? enrollmentIndex.latest);
+      setSelectedDistrictKeys(state.selectedDistrictKeys);
+      setSandboxScenarios(state.sandboxScenarios.map((keys, i) => ({ id: `s${i + 1}`, name: sandboxScenarioName(i), keys })));
+      setActiveSandboxId(`s${state.activeSandbox + 1}`);
+      setClosedSchoolIds(state.closedSchoolIds);
+      setConsolidationParams(state.consolidationParams);
+      setHighlightDistrict(null);
+      if (districts && allSchools) {
+        setSelectedDistrict(state.selectedDistrictKey ? featureByDistrictKey(state.selectedDistrictKey) : null);
+        setSelectedSchool(
+          state.selectedSchoolId ? allSchools.features.find((f) => f.properties.id === state.selectedSchoolId) ?? null : null,
+        );
+      } else {
+        pendingSelection.current = { districtKey: state.selectedDistrictKey, schoolId: state.selectedSchoolId };
+      }
+      if (state.view) {
+        viewRef.current = state.view;
+        setViewRequest(state.view);
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [districts, allSchools, featureByDistrictKey, enrollmentIndex]);
+
   const filteredDistricts = useMemo(() => {
     if (!districts?.features?.length) return districts;
     const levels: string[] = [];
@@ -183,6 +459,34 @@ export default function App() {
     return { type: 'FeatureCollection' as const, features: filtered };
   }, [districts, districtLevelFilter]);
 
+  // Classes are computed over every district so the breaks don't shift with the level filter.
+  const choropleth = useMemo(
+    () =>
+      choroplethMetric && districts
+        ? buildChoropleth(districts.features, choroplethMetric, classificationMethod, {
+            budgets,
+            enrollments: leaEnrollment,
+            history: enrollmentHistory,
+            enrollmentYear,
+            anchors,
+            sandboxKeys: sandboxDistrictKeys,
+            params: consolidationParams,
+            travel: travelMatrix,
+          })
+        : null,
+    [
+      choroplethMetric, classificationMethod, districts, budgets, leaEnrollment, enrollmentHistory, enrollmentYear,
+      anchors, sandboxDistrictKeys, consolidationParams, travelMatrix,
+    ],
+  );
+
+  // Peers of the selected district; only computed (and highlighted) while the peer panel is open
+  const peerResult = useMemo(() => {
+    if (!showPeers || !selectedDistrict || !leaEnrollment) return null;
+    const key = districtKey(selectedDistrict.properties.district_name ?? selectedDistrict.properties.name ?? '');
+    return findPeers(key, [...keyToGeoid.keys()], budgets, leaEnrollment, peerParams);
+  }, [showPeers, selectedDistrict, leaEnrollment, budgets, keyToGeoid, peerParams]);
+
   return (
     <div
       style={{
@@ -199,11 +503,17 @@ export default function App() {
         onMobileClose={() => setMobileSidebarOpen(false)}
         districts={districts}
         schools={schools}
+        allSchools={allSchools}
         leaEnrollment={leaEnrollment}
         schoolEnrollment={schoolEnrollment}
         enrollmentLoadError={enrollmentLoadError}
+        enrollmentYear={enrollmentYear}
+        enrollmentHistory={enrollmentHistory}
         budgets={budgets}
         anchors={anchors}
+        fundingParams={fundingParams}
+        travelMatrix={travelMatrix}
+        adjacency={adjacency}
         loading={loading}
         error={error}
         filters={filters}
@@ -223,6 +533,15 @@ export default function App() {
         setDistrictLevelFilter={setDistrictLevelFilter}
         showAnchors={showAnchors}
         setShowAnchors={setShowAnchors}
+        schoolCapacity={schoolCapacity}
+        colorByUtilization={colorByUtilization}
+        setColorByUtilization={setColorByUtilization}
+        choroplethMetric={choroplethMetric}
+        setChoroplethMetric={setChoroplethMetric}
+        classificationMethod={classificationMethod}
+        setClassificationMethod={setClassificationMethod}
+        closedSchoolIds={closedSchoolIds}
+        setClosedSchoolIds={setClosedSchoolIds}
         onSearchSelect={(school, district) => {
           setSelectedSchool(school ?? null);
           setSelectedDistrict(district ?? null);
@@ -237,29 +556,119 @@ export default function App() {
         onClearSelection={handleClearSelection}
         sandboxDistrictKeys={sandboxDistrictKeys}
         setSandboxDistrictKeys={setSandboxDistrictKeys}
+        sandboxScenarios={sandboxScenarios}
+        setSandboxScenarios={setSandboxScenarios}
+        activeSandboxId={activeSandbox.id}
+        setActiveSandboxId={setActiveSandboxId}
+        consolidationParams={consolidationParams}
+        setConsolidationParams={setConsolidationParams}
+        optimizerResult={optimizerResult}
+        setOptimizerResult={setOptimizerResult}
+        peerResult={peerResult}
+        showPeers={showPeers}
+        setShowPeers={setShowPeers}
+        peerParams={peerParams}
+        setPeerParams={setPeerParams}
       />
-      <MapView
-        isMobile={isMobile}
-        onOpenPanel={() => setMobileSidebarOpen(true)}
-        mobilePanelVisible={isMobile && !mobileSidebarOpen}
-        districts={filteredDistricts}
-        schools={schools}
-        loading={loading}
-        showDistricts={showDistricts}
-        showDistrictLabels={showDistrictLabels}
-        showPublic={filters.public}
-        showPrivate={filters.private}
-        clusterSchools={clusterSchools}
-        selectedDistrict={selectedDistrict}
-        selectedGeoids={selectedGeoids}
-        selectedSchool={selectedSchool}
-        highlightDistrict={highlightDistrict}
-        anchors={anchors}
-        showAnchors={showAnchors}
-        onDistrictClick={handleDistrictClick}
-        onDistrictHover={setHighlightDistrict}
-        onSchoolClick={setSelectedSchool}
-      />
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+        <div style={{ flex: 1, display: 'flex', position: 'relative', minHeight: 0 }}>
+          <MapView
+            isMobile={isMobile}
+            onOpenPanel={() => setMobileSidebarOpen(true)}
+            mobilePanelVisible={isMobile && !mobileSidebarOpen}
+            districts={filteredDistricts}
+            schools={schools}
+            loading={loading}
+            showDistricts={showDistricts}
+            showDistrictLabels={showDistrictLabels}
+            showPublic={filters.public}
+            showPrivate={filters.private}
+            clusterSchools={clusterSchools}
+            selectedDistrict={selectedDistrict}
+            selectedGeoids={selectedGeoids}
+            selectedSchool={selectedSchool}
+            highlightDistrict={highlightDistrict}
+            anchors={anchors}
+            showAnchors={showAnchors}
+            colorByUtilization={colorByUtilization && !!schoolCapacity}
+            sandboxLinks={sandboxLinks}
+            sandboxGroups={sandboxGroups}
+            optimizerGroups={optimizerResult?.groups ?? null}
+            choropleth={choropleth}
+            onClearChoropleth={() => setChoroplethMetric(null)}
+            peerDistrictKeys={peerResult?.peers.map((p) => p.key) ?? null}
+            onDistrictClick={handleDistrictClick}
+            onDistrictHover={setHighlightDistrict}
+            onSchoolClick={setSelectedSchool}
+            initialView={initialUrlState.view}
+            viewRequest={viewRequest}
+            onViewChange={handleViewChange}
+          />
+          {enrollmentIndex && enrollmentYear != null && (
+            <label
+              style={{
+                position: 'absolute',
+                bottom: 30,
+                right: 10,
+                padding: '4px 8px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                background: '#fff',
+                color: '#333',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.2)',
+                zIndex: 10,
+              }}
+            >
+              Enrollment:{' '}
+              <select
+                value={enrollmentYear}
+                onChange={(e) => setEnrollmentYear(Number(e.target.value))}
+                disabled={enrollmentIndex.snapshots.length < 2}
+                style={{ fontSize: 12 }}
+              >
+                {[...enrollmentIndex.snapshots].reverse().map((s) => (
+                  <option key={s.year} value={s.year}>{s.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {!isMobile && (
+            <button
+              onClick={() => setShowDistrictTable((v) => !v)}
+              style={{
+                position: 'absolute',
+                bottom: 30,
+                left: 10,
+                padding: '4px 10px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 4,
+                background: showDistrictTable ? '#1976d2' : '#fff',
+                color: showDistrictTable ? '#fff' : '#333',
+                cursor: 'pointer',
+                boxShadow: '0 1px 4px rgba(0,0,0,0.2)',
+                zIndex: 10,
+              }}
+            >
+              {showDistrictTable ? 'Hide district table' : 'District table'}
+            </button>
+          )}
+        </div>
+        {showDistrictTable && !isMobile && (
+          <DistrictTable
+            districts={filteredDistricts}
+            schools={schools}
+            budgets={budgets}
+            leaEnrollment={leaEnrollment}
+            selectedDistrictKeys={selectedDistrictKeys}
+            sandboxDistrictKeys={sandboxDistrictKeys}
+            onSelect={handleTableSelect}
+            onAddToSandbox={handleTableAddToSandbox}
+            onClose={() => setShowDistrictTable(false)}
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,109 @@
+import type { BudgetYearSnapshot } from '../lib/budgets';
+
+interface BudgetTrendsProps {
+  history: BudgetYearSnapshot[];
+  /** October year -> total enrollment (ri_lea_enrollment_history.json) for this district. */
+  enrollmentByYear: Record<string, number> | null;
+}
+
+interface TrendPoint {
+  fiscalYear: string;
+  value: number;
+}
+
+const WIDTH = 120;
+const HEIGHT = 28;
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const share = (n: number) => `${(n * 100).toFixed(2)}%`;
+
+/** "FY2024-25" is the 2024–25 school year, counted in October 2024. */
+const octoberYearOf = (fiscalYear: string) => fiscalYear.match(/(\d{4})/)?.[1] ?? null;
+
+function Sparkline({ points, color }: { points: TrendPoint[]; color: string }) {
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * (WIDTH - 4) + 2 : WIDTH / 2);
+  const y = (v: number) => HEIGHT - 3 - ((v - min) / span) * (HEIGHT - 6);
+  const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} style={{ display: 'block' }}>
+      <path d={d} fill="none" stroke={color} strokeWidth={1.5} />
+      {points.map((p, i) => (
+        <circle key={p.fiscalYear} cx={x(i)} cy={y(p.value)} r={2} fill={color}>
+          <title>{p.fiscalYear}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function TrendRow({
+  label,
+  points,
+  format,
+  color,
+}: {
+  label: string;
+  points: TrendPoint[];
+  format: (n: number) => string;
+  color: string;
+}) {
+  if (points.length < 2) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = first.value !== 0 ? (last.value - first.value) / Math.abs(first.value) : null;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 4 }}>
+      <div style={{ fontSize: 11, color: '#555' }}>
+        <div>{label}</div>
+        <div style={{ color: '#333' }}>
+          {format(last.value)}
+          {change != null && (
+            <span style={{ marginLeft: 4, color: change > 0 ? '#c62828' : '#2e7d32' }}>
+              {change > 0 ? '+' : ''}{(change * 100).toFixed(1)}% since {first.fiscalYear}
+            </span>
+          )}
+        </div>
+      </div>
+      <Sparkline points={points} color={color} />
+    </div>
+  );
+}
+
+export default function BudgetTrends({ history, enrollmentByYear }: BudgetTrendsProps) {
+  const total: TrendPoint[] = [];
+  const perPupil: TrendPoint[] = [];
+  const adminShare: TrendPoint[] = [];
+  for (const h of history) {
+    if (h.totalExpenditures == null) continue;
+    total.push({ fiscalYear: h.fiscalYear, value: h.totalExpenditures });
+    const year = octoberYearOf(h.fiscalYear);
+    const enrollment = year ? enrollmentByYear?.[year] : undefined;
+    if (enrollment && enrollment > 0) perPupil.push({ fiscalYear: h.fiscalYear, value: h.totalExpenditures / enrollment });
+    if (h.adminShareOfTotal != null) adminShare.push({ fiscalYear: h.fiscalYear, value: h.adminShareOfTotal });
+  }
+  if (total.length < 2) return null;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: '#555' }}>
+        Trend ({total[0].fiscalYear} – {total[total.length - 1].fiscalYear})
+      </div>
+      <TrendRow label="Total spend" points={total} format={$} color="#1976d2" />
+      {perPupil.length >= 2 ? (
+        <TrendRow label="Per-pupil" points={perPupil} format={$} color="#43a047" />
+      ) : (
+        <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+          Per-pupil: needs October enrollment for at least two of these budget years
+          {perPupil.length === 1 ? ` (only ${perPupil[0].fiscalYear} has one)` : ''}.
+        </div>
+      )}
+      <TrendRow label="Central admin share" points={adminShare} format={share} color="#8e24aa" />
+    </div>
+  );
+}
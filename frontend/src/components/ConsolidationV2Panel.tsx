@@ -0,0 +1,143 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import type { ConsolidationParamsV2, ConsolidationResultV2 } from '../lib/consolidationV2';
+
+interface ConsolidationV2PanelProps {
+  result: ConsolidationResultV2;
+  params: ConsolidationParamsV2;
+  setParams: Dispatch<SetStateAction<ConsolidationParamsV2>>;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+
+type NumericParam = Exclude<keyof ConsolidationParamsV2, 'hubStrategy' | 'pinnedHubKey'>;
+
+const RATE_CONTROLS: { field: NumericParam; label: string }[] = [
+  { field: 'schoolManagementReductionRate', label: 'School management reduction' },
+  { field: 'businessServicesReductionRate', label: 'Business services reduction' },
+  { field: 'facilitiesReductionRate', label: 'Facilities reduction' },
+  { field: 'salaryLevelingRate', label: 'Salary leveling up' },
+  { field: 'teachingCompensationShare', label: 'Compensation share of teaching' },
+];
+
+const BUS_CONTROLS: { field: NumericParam; label: string; step: number }[] = [
+  { field: 'busCostPerYear', label: 'Cost per bus ($/yr)', step: 1000 },
+  { field: 'busCapacity', label: 'Seats per bus', step: 1 },
+  { field: 'maxRideMinutes', label: 'Max ride (min)', step: 5 },
+  { field: 'busSpeedMph', label: 'Avg bus speed (mph)', step: 1 },
+];
+
+export default function ConsolidationV2Panel({ result, params, setParams }: ConsolidationV2PanelProps) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #e0e0e0' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>
+          Component model (V2):{' '}
+          <span style={{ color: result.netImpact >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(result.netImpact)}</span>
+        </span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && (
+        <div style={{ fontSize: 12 }}>
+          <div style={{ marginBottom: 8 }}>
+            {RATE_CONTROLS.map(({ field, label }) => (
+              <label key={field} style={{ display: 'block', marginBottom: 6 }}>
+                {label}: {Math.round(params[field] * 100)}%
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(params[field] * 100)}
+                  onChange={(e) => setParams((p) => ({ ...p, [field]: Number(e.target.value) / 100 }))}
+                  style={{ width: '100%', marginTop: 2 }}
+                />
+              </label>
+            ))}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px' }}>
+              {BUS_CONTROLS.map(({ field, label, step }) => (
+                <label key={field} style={{ fontSize: 11 }}>
+                  {label}
+                  <input
+                    type="number"
+                    min={1}
+                    step={step}
+                    value={params[field]}
+                    onChange={(e) => setParams((p) => ({ ...p, [field]: Math.max(1, Number(e.target.value)) }))}
+                    style={{ width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 }}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {result.components.map((c) => (
+            <div key={c.id} style={{ padding: '6px 0', borderTop: '1px solid #eee' }}>
+              <div
+                onClick={() => setExpanded((prev) => (prev === c.id ? null : c.id))}
+                style={{ display: 'flex', justifyContent: 'space-between', cursor: 'pointer' }}
+              >
+                <strong>{c.label}</strong>
+                <span style={{ color: c.net >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(c.net)}</span>
+              </div>
+              {expanded === c.id && (
+                <div style={{ fontSize: 11, color: '#555', marginTop: 4 }}>
+                  {c.assumptions.map((a, i) => (
+                    <div key={i}>· {a}</div>
+                  ))}
+                  {c.breakdown.length > 0 && (
+                    <div style={{ marginTop: 4 }}>
+                      {c.breakdown.map((l) => (
+                        <div key={l.key}>
+                          {l.name}: {$(l.amount)}
+                          {l.note && <span style={{ color: '#888' }}> ({l.note})</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div style={{ padding: '6px 0', borderTop: '1px solid #e0e0e0' }}>
+            <div>Savings: <span style={{ color: '#2e7d32' }}>{$(result.totalSavings)}</span></div>
+            <div>Costs: <span style={{ color: '#c62828' }}>{$(result.totalCosts)}</span></div>
+            <div>
+              <strong>Projected per-pupil:</strong> {$(result.projectedPerPupil)}
+              <span style={{ color: '#777', marginLeft: 4 }}>
+                ({(result.netImpactPctCombined * 100).toFixed(2)}% of combined budget)
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap } from '../lib/enrollment';
+import type { DistrictAnchorsMap } from '../lib/anchors';
+import {
+  budgetHistorySheet,
+  districtMetricsSheet,
+  downloadSheets,
+  enrollmentGradesSheet,
+} from '../lib/dataExport';
+
+interface DataExportPanelProps {
+  budgets: BudgetsMap | null;
+  leaEnrollment: LeaEnrollmentMap | null;
+  anchors: DistrictAnchorsMap | null;
+  nameOf: (key: string) => string;
+}
+
+const buttonStyle = {
+  padding: '4px 10px',
+  fontSize: 12,
+  border: '1px solid #1565c0',
+  borderRadius: 4,
+  background: '#fff',
+  color: '#1565c0',
+  cursor: 'pointer',
+};
+
+export default function DataExportPanel({ budgets, leaEnrollment, anchors, nameOf }: DataExportPanelProps) {
+  const [open, setOpen] = useState(false);
+  const ready = budgets != null && leaEnrollment != null && anchors != null;
+
+  const exportDistricts = (format: 'csv' | 'xlsx') => {
+    if (!budgets || !leaEnrollment || !anchors) return;
+    const districts = districtMetricsSheet(budgets, leaEnrollment, anchors, nameOf);
+    downloadSheets(
+      format === 'csv'
+        ? [districts]
+        : [districts, budgetHistorySheet(budgets, nameOf), enrollmentGradesSheet(leaEnrollment, nameOf)],
+      'ri-district-metrics',
+      format,
+    );
+  };
+
+  return (
+    <div
+      style={{
+        background: '#fafafa',
+        border: '1px solid #e0e0e0',
+        padding: 14,
+        borderRadius: 8,
+        marginBottom: 16,
+      }}
+    >
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 0,
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 700,
+          fontSize: 15,
+          color: '#333',
+        }}
+      >
+        <span>Data export</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+
+      {open && (
+        <div style={{ fontSize: 12, marginTop: 10 }}>
+          <div style={{ color: '#666', marginBottom: 8 }}>
+            Statewide district table joining budgets, October enrollment and anchors: per-pupil spend, central
+            admin share, FRL/LEP/IEP rates, anchor type and data flags. The XLSX adds budget history and enrollment
+            by grade on separate sheets.
+          </div>
+          {ready ? (
+            <div style={{ display: 'flex', gap: 6 }}>
+              <button onClick={() => exportDistricts('csv')} style={buttonStyle}>District metrics (CSV)</button>
+              <button onClick={() => exportDistricts('xlsx')} style={buttonStyle}>Workbook (XLSX)</button>
+            </div>
+          ) : (
+            <div style={{ color: '#999' }}>Loading data…</div>
+          )}
+          <div style={{ color: '#888', marginTop: 6 }}>
+            Sandbox results export from the sandbox once an estimate is computed.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
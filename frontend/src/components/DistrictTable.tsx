@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react';
+import type { DistrictFeature, DistrictLevel, GeoJSONFC, SchoolFeature } from '../types';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap } from '../lib/enrollment';
+import {
+  buildDistrictRows,
+  DISTRICT_COLUMNS,
+  sortDistrictRows,
+  type DistrictColumnId,
+  type DistrictRow,
+} from '../lib/districtTable';
+
+interface DistrictTableProps {
+  districts: GeoJSONFC<DistrictFeature> | null;
+  /** Schools after the type/grade filters, as counted in the sidebar. */
+  schools: GeoJSONFC<SchoolFeature> | null;
+  budgets: BudgetsMap | null;
+  leaEnrollment: LeaEnrollmentMap | null;
+  selectedDistrictKeys: string[];
+  sandboxDistrictKeys: string[];
+  onSelect: (key: string, shiftKey: boolean) => void;
+  onAddToSandbox: (keys: string[]) => void;
+  onClose: () => void;
+}
+
+const formatCell = (row: DistrictRow, id: DistrictColumnId, format: (typeof DISTRICT_COLUMNS)[number]['format']) => {
+  const v = row[id];
+  if (v == null) return '—';
+  if (format === 'money') return `$${Math.round(v as number).toLocaleString()}`;
+  if (format === 'percent') return `${((v as number) * 100).toFixed(1)}%`;
+  if (format === 'count') return (v as number).toLocaleString();
+  return String(v);
+};
+
+const smallButton = {
+  padding: '2px 8px',
+  fontSize: 11,
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  background: '#fff',
+  cursor: 'pointer',
+};
+
+export default function DistrictTable({
+  districts,
+  schools,
+  budgets,
+  leaEnrollment,
+  selectedDistrictKeys,
+  sandboxDistrictKeys,
+  onSelect,
+  onAddToSandbox,
+  onClose,
+}: DistrictTableProps) {
+  const [query, setQuery] = useState('');
+  const [level, setLevel] = useState<DistrictLevel | ''>('');
+  const [withBudgetOnly, setWithBudgetOnly] = useState(false);
+  const [sort, setSort] = useState<{ column: DistrictColumnId; descending: boolean }>({ column: 'name', descending: false });
+
+  const rows = useMemo(
+    () => buildDistrictRows(districts?.features ?? [], schools?.features ?? [], budgets, leaEnrollment),
+    [districts, schools, budgets, leaEnrollment],
+  );
+
+  const shown = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const filtered = rows.filter(
+      (r) =>
+        (!q || r.name.toLowerCase().includes(q)) &&
+        (!level || r.level === level) &&
+        (!withBudgetOnly || r.totalExpenditures != null),
+    );
+    return sortDistrictRows(filtered, sort.column, sort.descending);
+  }, [rows, query, level, withBudgetOnly, sort]);
+
+  const toggleSort = (column: DistrictColumnId) =>
+    setSort((s) =>
+      s.column === column ? { column, descending: !s.descending } : { column, descending: column !== 'name' && column !== 'level' },
+    );
+
+  const notInSandbox = shown.filter((r) => !sandboxDistrictKeys.includes(r.key)).map((r) => r.key);
+
+  return (
+    <div
+      style={{
+        height: '40%',
+        minHeight: 180,
+        display: 'flex',
+        flexDirection: 'column',
+        borderTop: '2px solid #e0e0e0',
+        background: '#fff',
+        fontSize: 12,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 10px', borderBottom: '1px solid #eee' }}>
+        <strong style={{ fontSize: 13, color: '#333' }}>Districts</strong>
+        <input
+          type="text"
+          placeholder="Filter by name…"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          style={{ padding: '3px 6px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4, width: 160 }}
+        />
+        <select
+          value={level}
+          onChange={(e) => setLevel(e.target.value as DistrictLevel | '')}
+          style={{ fontSize: 12, padding: '2px 4px', border: '1px solid #ccc', borderRadius: 4 }}
+        >
+          <option value="">All levels</option>
+          <option value="unified">Unified</option>
+          <option value="elementary">Elementary</option>
+          <option value="secondary">Secondary</option>
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <input type="checkbox" checked={withBudgetOnly} onChange={(e) => setWithBudgetOnly(e.target.checked)} />
+          With budget data
+        </label>
+        <span style={{ color: '#888' }}>
+          {shown.length} of {rows.length}
+        </span>
+        <span style={{ flex: 1 }} />
+        <button
+          onClick={() => onAddToSandbox(notInSandbox)}
+          disabled={notInSandbox.length === 0 || notInSandbox.length > 20}
+          title={notInSandbox.length > 20 ? 'Filter to 20 or fewer districts first' : 'Add every listed district to the sandbox'}
+          style={smallButton}
+        >
+          Add listed to sandbox
+        </button>
+        <button onClick={onClose} title="Close table" style={{ ...smallButton, border: 'none', fontSize: 14, color: '#999' }}>
+          ×
+        </button>
+      </div>
+      <div style={{ flex: 1, overflow: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {DISTRICT_COLUMNS.map((c) => (
+                <th
+                  key={c.id}
+                  onClick={() => toggleSort(c.id)}
+                  style={{
+                    position: 'sticky',
+                    top: 0,
+                    background: '#f5f5f5',
+                    padding: '4px 6px',
+                    fontWeight: 600,
+                    color: '#555',
+                    cursor: 'pointer',
+                    whiteSpace: 'nowrap',
+                    textAlign: c.format === 'text' ? 'left' : 'right',
+                    borderBottom: '1px solid #ddd',
+                  }}
+                >
+                  {c.label}
+                  {sort.column === c.id ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                </th>
+              ))}
+              <th style={{ position: 'sticky', top: 0, background: '#f5f5f5', borderBottom: '1px solid #ddd' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((r) => {
+              const selected = selectedDistrictKeys.includes(r.key);
+              const inSandbox = sandboxDistrictKeys.includes(r.key);
+              return (
+                <tr
+                  key={r.key}
+                  onClick={(e) => onSelect(r.key, e.shiftKey)}
+                  style={{ cursor: 'pointer', background: selected ? '#e3f2fd' : undefined, borderBottom: '1px solid #f0f0f0' }}
+                >
+                  {DISTRICT_COLUMNS.map((c) => (
+                    <td
+                      key={c.id}
+                      title={c.id === 'name' && r.flags.length > 0 ? `Budget flags: ${r.flags.join(', ')}` : undefined}
+                      style={{
+                        padding: '3px 6px',
+                        whiteSpace: 'nowrap',
+                        textAlign: c.format === 'text' ? 'left' : 'right',
+                        color: c.format !== 'text' && r[c.id] == null ? '#bbb' : undefined,
+                      }}
+                    >
+                      {formatCell(r, c.id, c.format)}
+                      {c.id === 'name' && r.flags.length > 0 && <span style={{ color: '#e65100' }}> ⚑</span>}
+                    </td>
+                  ))}
+                  <td style={{ padding: '3px 6px', textAlign: 'right' }}>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAddToSandbox([r.key]);
+                      }}
+                      disabled={inSandbox}
+                      style={{ ...smallButton, color: inSandbox ? '#999' : '#1565c0' }}
+                    >
+                      {inSandbox ? 'In sandbox' : '+ Sandbox'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import {
+  FORECAST_MAX_YEARS,
+  FORECAST_MIN_YEARS,
+  type ForecastParams,
+  type ForecastYear,
+  type KindergartenEntry,
+  type SurvivalSource,
+} from '../lib/enrollmentForecast';
+
+interface EnrollmentForecastPanelProps {
+  years: ForecastYear[];
+  /** October count year of the snapshot the forecast starts from. */
+  baseYear: number;
+  entryGrowth: number;
+  params: ForecastParams;
+  setParams: Dispatch<SetStateAction<ForecastParams>>;
+  note?: string;
+}
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+
+const selectStyle = { width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 };
+
+const WIDTH = 300;
+const HEIGHT = 90;
+const PAD_X = 34;
+const PAD_Y = 10;
+
+function ForecastChart({ years, baseYear }: { years: ForecastYear[]; baseYear: number }) {
+  const totals = years.map((y) => y.total);
+  const min = Math.min(...totals) * 0.95;
+  const max = Math.max(...totals) * 1.05;
+  const span = max - min || 1;
+  const x = (i: number) => PAD_X + (i / Math.max(1, years.length - 1)) * (WIDTH - PAD_X - 6);
+  const y = (v: number) => PAD_Y + ((max - v) / span) * (HEIGHT - 2 * PAD_Y);
+  const last = years[years.length - 1];
+  const color = last.total >= years[0].total ? '#2e7d32' : '#c62828';
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 12}`} style={{ width: '100%', height: 'auto', display: 'block' }}>
+      <line x1={PAD_X} x2={WIDTH - 6} y1={y(years[0].total)} y2={y(years[0].total)} stroke="#ccc" strokeDasharray="3 2" />
+      <text x={PAD_X - 3} y={y(max) + 8} fontSize={8} textAnchor="end" fill="#555">{Math.round(max).toLocaleString()}</text>
+      <text x={PAD_X - 3} y={y(min)} fontSize={8} textAnchor="end" fill="#555">{Math.round(min).toLocaleString()}</text>
+      <polyline points={years.map((yr, i) => `${x(i)},${y(yr.total)}`).join(' ')} fill="none" stroke={color} strokeWidth={1.5} />
+      {years.map((yr, i) => (
+        <circle key={yr.year} cx={x(i)} cy={y(yr.total)} r={2} fill={color}>
+          <title>{`Oct ${baseYear + yr.year}: ${Math.round(yr.total).toLocaleString()}`}</title>
+        </circle>
+      ))}
+      <text x={x(0)} y={HEIGHT + 10} fontSize={8} textAnchor="start" fill="#555">{baseYear}</text>
+      <text x={x(years.length - 1)} y={HEIGHT + 10} fontSize={8} textAnchor="end" fill="#555">{baseYear + last.year}</text>
+    </svg>
+  );
+}
+
+export default function EnrollmentForecastPanel({ years, baseYear, entryGrowth, params, setParams, note }: EnrollmentForecastPanelProps) {
+  const [open, setOpen] = useState(false);
+  const base = years[0]?.total ?? 0;
+  const last = years[years.length - 1];
+  const change = base > 0 && last ? last.total / base - 1 : 0;
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #bbdefb' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>
+          Enrollment forecast{' '}
+          <span style={{ fontWeight: 400, color: change >= 0 ? '#2e7d32' : '#c62828' }}>
+            {pct(change)} by {baseYear + (last?.year ?? 0)}
+          </span>
+        </span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && (
+        <div style={{ fontSize: 12 }}>
+          <ForecastChart years={years} baseYear={baseYear} />
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', margin: '6px 0' }}>
+            <label style={{ fontSize: 11, gridColumn: '1 / -1' }}>
+              Horizon: {params.years} years
+              <input
+                type="range"
+                min={FORECAST_MIN_YEARS}
+                max={FORECAST_MAX_YEARS}
+                step={1}
+                value={params.years}
+                onChange={(e) => setParams((p) => ({ ...p, years: Number(e.target.value) }))}
+                style={{ width: '100%' }}
+              />
+            </label>
+            <label style={{ fontSize: 11 }}>
+              Grade survival
+              <select
+                value={params.survivalSource}
+                onChange={(e) => setParams((p) => ({ ...p, survivalSource: e.target.value as SurvivalSource }))}
+                style={selectStyle}
+              >
+                <option value="district">This district</option>
+                <option value="statewide">Statewide</option>
+                <option value="fixed">Fixed rate</option>
+              </select>
+            </label>
+            <label style={{ fontSize: 11 }}>
+              Survival rate (%)
+              <input
+                type="number"
+                min={60}
+                max={140}
+                step={1}
+                value={Math.round(params.fixedSurvivalRate * 100)}
+                disabled={params.survivalSource !== 'fixed'}
+                onChange={(e) => setParams((p) => ({ ...p, fixedSurvivalRate: Number(e.target.value) / 100 }))}
+                style={selectStyle}
+              />
+            </label>
+            <label style={{ fontSize: 11 }}>
+              Kindergarten entry
+              <select
+                value={params.kindergartenEntry}
+                onChange={(e) => setParams((p) => ({ ...p, kindergartenEntry: e.target.value as KindergartenEntry }))}
+                style={selectStyle}
+              >
+                <option value="recent">Recent trend</option>
+                <option value="hold">Hold at today</option>
+                <option value="custom">Custom %/yr</option>
+              </select>
+            </label>
+            <label style={{ fontSize: 11 }}>
+              Entry change (%/yr)
+              <input
+                type="number"
+                min={-10}
+                max={10}
+                step={0.5}
+                value={Math.round((params.kindergartenEntry === 'custom' ? params.kindergartenChange : entryGrowth) * 1000) / 10}
+                disabled={params.kindergartenEntry !== 'custom'}
+                onChange={(e) => setParams((p) => ({ ...p, kindergartenChange: Number(e.target.value) / 100 }))}
+                style={selectStyle}
+              />
+            </label>
+          </div>
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+            <thead>
+              <tr style={{ color: '#666', textAlign: 'right' }}>
+                <th style={{ textAlign: 'left', fontWeight: 500 }}>October</th>
+                <th style={{ fontWeight: 500 }}>Students</th>
+                <th style={{ fontWeight: 500 }}>vs. {baseYear}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {years.map((yr) => (
+                <tr key={yr.year} style={{ borderTop: '1px solid #e3eaf2', textAlign: 'right' }}>
+                  <td style={{ textAlign: 'left' }}>{baseYear + yr.year}{yr.year === 0 ? ' (actual)' : ''}</td>
+                  <td>{Math.round(yr.total).toLocaleString()}</td>
+                  <td>{yr.year === 0 ? '—' : pct(base > 0 ? yr.total / base - 1 : 0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+            Cohort survival from one October count; PK held constant.
+            {note && ` ${note}`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap } from '../lib/enrollment';
+import type { DistrictAnchorsMap } from '../lib/anchors';
+import type { TravelMatrix } from '../lib/geoDistance';
+import type { TransportGeo } from '../lib/transportModel';
+import { computeConsolidationV1 } from '../lib/consolidationV1';
+import { computeConsolidationV2, DEFAULT_COMPONENTS_V2, type ConsolidationParamsV2 } from '../lib/consolidationV2';
+import { strategyWinners, type HubStrategy } from '../lib/hubSelection';
+
+interface HubComparisonPanelProps {
+  keys: string[];
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  params: ConsolidationParamsV2;
+  setParams: Dispatch<SetStateAction<ConsolidationParamsV2>>;
+  geo?: TransportGeo;
+  travel: TravelMatrix | null;
+}
+
+interface CandidateRow {
+  key: string;
+  name: string;
+  v1Net: number;
+  v2Net: number;
+  v2Transport: number;
+  projectedPerPupil: number;
+  winners: string[];
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+
+const STRATEGY_BADGES: Record<HubStrategy, string> = {
+  'largest-enrollment': 'Largest',
+  'min-transport': 'Min transport',
+  central: 'Central',
+  'lowest-per-pupil': 'Lowest $/pupil',
+};
+
+/** Runs both models once per selected district with that district pinned as hub. */
+export default function HubComparisonPanel({
+  keys, budgets, enrollments, anchors, params, setParams, geo, travel,
+}: HubComparisonPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const rows = useMemo((): CandidateRow[] | null => {
+    if (!open) return null;
+    const unique = [...new Set(keys)];
+    const usable = unique.filter((k) => budgets[k] && enrollments[k]?.total > 0 && anchors[k]);
+    if (usable.length !== unique.length || usable.length < 2) return null;
+    const winners = strategyWinners(usable, { budgets, enrollments, anchors, travel });
+    return usable.map((k) => {
+      const pinned = { ...params, pinnedHubKey: k };
+      const v1 = computeConsolidationV1(usable, budgets, enrollments, anchors, pinned, travel);
+      const v2 = computeConsolidationV2(usable, budgets, enrollments, anchors, pinned, DEFAULT_COMPONENTS_V2, geo, travel);
+      return {
+        key: k,
+        name: v1.hubName,
+        v1Net: v1.netImpact,
+        v2Net: v2.netImpact,
+        v2Transport: v2.components.find((c) => c.id === 'transportation')?.costs ?? 0,
+        projectedPerPupil: v2.projectedPerPupil,
+        winners: winners[k].map((s) => STRATEGY_BADGES[s]),
+      };
+    });
+  }, [open, keys, budgets, enrollments, anchors, params, geo, travel]);
+
+  const best = rows ? Math.max(...rows.map((r) => r.v2Net)) : 0;
+  const currentHub = params.pinnedHubKey;
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #e0e0e0' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>Compare candidate hubs</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && !rows && (
+        <div style={{ fontSize: 12, color: '#888', fontStyle: 'italic' }}>
+          Every selected district needs budget, enrollment and anchor data to compare hubs.
+        </div>
+      )}
+      {open && rows && (
+        <div style={{ fontSize: 11 }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#555', textAlign: 'right' }}>
+                <th style={{ textAlign: 'left', fontWeight: 600, padding: '2px 0' }}>Hub</th>
+                <th style={{ fontWeight: 600 }}>V1 net</th>
+                <th style={{ fontWeight: 600 }}>V2 net</th>
+                <th style={{ fontWeight: 600 }}>Transport</th>
+                <th style={{ fontWeight: 600 }}>$/pupil</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr
+                  key={r.key}
+                  onClick={() => setParams((p) => ({ ...p, pinnedHubKey: p.pinnedHubKey === r.key ? null : r.key }))}
+                  title={currentHub === r.key ? 'Click to unpin' : 'Click to pin as hub'}
+                  style={{
+                    cursor: 'pointer',
+                    borderTop: '1px solid #eee',
+                    textAlign: 'right',
+                    background: currentHub === r.key ? '#e3f2fd' : undefined,
+                  }}
+                >
+                  <td style={{ textAlign: 'left', padding: '3px 0' }}>
+                    {currentHub === r.key && '📌 '}
+                    {r.name}
+                    {r.v2Net === best && <span style={{ color: '#2e7d32' }}> ★</span>}
+                    {r.winners.length > 0 && (
+                      <div style={{ color: '#888', fontSize: 10 }}>{r.winners.join(' · ')}</div>
+                    )}
+                  </td>
+                  <td style={{ color: r.v1Net >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(r.v1Net)}</td>
+                  <td style={{ color: r.v2Net >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(r.v2Net)}</td>
+                  <td>{$(r.v2Transport)}</td>
+                  <td>{$(r.projectedPerPupil)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ color: '#888', marginTop: 4 }}>
+            ★ best V2 net impact. Labels show which strategies pick that hub. Click a row to pin it.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,8 +4,13 @@ import Supercluster from 'supercluster';
 import { toPng } from 'html-to-image';
 import pointOnFeature from '@turf/point-on-feature';
 import area from '@turf/area';
-import type { GeoJSONFC, SchoolFeature, DistrictFeature } from '../types';
+import type { GeoJSONFC, SchoolFeature, DistrictFeature, SandboxLink } from '../types';
 import type { DistrictAnchorsMap } from '../lib/anchors';
+import { districtKey } from '../lib/enrollment';
+import { groupColor, type OptimizerGroup } from '../lib/optimizer';
+import { UTILIZATION_STOPS } from '../lib/capacity';
+import type { MapViewState } from '../lib/urlState';
+import { formatChoroplethValue, NO_DATA_COLOR, type DistrictChoropleth } from '../lib/choropleth';
 
 const RI_CENTER: [number, number] = [-71.5, 41.6];
 const RI_ZOOM = 8;
@@ -46,9 +51,40 @@ interface MapProps {
   highlightDistrict: DistrictFeature | null;
   anchors: DistrictAnchorsMap | null;
   showAnchors: boolean;
+  /** Color school points by their `utilization` property instead of by type. */
+  colorByUtilization: boolean;
+  sandboxLinks: SandboxLink[];
+  /** Districts of each sandbox scenario, filled in its tab color (set when comparing several). */
+  sandboxGroups: { keys: string[]; color: string }[] | null;
+  optimizerGroups: OptimizerGroup[] | null;
+  /** Shade districts by a metric instead of the plain fill. */
+  choropleth: DistrictChoropleth | null;
+  onClearChoropleth: () => void;
+  /** Peer districts of the selected district, outlined for comparison. */
+  peerDistrictKeys: string[] | null;
   onDistrictClick: (d: DistrictFeature | null, shiftKey: boolean) => void;
   onDistrictHover: (d: DistrictFeature | null) => void;
   onSchoolClick: (s: SchoolFeature | null) => void;
+  /** View to open at (from a shared link); defaults to all of RI. */
+  initialView?: MapViewState | null;
+  /** Jump here whenever this object changes (back/forward navigation). */
+  viewRequest?: MapViewState | null;
+  onViewChange?: (view: MapViewState) => void;
+}
+
+const DISTRICT_FILL_COLOR = '#2563eb';
+const DISTRICT_FILL_OPACITY = ['match', ['coalesce', ['get', 'district_level'], 'unified'], 'elementary', 0.06, 'secondary', 0.1, 0.12];
+
+/** District fill: plain blue by level, or the choropleth class color (gray when a district has no value). */
+function districtFillColor(choropleth: DistrictChoropleth | null): any {
+  if (!choropleth) return DISTRICT_FILL_COLOR;
+  const entries = Object.entries(choropleth.colorsByGeoid);
+  if (entries.length === 0) return NO_DATA_COLOR;
+  return ['match', ['get', 'district_geoid'], ...entries.flat(), NO_DATA_COLOR];
+}
+
+function districtFillOpacity(choropleth: DistrictChoropleth | null): any {
+  return choropleth ? 0.75 : DISTRICT_FILL_OPACITY;
 }
 
 /** All map layer IDs used for school points (clusters + unclustered). */
@@ -60,6 +96,26 @@ function collectSchoolLayerIds(clusterEnabled: boolean): string[] {
   return ids;
 }
 
+const SCHOOL_TYPE_COLOR = ['match', ['get', 'school_type'], 'public', '#2e7d32', '#1565c0'];
+
+/** School point fill: by type, or by utilization (gray when a school has no capacity data). */
+function schoolPointColor(byUtilization: boolean): any {
+  if (!byUtilization) return SCHOOL_TYPE_COLOR;
+  return [
+    'case',
+    ['has', 'utilization'],
+    ['interpolate', ['linear'], ['get', 'utilization'], ...UTILIZATION_STOPS.flatMap((s) => [s.value, s.color])],
+    '#9e9e9e',
+  ];
+}
+
+/** Closed schools (school closure scenario) draw hollow with a red ring. */
+function schoolFill(byUtilization: boolean): any {
+  return ['case', ['==', ['get', 'closed'], true], '#fff', schoolPointColor(byUtilization)];
+}
+
+const SCHOOL_STROKE_COLOR: any = ['case', ['==', ['get', 'closed'], true], '#c62828', '#fff'];
+
 /** Small districts that need offset labels + callouts (curated). */
 const OFFSET_LABEL_NAMES = new Set([
   'central falls',
@@ -191,9 +247,19 @@ export default function Map({
   highlightDistrict,
   anchors,
   showAnchors,
+  colorByUtilization,
+  sandboxLinks,
+  sandboxGroups,
+  peerDistrictKeys,
+  optimizerGroups,
+  choropleth,
+  onClearChoropleth,
   onDistrictClick,
   onDistrictHover,
   onSchoolClick,
+  initialView,
+  viewRequest,
+  onViewChange,
 }: MapProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
@@ -204,6 +270,14 @@ export default function Map({
   const clusterIndexRef = useRef<Supercluster<SchoolFeature, { point_count: number }> | null>(null);
   const anchorsSourceRef = useRef<boolean>(false);
   const anchorPopupRef = useRef<maplibregl.Popup | null>(null);
+  const sandboxLinksSourceRef = useRef<boolean>(false);
+  const optimizerSourceRef = useRef<boolean>(false);
+  const sandboxGroupsSourceRef = useRef<boolean>(false);
+  const peerSourceRef = useRef<boolean>(false);
+  const choroplethRef = useRef(choropleth);
+  choroplethRef.current = choropleth;
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
   const [exportingPng, setExportingPng] = useState(false);
   const [hoveredDistrictLabel, setHoveredDistrictLabel] = useState<{
     name: string;
@@ -216,10 +290,14 @@ export default function Map({
     const map = new maplibregl.Map({
       container: containerRef.current,
       style: BASEMAP_STYLE as any,
-      center: RI_CENTER,
-      zoom: RI_ZOOM,
+      center: initialView ? [initialView.lon, initialView.lat] : RI_CENTER,
+      zoom: initialView?.zoom ?? RI_ZOOM,
     });
     map.addControl(new maplibregl.NavigationControl(), 'top-right');
+    map.on('moveend', () => {
+      const c = map.getCenter();
+      onViewChangeRef.current?.({ lon: c.lng, lat: c.lat, zoom: map.getZoom() });
+    });
     mapRef.current = map;
     return () => {
       map.remove();
@@ -227,6 +305,10 @@ export default function Map({
     };
   }, []);
 
+  useEffect(() => {
+    if (viewRequest) mapRef.current?.jumpTo({ center: [viewRequest.lon, viewRequest.lat], zoom: viewRequest.zoom });
+  }, [viewRequest]);
+
   useEffect(() => {
     const map = mapRef.current;
     if (!map || districts == null) return;
@@ -248,16 +330,8 @@ export default function Map({
         type: 'fill',
         source: 'districts',
         paint: {
-          'fill-color': '#2563eb',
-          'fill-opacity': [
-            'match',
-            ['coalesce', ['get', 'district_level'], 'unified'],
-            'elementary',
-            0.06,
-            'secondary',
-            0.1,
-            0.12,
-          ],
+          'fill-color': districtFillColor(choroplethRef.current),
+          'fill-opacity': districtFillOpacity(choroplethRef.current),
         },
       },
       beforeSchoolLayer
@@ -373,6 +447,13 @@ export default function Map({
     return () => clearTimeout(timer);
   }, [selectedDistrict]);
 
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !map.getLayer('district-fill')) return;
+    map.setPaintProperty('district-fill', 'fill-color', districtFillColor(choropleth));
+    map.setPaintProperty('district-fill', 'fill-opacity', districtFillOpacity(choropleth));
+  }, [choropleth]);
+
   useEffect(() => {
     const map = mapRef.current;
     if (!map) return;
@@ -582,10 +663,10 @@ export default function Map({
         source: 'schools',
         filter: ['!=', ['get', 'cluster'], true],
         paint: {
-          'circle-color': ['match', ['get', 'school_type'], 'public', '#2e7d32', '#1565c0'],
+          'circle-color': schoolFill(colorByUtilization),
           'circle-radius': ['match', ['get', 'school_type'], 'public', 6, 5],
           'circle-stroke-width': ['match', ['get', 'school_type'], 'public', 2, 3],
-          'circle-stroke-color': '#fff',
+          'circle-stroke-color': SCHOOL_STROKE_COLOR,
         },
       });
 
@@ -612,10 +693,10 @@ export default function Map({
         type: 'circle',
         source: 'schools',
         paint: {
-          'circle-color': ['match', ['get', 'school_type'], 'public', '#2e7d32', '#1565c0'],
+          'circle-color': schoolFill(colorByUtilization),
           'circle-radius': ['match', ['get', 'school_type'], 'public', 6, 5],
           'circle-stroke-width': ['match', ['get', 'school_type'], 'public', 2, 3],
-          'circle-stroke-color': '#fff',
+          'circle-stroke-color': SCHOOL_STROKE_COLOR,
         },
       });
     }
@@ -645,7 +726,7 @@ export default function Map({
         map.off('click', 'school-clusters', handleClusterClick);
       }
     };
-  }, [schools, clusterSchools, showPublic, showPrivate, onSchoolClick]);
+  }, [schools, clusterSchools, showPublic, showPrivate, onSchoolClick, colorByUtilization]);
 
   useEffect(() => {
     const map = mapRef.current;
@@ -820,6 +901,230 @@ export default function Map({
     };
   }, [showAnchors]);
 
+  const sandboxLinksGeoJSON = useMemo(() => ({
+    type: 'FeatureCollection' as const,
+    features: sandboxLinks.map((l) => ({
+      type: 'Feature' as const,
+      properties: {
+        source: l.source,
+        label: l.minutes != null
+          ? `${l.miles.toFixed(1)} mi · ${Math.round(l.minutes)} min`
+          : `${l.miles.toFixed(1)} mi (straight line)`,
+      },
+      geometry: { type: 'LineString' as const, coordinates: [l.from, l.to] },
+    })),
+  }), [sandboxLinks]);
+
+  // Sandbox spoke → hub links: solid = road distance, dashed = straight-line fallback
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const addLinkLayers = () => {
+      if (sandboxLinksSourceRef.current) {
+        const src = map.getSource('sandbox-links') as maplibregl.GeoJSONSource;
+        if (src) src.setData(sandboxLinksGeoJSON as any);
+        return;
+      }
+      map.addSource('sandbox-links', { type: 'geojson', data: sandboxLinksGeoJSON as any });
+      map.addLayer({
+        id: 'sandbox-links-road',
+        type: 'line',
+        source: 'sandbox-links',
+        filter: ['==', ['get', 'source'], 'road'],
+        paint: { 'line-color': '#6a1b9a', 'line-width': 2.5, 'line-opacity': 0.85 },
+      });
+      map.addLayer({
+        id: 'sandbox-links-straight',
+        type: 'line',
+        source: 'sandbox-links',
+        filter: ['==', ['get', 'source'], 'haversine'],
+        paint: { 'line-color': '#6a1b9a', 'line-width': 2, 'line-opacity': 0.7, 'line-dasharray': [2, 2] },
+      });
+      map.addLayer({
+        id: 'sandbox-links-label',
+        type: 'symbol',
+        source: 'sandbox-links',
+        layout: {
+          'symbol-placement': 'line-center',
+          'text-field': ['get', 'label'],
+          'text-font': ['Noto Sans Regular'],
+          'text-size': 11,
+          'text-allow-overlap': true,
+        },
+        paint: {
+          'text-color': '#4a148c',
+          'text-halo-color': '#ffffff',
+          'text-halo-width': 1.5,
+        },
+      });
+      sandboxLinksSourceRef.current = true;
+    };
+
+    if (map.isStyleLoaded()) {
+      addLinkLayers();
+    } else {
+      map.once('load', addLinkLayers);
+    }
+  }, [sandboxLinksGeoJSON]);
+
+  const optimizerGeoJSON = useMemo(() => {
+    const groupByKey: Record<string, number> = {};
+    (optimizerGroups ?? []).forEach((g, i) => g.keys.forEach((k) => { groupByKey[k] = i; }));
+    return {
+      type: 'FeatureCollection' as const,
+      features: (districts?.features ?? []).flatMap((f) => {
+        const idx = groupByKey[districtKey(f.properties.district_name ?? f.properties.name ?? '')];
+        if (idx == null) return [];
+        return [{ ...f, properties: { ...f.properties, group_color: groupColor(idx) } }];
+      }),
+    };
+  }, [optimizerGroups, districts]);
+
+  // Optimizer proposal: districts filled by proposed merger group
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const addGroupLayers = () => {
+      if (optimizerSourceRef.current) {
+        const src = map.getSource('optimizer-groups') as maplibregl.GeoJSONSource;
+        if (src) src.setData(optimizerGeoJSON as any);
+        return;
+      }
+      const beforeSchoolLayer = map.getLayer('school-points') ? 'school-points' : map.getLayer('school-clusters') ? 'school-clusters' : undefined;
+      map.addSource('optimizer-groups', { type: 'geojson', data: optimizerGeoJSON as any });
+      map.addLayer(
+        {
+          id: 'optimizer-groups-fill',
+          type: 'fill',
+          source: 'optimizer-groups',
+          paint: { 'fill-color': ['get', 'group_color'], 'fill-opacity': 0.45 },
+        },
+        beforeSchoolLayer
+      );
+      map.addLayer(
+        {
+          id: 'optimizer-groups-outline',
+          type: 'line',
+          source: 'optimizer-groups',
+          paint: { 'line-color': ['get', 'group_color'], 'line-width': 2 },
+        },
+        beforeSchoolLayer
+      );
+      optimizerSourceRef.current = true;
+    };
+
+    if (map.isStyleLoaded()) {
+      addGroupLayers();
+    } else {
+      map.once('load', addGroupLayers);
+    }
+  }, [optimizerGeoJSON]);
+
+  const sandboxGroupsGeoJSON = useMemo(() => {
+    const byKey: Record<string, DistrictFeature> = {};
+    for (const f of districts?.features ?? []) byKey[districtKey(f.properties.district_name ?? f.properties.name ?? '')] = f;
+    return {
+      type: 'FeatureCollection' as const,
+      features: (sandboxGroups ?? []).flatMap((g) =>
+        g.keys.flatMap((k) => (byKey[k] ? [{ ...byKey[k], properties: { ...byKey[k].properties, group_color: g.color } }] : [])),
+      ),
+    };
+  }, [sandboxGroups, districts]);
+
+  // Sandbox scenarios: each scenario's districts in its tab color; overlaps blend
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const addScenarioLayers = () => {
+      if (sandboxGroupsSourceRef.current) {
+        const src = map.getSource('sandbox-groups') as maplibregl.GeoJSONSource;
+        if (src) src.setData(sandboxGroupsGeoJSON as any);
+        return;
+      }
+      const beforeSchoolLayer = map.getLayer('school-points') ? 'school-points' : map.getLayer('school-clusters') ? 'school-clusters' : undefined;
+      map.addSource('sandbox-groups', { type: 'geojson', data: sandboxGroupsGeoJSON as any });
+      map.addLayer(
+        {
+          id: 'sandbox-groups-fill',
+          type: 'fill',
+          source: 'sandbox-groups',
+          paint: { 'fill-color': ['get', 'group_color'], 'fill-opacity': 0.3 },
+        },
+        beforeSchoolLayer
+      );
+      map.addLayer(
+        {
+          id: 'sandbox-groups-outline',
+          type: 'line',
+          source: 'sandbox-groups',
+          paint: { 'line-color': ['get', 'group_color'], 'line-width': 2, 'line-dasharray': [2, 1] },
+        },
+        beforeSchoolLayer
+      );
+      sandboxGroupsSourceRef.current = true;
+    };
+
+    if (map.isStyleLoaded()) {
+      addScenarioLayers();
+    } else {
+      map.once('load', addScenarioLayers);
+    }
+  }, [sandboxGroupsGeoJSON]);
+
+  const peerGeoJSON = useMemo(() => {
+    const keys = new Set(peerDistrictKeys ?? []);
+    return {
+      type: 'FeatureCollection' as const,
+      features: (districts?.features ?? []).filter((f) =>
+        keys.has(districtKey(f.properties.district_name ?? f.properties.name ?? '')),
+      ),
+    };
+  }, [peerDistrictKeys, districts]);
+
+  // Peer districts: orange outline over a light tint
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const addPeerLayers = () => {
+      if (peerSourceRef.current) {
+        const src = map.getSource('peer-districts') as maplibregl.GeoJSONSource;
+        if (src) src.setData(peerGeoJSON as any);
+        return;
+      }
+      const beforeSchoolLayer = map.getLayer('school-points') ? 'school-points' : map.getLayer('school-clusters') ? 'school-clusters' : undefined;
+      map.addSource('peer-districts', { type: 'geojson', data: peerGeoJSON as any });
+      map.addLayer(
+        {
+          id: 'peer-districts-fill',
+          type: 'fill',
+          source: 'peer-districts',
+          paint: { 'fill-color': '#ef6c00', 'fill-opacity': 0.15 },
+        },
+        beforeSchoolLayer
+      );
+      map.addLayer(
+        {
+          id: 'peer-districts-outline',
+          type: 'line',
+          source: 'peer-districts',
+          paint: { 'line-color': '#ef6c00', 'line-width': 2.5 },
+        },
+        beforeSchoolLayer
+      );
+      peerSourceRef.current = true;
+    };
+
+    if (map.isStyleLoaded()) {
+      addPeerLayers();
+    } else {
+      map.once('load', addPeerLayers);
+    }
+  }, [peerGeoJSON]);
+
   const handleExportGeoJSON = useCallback(() => {
     if (!schools?.features?.length) return;
     let feats = schools.features;
@@ -936,6 +1241,90 @@ export default function Map({
       >
         {baseMapVisible ? 'Hide Base Map' : 'Show Base Map'}
       </button>
+      {colorByUtilization && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 64,
+            right: 10,
+            padding: '6px 8px',
+            fontSize: 11,
+            border: '1px solid #ccc',
+            borderRadius: 4,
+            background: '#fff',
+            color: '#333',
+            boxShadow: '0 1px 4px rgba(0,0,0,0.2)',
+            zIndex: 10,
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: 3 }}>Utilization</div>
+          <div
+            style={{
+              width: 140,
+              height: 8,
+              borderRadius: 2,
+              background: `linear-gradient(to right, ${UTILIZATION_STOPS.map((s) => s.color).join(', ')})`,
+            }}
+          />
+          <div style={{ display: 'flex', justifyContent: 'space-between', width: 140, color: '#555' }}>
+            {UTILIZATION_STOPS.map((s) => <span key={s.value}>{s.label}</span>)}
+          </div>
+          <div style={{ color: '#777', marginTop: 2 }}>
+            <span style={{ display: 'inline-block', width: 8, height: 8, borderRadius: '50%', background: '#9e9e9e', marginRight: 3 }} />
+            no capacity data
+          </div>
+        </div>
+      )}
+      {choropleth && showDistricts && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 64,
+            left: 10,
+            padding: '6px 8px',
+            fontSize: 11,
+            border: '1px solid #ccc',
+            borderRadius: 4,
+            background: '#fff',
+            color: '#333',
+            boxShadow: '0 1px 4px rgba(0,0,0,0.2)',
+            zIndex: 10,
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontWeight: 600, marginBottom: 3 }}>
+            {choropleth.label}
+            <button
+              onClick={onClearChoropleth}
+              title="Turn off shading"
+              style={{ border: 'none', background: 'none', padding: 0, cursor: 'pointer', color: '#999', fontSize: 13, lineHeight: 1 }}
+            >
+              ×
+            </button>
+          </div>
+          {choropleth.legend.map((l) => (
+            <div key={l.color} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <span style={{ width: 14, height: 10, background: l.color, border: '1px solid #bbb' }} />
+              {formatChoroplethValue(l.from, choropleth.format)}
+              {l.to !== l.from && ` – ${formatChoroplethValue(l.to, choropleth.format)}`}
+            </div>
+          ))}
+          {choropleth.noDataCount > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#777' }}>
+              <span style={{ width: 14, height: 10, background: NO_DATA_COLOR, border: '1px solid #bbb' }} />
+              no data ({choropleth.noDataCount})
+            </div>
+          )}
+          {choropleth.legend.length === 0 && (
+            <div style={{ color: '#777', marginTop: 2, maxWidth: 180 }}>
+              {choropleth.metric === 'enrollmentChange'
+                ? 'Enrollment change needs October counts from at least two years, and fewer are loaded.'
+                : choropleth.metric === 'sandboxNetImpact'
+                  ? 'Add a district to the sandbox first.'
+                  : 'No values for this metric yet.'}
+            </div>
+          )}
+        </div>
+      )}
       {hoveredDistrictLabel && (
         <div
           style={{
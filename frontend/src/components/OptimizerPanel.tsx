@@ -0,0 +1,299 @@
+import { useMemo, useRef, useState } from 'react';
+import type { GeoJSONFC, DistrictFeature, SchoolFeature } from '../types';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap, SchoolEnrollmentMap } from '../lib/enrollment';
+import type { DistrictAnchorsMap } from '../lib/anchors';
+import type { TravelMatrix } from '../lib/geoDistance';
+import type { ConsolidationParamsV2 } from '../lib/consolidationV2';
+import { buildAdjacency, landAdjacency, type DistrictAdjacencyGraph } from '../lib/adjacency';
+import {
+  DEFAULT_OPTIMIZER_CONSTRAINTS,
+  groupColor,
+  runOptimizerInWorker,
+  type OptimizerConstraints,
+  type OptimizerProgress,
+  type OptimizerResult,
+} from '../lib/optimizer';
+
+interface OptimizerPanelProps {
+  districts: GeoJSONFC<DistrictFeature> | null;
+  allSchools: GeoJSONFC<SchoolFeature> | null;
+  schoolEnrollment: SchoolEnrollmentMap | null;
+  budgets: BudgetsMap | null;
+  leaEnrollment: LeaEnrollmentMap | null;
+  anchors: DistrictAnchorsMap | null;
+  travelMatrix: TravelMatrix | null;
+  /** Shipped adjacency graph; water-only borders do not count as contiguous. */
+  adjacencyGraph: DistrictAdjacencyGraph | null;
+  params: ConsolidationParamsV2;
+  districtOptions: { key: string; name: string }[];
+  result: OptimizerResult | null;
+  setResult: (r: OptimizerResult | null) => void;
+  onLoadGroup: (keys: string[]) => void;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+
+const inputStyle = { width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 };
+
+export default function OptimizerPanel({
+  districts,
+  allSchools,
+  schoolEnrollment,
+  budgets,
+  leaEnrollment,
+  anchors,
+  travelMatrix,
+  adjacencyGraph,
+  params,
+  districtOptions,
+  result,
+  setResult,
+  onLoadGroup,
+}: OptimizerPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [constraints, setConstraints] = useState<OptimizerConstraints>(DEFAULT_OPTIMIZER_CONSTRAINTS);
+  const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // Fall back to borders computed from the polygons when district-adjacency.json was not built
+  const adjacency = useMemo(
+    () => (adjacencyGraph ? landAdjacency(adjacencyGraph) : districts?.features ? buildAdjacency(districts.features) : null),
+    [adjacencyGraph, districts],
+  );
+  const ready = !!(adjacency && budgets && leaEnrollment && anchors);
+
+  const run = () => {
+    if (!adjacency || !budgets || !leaEnrollment || !anchors || !districts) return;
+    const geo = allSchools?.features
+      ? { districts: districts.features, schools: allSchools.features, schoolEnrollment }
+      : undefined;
+    setRunning(true);
+    setRunError(null);
+    setProgress(null);
+    const { promise, cancel } = runOptimizerInWorker(
+      {
+        inputs: {
+          keys: districtOptions.map((d) => d.key),
+          budgets,
+          enrollments: leaEnrollment,
+          anchors,
+          adjacency,
+          params,
+          geo,
+          travel: travelMatrix,
+        },
+        constraints,
+      },
+      setProgress,
+    );
+    cancelRef.current = cancel;
+    promise
+      .then((r) => setResult(r))
+      .catch((e) => setRunError(e instanceof Error ? e.message : String(e)))
+      .finally(() => {
+        cancelRef.current = null;
+        setRunning(false);
+      });
+  };
+
+  const excludable = districtOptions.filter((d) => !constraints.excludedKeys.includes(d.key));
+
+  return (
+    <div
+      style={{
+        background: '#fafafa',
+        border: '1px solid #e0e0e0',
+        padding: 14,
+        borderRadius: 8,
+        marginBottom: 16,
+      }}
+    >
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 0,
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 700,
+          fontSize: 15,
+          color: '#333',
+        }}
+      >
+        <span>Statewide optimizer</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+
+      {open && (
+        <div style={{ fontSize: 12, marginTop: 10 }}>
+          <div style={{ color: '#666', marginBottom: 8 }}>
+            Greedily merges districts to maximize the component model's net impact, using the sandbox parameters.
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', marginBottom: 6 }}>
+            <label style={{ fontSize: 11 }}>
+              Max combined enrollment
+              <input
+                type="number"
+                min={0}
+                step={500}
+                value={constraints.maxCombinedEnrollment}
+                onChange={(e) => setConstraints((c) => ({ ...c, maxCombinedEnrollment: Math.max(0, Number(e.target.value)) }))}
+                style={inputStyle}
+              />
+            </label>
+            <label style={{ fontSize: 11 }}>
+              Max miles to hub
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={constraints.maxHubMiles}
+                onChange={(e) => setConstraints((c) => ({ ...c, maxHubMiles: Math.max(0, Number(e.target.value)) }))}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+          <label style={{ display: 'block', marginBottom: 4 }}>
+            <input
+              type="checkbox"
+              checked={constraints.requireContiguity}
+              onChange={(e) => setConstraints((c) => ({ ...c, requireContiguity: e.target.checked }))}
+            />{' '}
+            Only merge districts that share a land border
+          </label>
+          <label style={{ display: 'block', marginBottom: 6 }}>
+            <input
+              type="checkbox"
+              checked={constraints.keepRegionalIntact}
+              onChange={(e) => setConstraints((c) => ({ ...c, keepRegionalIntact: e.target.checked }))}
+            />{' '}
+            Keep regional districts intact
+          </label>
+
+          <div style={{ marginBottom: 8 }}>
+            <select
+              value=""
+              onChange={(e) => {
+                const key = e.target.value;
+                if (key) setConstraints((c) => ({ ...c, excludedKeys: [...c.excludedKeys, key] }));
+              }}
+              style={{ ...inputStyle, marginTop: 0 }}
+            >
+              <option value="">Exclude a district…</option>
+              {excludable.map((d) => <option key={d.key} value={d.key}>{d.name}</option>)}
+            </select>
+            {constraints.excludedKeys.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 4 }}>
+                {constraints.excludedKeys.map((k) => (
+                  <span
+                    key={k}
+                    onClick={() => setConstraints((c) => ({ ...c, excludedKeys: c.excludedKeys.filter((x) => x !== k) }))}
+                    title="Remove exclusion"
+                    style={{ background: '#ffebee', color: '#c62828', borderRadius: 10, padding: '1px 8px', cursor: 'pointer', fontSize: 11 }}
+                  >
+                    {districtOptions.find((d) => d.key === k)?.name ?? k} ✕
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+            <button
+              onClick={() => (running ? cancelRef.current?.() : run())}
+              disabled={!ready}
+              style={{
+                flex: 1,
+                padding: '6px 8px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 6,
+                background: !ready ? '#f5f5f5' : running ? '#fff3e0' : '#e8f5e9',
+                color: !ready ? '#999' : running ? '#e65100' : '#2e7d32',
+                cursor: ready ? 'pointer' : 'default',
+                fontWeight: 500,
+              }}
+            >
+              {running ? 'Cancel' : 'Run optimizer'}
+            </button>
+            <button
+              onClick={() => setResult(null)}
+              disabled={!result}
+              style={{
+                padding: '6px 10px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 6,
+                background: !result ? '#f5f5f5' : '#fff',
+                color: !result ? '#999' : '#c62828',
+                cursor: result ? 'pointer' : 'default',
+                fontWeight: 500,
+              }}
+            >
+              Clear map
+            </button>
+          </div>
+
+          {running && (
+            <div style={{ color: '#888', marginBottom: 6 }}>
+              {progress
+                ? `${progress.merges} merges · ${progress.evaluations} groupings evaluated · ${signed$(progress.totalNetImpact)}`
+                : 'Starting…'}
+            </div>
+          )}
+          {runError && !running && <div style={{ color: '#c62828', marginBottom: 6 }}>{runError}</div>}
+
+          {result && (
+            <div>
+              <div style={{ marginBottom: 6 }}>
+                <strong>{result.groups.length} groups, net impact:</strong>{' '}
+                <span style={{ color: result.totalNetImpact >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(result.totalNetImpact)}</span>
+                <div style={{ fontSize: 11, color: '#888' }}>
+                  {result.evaluations} groupings evaluated
+                  {result.excluded.length > 0 && ` · excluded: ${result.excluded.join(', ')}`}
+                  {result.skipped.length > 0 && ` · missing data: ${result.skipped.join(', ')}`}
+                </div>
+              </div>
+              {result.groups.map((g, i) => (
+                <div key={g.keys.join('|')} style={{ padding: '5px 0', borderTop: '1px solid #eee' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <span style={{ width: 10, height: 10, borderRadius: 2, background: groupColor(i), flexShrink: 0 }} />
+                    <span style={{ flex: 1 }}>{g.names.join(' + ')}</span>
+                    <span style={{ color: g.netImpact >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(g.netImpact)}</span>
+                  </div>
+                  <div style={{ fontSize: 11, color: '#888', marginLeft: 16 }}>
+                    Hub {g.hubName} · {g.combinedEnrollment.toLocaleString()} students · up to {g.maxHubMiles.toFixed(1)} mi{' '}
+                    <button
+                      onClick={() => onLoadGroup(g.keys)}
+                      style={{ background: 'none', border: 'none', color: '#1565c0', cursor: 'pointer', fontSize: 11, padding: 0 }}
+                    >
+                      Open in sandbox
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { PEER_FEATURES, PEER_MAX_COUNT, type PeerParams, type PeerResult } from '../lib/peers';
+
+interface PeerDistrictsPanelProps {
+  result: PeerResult | null;
+  /** Open state lives in App so the peers are only highlighted on the map while shown. */
+  open: boolean;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  params: PeerParams;
+  setParams: Dispatch<SetStateAction<PeerParams>>;
+  nameOf: (key: string) => string;
+  /** The selected district's own figures, for the benchmark line. */
+  adminShare: number | null;
+  perPupil: number | null;
+}
+
+const pct = (v: number | null) => (v != null ? `${(v * 100).toFixed(1)}%` : '—');
+const money = (v: number | null) => (v != null ? `$${Math.round(v).toLocaleString()}` : '—');
+
+export default function PeerDistrictsPanel({
+  result,
+  open,
+  setOpen,
+  params,
+  setParams,
+  nameOf,
+  adminShare,
+  perPupil,
+}: PeerDistrictsPanelProps) {
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #bbdefb' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>Peer districts</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && (
+        <div style={{ fontSize: 12 }}>
+          {!result ? (
+            <div style={{ color: '#777', marginBottom: 6 }}>No enrollment data for this district.</div>
+          ) : result.peers.length === 0 ? (
+            <div style={{ color: '#777', marginBottom: 6 }}>Give at least one metric a weight above zero.</div>
+          ) : (
+            <>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+                <thead>
+                  <tr style={{ color: '#666', textAlign: 'right' }}>
+                    <th style={{ textAlign: 'left', fontWeight: 500 }}>District</th>
+                    <th style={{ fontWeight: 500 }} title="Weighted distance in standard deviations; lower is more similar">Dist.</th>
+                    <th style={{ fontWeight: 500 }}>Students</th>
+                    <th style={{ fontWeight: 500 }}>Per pupil</th>
+                    <th style={{ fontWeight: 500 }}>Admin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.peers.map((p) => (
+                    <tr key={p.key} style={{ borderTop: '1px solid #e3eaf2', textAlign: 'right' }}>
+                      <td style={{ textAlign: 'left' }}>{nameOf(p.key)}</td>
+                      <td>{p.distance.toFixed(2)}</td>
+                      <td>{p.enrollment != null ? p.enrollment.toLocaleString() : '—'}</td>
+                      <td>{money(p.perPupil)}</td>
+                      <td>{pct(p.adminShare)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div style={{ marginTop: 6, color: '#333' }}>
+                Peer median admin share: <strong>{pct(result.peerMedianAdminShare)}</strong>
+                <span style={{ color: '#777' }}> (this district {pct(adminShare)})</span>
+              </div>
+              <div style={{ color: '#333' }}>
+                Peer median per pupil: <strong>{money(result.peerMedianPerPupil)}</strong>
+                <span style={{ color: '#777' }}> (this district {money(perPupil)})</span>
+              </div>
+            </>
+          )}
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', margin: '8px 0 4px' }}>
+            <label style={{ fontSize: 11, gridColumn: '1 / -1' }}>
+              Peers: {params.count}
+              <input
+                type="range"
+                min={1}
+                max={PEER_MAX_COUNT}
+                step={1}
+                value={params.count}
+                onChange={(e) => setParams((p) => ({ ...p, count: Number(e.target.value) }))}
+                style={{ width: '100%' }}
+              />
+            </label>
+            {PEER_FEATURES.map((f) => (
+              <label key={f.id} style={{ fontSize: 11 }}>
+                {f.label}: {params.weights[f.id]}
+                <input
+                  type="range"
+                  min={0}
+                  max={3}
+                  step={0.5}
+                  value={params.weights[f.id]}
+                  onChange={(e) =>
+                    setParams((p) => ({ ...p, weights: { ...p.weights, [f.id]: Number(e.target.value) } }))
+                  }
+                  style={{ width: '100%' }}
+                />
+              </label>
+            ))}
+          </div>
+          <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+            Distance is a weighted RMS of z-scores across all districts (enrollment on a log scale). Admin share starts
+            at weight 0 so the peer median is an independent benchmark. Peers are outlined in orange on the map.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react';
+import type { ConsolidationResultV1 } from '../lib/consolidationV1';
+import {
+  computeProjection,
+  DEFAULT_PROJECTION_PARAMS,
+  PROJECTION_MAX_YEARS,
+  PROJECTION_MIN_YEARS,
+  type ProjectionParams,
+  type ProjectionYear,
+} from '../lib/projection';
+
+interface ProjectionPanelProps {
+  result: ConsolidationResultV1;
+  /** Steady-state salary harmonization cost from the component model, if available. */
+  salaryHarmonizationCost: number;
+  /** Cohort-survival forecast of combined enrollment for years 0..N. */
+  enrollmentPath?: number[] | null;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+const compact$ = (n: number) => {
+  const abs = Math.abs(n);
+  const s = abs >= 1e6 ? `$${(abs / 1e6).toFixed(1)}M` : abs >= 1e3 ? `$${Math.round(abs / 1e3)}k` : `$${Math.round(abs)}`;
+  return n < 0 ? `-${s}` : s;
+};
+const yearsText = (y: number | null, horizon: number) =>
+  y == null ? `not within ${horizon} years` : y === 0 ? 'immediately' : `${y.toFixed(1)} years`;
+
+const inputStyle = { width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 };
+
+const WIDTH = 300;
+const HEIGHT = 130;
+const PAD_X = 34;
+const PAD_Y = 12;
+
+function TimelineChart({ years }: { years: ProjectionYear[] }) {
+  const values = years.flatMap((y) => [y.net, y.cumulativeNet]).concat(0);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const y = (v: number) => PAD_Y + ((max - v) / span) * (HEIGHT - 2 * PAD_Y);
+  const slot = (WIDTH - PAD_X - 4) / years.length;
+  const cx = (i: number) => PAD_X + slot * i + slot / 2;
+  const line = years.map((yr, i) => `${cx(i)},${y(yr.cumulativeNet)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 12}`} style={{ width: '100%', height: 'auto', display: 'block' }}>
+      <line x1={PAD_X} x2={WIDTH - 4} y1={y(0)} y2={y(0)} stroke="#999" strokeWidth={1} />
+      <text x={PAD_X - 3} y={y(max) + 3} fontSize={8} textAnchor="end" fill="#555">{compact$(max)}</text>
+      <text x={PAD_X - 3} y={y(min) + 3} fontSize={8} textAnchor="end" fill="#555">{compact$(min)}</text>
+      {years.map((yr, i) => (
+        <g key={yr.year}>
+          <rect
+            x={cx(i) - slot * 0.3}
+            y={Math.min(y(yr.net), y(0))}
+            width={slot * 0.6}
+            height={Math.abs(y(yr.net) - y(0))}
+            fill={yr.net >= 0 ? '#a5d6a7' : '#ef9a9a'}
+          >
+            <title>{`Year ${yr.year}: ${signed$(yr.net)} (cumulative ${signed$(yr.cumulativeNet)})`}</title>
+          </rect>
+          <text x={cx(i)} y={HEIGHT + 8} fontSize={8} textAnchor="middle" fill="#555">{yr.year}</text>
+        </g>
+      ))}
+      <polyline points={line} fill="none" stroke="#1565c0" strokeWidth={1.5} />
+      {years.map((yr, i) => (
+        <circle key={yr.year} cx={cx(i)} cy={y(yr.cumulativeNet)} r={2} fill="#1565c0" />
+      ))}
+    </svg>
+  );
+}
+
+export default function ProjectionPanel({ result, salaryHarmonizationCost, enrollmentPath }: ProjectionPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [params, setParams] = useState<ProjectionParams>(DEFAULT_PROJECTION_PARAMS);
+  const [useForecast, setUseForecast] = useState(true);
+  const forecastActive = useForecast && !!enrollmentPath;
+
+  const projection = useMemo(
+    () =>
+      open ? computeProjection(result, salaryHarmonizationCost, params, forecastActive ? enrollmentPath : null) : null,
+    [open, result, salaryHarmonizationCost, params, forecastActive, enrollmentPath],
+  );
+
+  const numberInput = (
+    label: string,
+    field: keyof ProjectionParams,
+    opts: { min: number; max?: number; step: number; scale?: number; disabled?: boolean },
+  ) => {
+    const scale = opts.scale ?? 1;
+    return (
+      <label style={{ fontSize: 11 }}>
+        {label}
+        <input
+          type="number"
+          min={opts.min}
+          max={opts.max}
+          step={opts.step}
+          disabled={opts.disabled}
+          value={Math.round(params[field] * scale * 100) / 100}
+          onChange={(e) => {
+            const v = Number(e.target.value);
+            if (Number.isFinite(v)) setParams((p) => ({ ...p, [field]: v / scale }));
+          }}
+          style={inputStyle}
+        />
+      </label>
+    );
+  };
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #e0e0e0' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>Multi-year projection</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && projection && (
+        <div style={{ fontSize: 12 }}>
+          <div style={{ marginBottom: 8 }}>
+            <label style={{ display: 'block', fontSize: 11 }}>
+              Horizon: {params.years} years
+              <input
+                type="range"
+                min={PROJECTION_MIN_YEARS}
+                max={PROJECTION_MAX_YEARS}
+                step={1}
+                value={params.years}
+                onChange={(e) => setParams((p) => ({ ...p, years: Number(e.target.value) }))}
+                style={{ width: '100%' }}
+              />
+            </label>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px' }}>
+              {numberInput('Discount rate (%)', 'discountRate', { min: 0, max: 20, step: 0.5, scale: 100 })}
+              {numberInput('Enrollment trend (%/yr)', 'enrollmentTrend', { min: -10, max: 10, step: 0.5, scale: 100, disabled: forecastActive })}
+              {numberInput('Contract buyouts (% spoke admin)', 'buyoutShareOfSpokeAdmin', { min: 0, max: 200, step: 10, scale: 100 })}
+              {numberInput('IT unification ($/student)', 'itUnificationPerStudent', { min: 0, step: 10 })}
+              {numberInput('Rebranding ($/district)', 'rebrandingPerSpoke', { min: 0, step: 5000 })}
+              {numberInput('Admin phase-in (years)', 'adminPhaseInYears', { min: 1, max: 10, step: 1 })}
+              {numberInput('Salary leveling (years)', 'salaryRampYears', { min: 1, max: 10, step: 1 })}
+            </div>
+            {enrollmentPath && (
+              <label style={{ display: 'block', fontSize: 11, marginTop: 4 }}>
+                <input type="checkbox" checked={useForecast} onChange={(e) => setUseForecast(e.target.checked)} />{' '}
+                Use cohort-survival enrollment forecast
+              </label>
+            )}
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '2px 8px', marginBottom: 6 }}>
+            <span>NPV ({(params.discountRate * 100).toFixed(1)}%):</span>
+            <strong style={{ color: projection.npv >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(projection.npv)}</strong>
+            <span>Payback:</span>
+            <strong>{yearsText(projection.paybackYears, params.years)}</strong>
+            <span>Discounted payback:</span>
+            <span>{yearsText(projection.discountedPaybackYears, params.years)}</span>
+            <span>One-time costs:</span>
+            <span>{$(projection.totalOneTimeCosts)}</span>
+            <span>Steady-state net/yr:</span>
+            <span>{signed$(projection.steadyStateNet)}</span>
+          </div>
+
+          <TimelineChart years={projection.years} />
+          <div style={{ display: 'flex', gap: 10, fontSize: 11, color: '#555', margin: '2px 0 6px' }}>
+            <span><span style={{ display: 'inline-block', width: 8, height: 8, background: '#a5d6a7', marginRight: 3 }} />annual net</span>
+            <span><span style={{ display: 'inline-block', width: 10, height: 2, background: '#1565c0', marginRight: 3, verticalAlign: 'middle' }} />cumulative</span>
+          </div>
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+            <thead>
+              <tr style={{ color: '#666', textAlign: 'right' }}>
+                <th style={{ textAlign: 'left', fontWeight: 500 }}>Yr</th>
+                <th style={{ fontWeight: 500 }}>Admin</th>
+                <th style={{ fontWeight: 500 }}>Transport</th>
+                <th style={{ fontWeight: 500 }}>Salary</th>
+                <th style={{ fontWeight: 500 }}>One-time</th>
+                <th style={{ fontWeight: 500 }}>Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.years.map((yr) => (
+                <tr key={yr.year} style={{ borderTop: '1px solid #eee', textAlign: 'right' }}>
+                  <td style={{ textAlign: 'left' }}>{yr.year}</td>
+                  <td>{compact$(yr.adminSavings)}</td>
+                  <td>{compact$(-yr.transportation)}</td>
+                  <td>{compact$(-yr.salaryHarmonization)}</td>
+                  <td>{yr.oneTimeCosts > 0 ? compact$(-yr.oneTimeCosts) : '—'}</td>
+                  <td style={{ color: yr.net >= 0 ? '#2e7d32' : '#c62828' }}>{compact$(yr.net)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ fontSize: 11, color: '#888', marginTop: 6 }}>
+            {projection.assumptions.map((a, i) => (
+              <div key={i}>· {a}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import type { SandboxScenario } from '../types';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap } from '../lib/enrollment';
+import type { DistrictAnchorsMap } from '../lib/anchors';
+import type { TravelMatrix } from '../lib/geoDistance';
+import type { ConsolidationParamsV1, ConsolidationResultV1 } from '../lib/consolidationV1';
+import { compareSandboxScenarios } from '../lib/sandboxScenarios';
+
+interface SandboxComparisonProps {
+  scenarios: SandboxScenario[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  params: ConsolidationParamsV1;
+  travel: TravelMatrix | null;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+
+const METRICS: { label: string; value: (r: ConsolidationResultV1) => string; net?: (r: ConsolidationResultV1) => number }[] = [
+  { label: 'Hub', value: (r) => r.hubName },
+  { label: 'Combined enrollment', value: (r) => r.combinedEnrollment.toLocaleString() },
+  { label: 'Admin savings', value: (r) => $(r.adminSavings) },
+  { label: 'Transport increase', value: (r) => $(r.transportationIncrease) },
+  { label: 'Net impact', value: (r) => signed$(r.netImpact), net: (r) => r.netImpact },
+  { label: 'Projected per pupil', value: (r) => $(r.projectedPerPupil) },
+];
+
+export default function SandboxComparison({
+  scenarios,
+  activeId,
+  onSelect,
+  budgets,
+  enrollments,
+  anchors,
+  params,
+  travel,
+}: SandboxComparisonProps) {
+  const rows = useMemo(
+    () => compareSandboxScenarios(scenarios, budgets, enrollments, anchors, params, travel),
+    [scenarios, budgets, enrollments, anchors, params, travel],
+  );
+  const best = rows.reduce<string | null>((bestId, r) => {
+    if (!r.result?.ok) return bestId;
+    const current = rows.find((x) => x.scenario.id === bestId)?.result;
+    return !current || r.result.netImpact > current.netImpact ? r.scenario.id : bestId;
+  }, null);
+
+  return (
+    <div style={{ marginBottom: 12, overflowX: 'auto' }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4, color: '#555' }}>Scenario comparison</div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+        <thead>
+          <tr>
+            <th />
+            {rows.map((r) => (
+              <th
+                key={r.scenario.id}
+                onClick={() => onSelect(r.scenario.id)}
+                style={{
+                  textAlign: 'right',
+                  fontWeight: r.scenario.id === activeId ? 700 : 500,
+                  color: '#333',
+                  cursor: 'pointer',
+                  borderBottom: `3px solid ${r.color}`,
+                  padding: '2px 4px',
+                }}
+              >
+                {r.scenario.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {METRICS.map((m) => (
+            <tr key={m.label} style={{ borderTop: '1px solid #eee' }}>
+              <td style={{ color: '#666', padding: '2px 4px 2px 0' }}>{m.label}</td>
+              {rows.map((r) => (
+                <td
+                  key={r.scenario.id}
+                  style={{
+                    textAlign: 'right',
+                    padding: '2px 4px',
+                    color: m.net && r.result?.ok ? (m.net(r.result) >= 0 ? '#2e7d32' : '#c62828') : undefined,
+                    fontWeight: m.net && r.scenario.id === best ? 700 : undefined,
+                  }}
+                >
+                  {r.result?.ok ? m.value(r.result) : '—'}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.some((r) => !r.result?.ok) && (
+        <div style={{ fontSize: 11, color: '#888', marginTop: 2 }}>
+          — needs at least 2 districts with budget, enrollment and anchor data.
+        </div>
+      )}
+    </div>
+  );
+}
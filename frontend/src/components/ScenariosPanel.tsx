@@ -0,0 +1,298 @@
+import { Fragment, useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import type { ConsolidationParamsV2 } from '../lib/consolidationV2';
+import {
+  deleteLocalScenario,
+  deleteSharedScenario,
+  diffScenarios,
+  fetchSharedScenarios,
+  formatDiffValue,
+  loadLocalScenarios,
+  saveLocalScenario,
+  shareScenario,
+  type SavedScenario,
+  type ScenarioDiffData,
+  type ScenarioDraft,
+} from '../lib/scenarios';
+
+interface ScenariosPanelProps {
+  keys: string[];
+  params: ConsolidationParamsV2;
+  closedSchoolIds: string[];
+  enrollmentYear: number | null;
+  setKeys: Dispatch<SetStateAction<string[]>>;
+  setParams: Dispatch<SetStateAction<ConsolidationParamsV2>>;
+  setClosedSchoolIds: Dispatch<SetStateAction<string[]>>;
+  /** Data to recompute results for the diff; null while loading. */
+  diffData: ScenarioDiffData | null;
+  nameOf: (key: string) => string;
+}
+
+const CURRENT_ID = 'current';
+
+const inputStyle = { width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 };
+const smallButton = {
+  padding: '1px 6px',
+  fontSize: 11,
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  background: '#fff',
+  cursor: 'pointer',
+};
+
+const formatDelta = (delta: number, kind: 'money' | 'count' | 'percent' | 'text') =>
+  `${delta > 0 ? '+' : ''}${formatDiffValue(delta, kind)}`;
+
+export default function ScenariosPanel({
+  keys,
+  params,
+  closedSchoolIds,
+  enrollmentYear,
+  setKeys,
+  setParams,
+  setClosedSchoolIds,
+  diffData,
+  nameOf,
+}: ScenariosPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [local, setLocal] = useState<SavedScenario[]>(() => loadLocalScenarios());
+  const [shared, setShared] = useState<SavedScenario[] | null>(null);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [diffA, setDiffA] = useState('');
+  const [diffB, setDiffB] = useState(CURRENT_ID);
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const refreshShared = () => {
+    fetchSharedScenarios()
+      .then((list) => {
+        setShared(list);
+        setSharedError(null);
+      })
+      .catch((e) => setSharedError(e instanceof Error ? e.message : String(e)));
+  };
+
+  useEffect(() => {
+    if (open && shared === null) refreshShared();
+  }, [open, shared]);
+
+  const draft = (): ScenarioDraft => ({
+    name: name.trim(),
+    districtKeys: keys,
+    params,
+    ...(closedSchoolIds.length > 0 ? { closedSchoolIds } : {}),
+    enrollmentYear,
+  });
+
+  const saveLocal = () => {
+    if (!name.trim()) return;
+    setLocal(saveLocalScenario(draft()));
+    setStatus(`Saved “${name.trim()}” in this browser.`);
+  };
+
+  const share = () => {
+    if (!name.trim()) return;
+    shareScenario(draft())
+      .then((s) => {
+        setShared((prev) => [s, ...(prev ?? [])]);
+        setStatus(`Shared “${s.name}” with the team.`);
+      })
+      .catch((e) => setStatus(`Could not share: ${e instanceof Error ? e.message : String(e)}`));
+  };
+
+  const load = (s: SavedScenario) => {
+    setKeys(s.districtKeys);
+    setParams(s.params);
+    setClosedSchoolIds(s.closedSchoolIds ?? []);
+    setName(s.name);
+    setStatus(
+      s.enrollmentYear != null && enrollmentYear != null && s.enrollmentYear !== enrollmentYear
+        ? `Loaded “${s.name}” (saved against Oct ${s.enrollmentYear} enrollment; showing Oct ${enrollmentYear}).`
+        : `Loaded “${s.name}”.`,
+    );
+  };
+
+  const removeShared = (s: SavedScenario) => {
+    if (!window.confirm(`Delete shared scenario “${s.name}” for everyone?`)) return;
+    deleteSharedScenario(s.id)
+      .then(() => setShared((prev) => prev?.filter((x) => x.id !== s.id) ?? null))
+      .catch((e) => setStatus(`Could not delete: ${e instanceof Error ? e.message : String(e)}`));
+  };
+
+  const current = useMemo(
+    (): SavedScenario => ({
+      id: CURRENT_ID,
+      name: 'Current sandbox',
+      districtKeys: keys,
+      params,
+      closedSchoolIds,
+      enrollmentYear,
+      createdAt: '',
+      updatedAt: '',
+    }),
+    [keys, params, closedSchoolIds, enrollmentYear],
+  );
+  const choices = useMemo(() => [current, ...local, ...(shared ?? [])], [current, local, shared]);
+
+  const diff = useMemo(() => {
+    const a = choices.find((s) => s.id === diffA);
+    const b = choices.find((s) => s.id === diffB);
+    if (!open || !a || !b || !diffData) return null;
+    return diffScenarios(a, b, diffData, nameOf);
+  }, [open, choices, diffA, diffB, diffData, nameOf]);
+
+  const row = (s: SavedScenario, isShared: boolean) => (
+    <div key={s.id} style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '3px 0', borderTop: '1px solid #eee' }}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={s.name}>
+          {s.name}
+        </div>
+        <div style={{ fontSize: 10, color: '#888' }}>
+          {s.districtKeys.length} districts
+          {s.closedSchoolIds?.length ? ` · ${s.closedSchoolIds.length} closed schools` : ''}
+          {' · '}
+          {new Date(s.updatedAt).toLocaleDateString()}
+          {s.author ? ` · ${s.author}` : ''}
+        </div>
+      </div>
+      <button onClick={() => load(s)} style={smallButton}>Load</button>
+      <button
+        onClick={() => (isShared ? removeShared(s) : setLocal(deleteLocalScenario(s.id)))}
+        title="Delete"
+        style={{ ...smallButton, color: '#c62828' }}
+      >
+        ×
+      </button>
+    </div>
+  );
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #e0e0e0' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>Saved scenarios</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && (
+        <div style={{ fontSize: 12 }}>
+          <div style={{ display: 'flex', gap: 4, marginBottom: 4 }}>
+            <input
+              type="text"
+              placeholder="Scenario name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              style={{ ...inputStyle, marginTop: 0, flex: 1 }}
+            />
+            <button onClick={saveLocal} disabled={!name.trim()} style={smallButton}>Save</button>
+            <button onClick={share} disabled={!name.trim()} style={smallButton} title="Save on the server for the team">
+              Share
+            </button>
+          </div>
+          {status && <div style={{ fontSize: 11, color: '#555', marginBottom: 4 }}>{status}</div>}
+
+          <div style={{ fontWeight: 600, fontSize: 11, color: '#555', marginTop: 6 }}>In this browser</div>
+          {local.length === 0 ? (
+            <div style={{ fontSize: 11, color: '#999' }}>None yet.</div>
+          ) : (
+            local.map((s) => row(s, false))
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 600, fontSize: 11, color: '#555', marginTop: 6 }}>
+            <span>Shared with the team</span>
+            <button onClick={refreshShared} style={{ ...smallButton, border: 'none', color: '#1565c0' }}>Refresh</button>
+          </div>
+          {sharedError ? (
+            <div style={{ fontSize: 11, color: '#c62828' }}>{sharedError}</div>
+          ) : shared === null ? (
+            <div style={{ fontSize: 11, color: '#999' }}>Loading…</div>
+          ) : shared.length === 0 ? (
+            <div style={{ fontSize: 11, color: '#999' }}>None yet.</div>
+          ) : (
+            shared.map((s) => row(s, true))
+          )}
+
+          <div style={{ fontWeight: 600, fontSize: 11, color: '#555', marginTop: 10 }}>Compare</div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px' }}>
+            {([['A', diffA, setDiffA], ['B', diffB, setDiffB]] as const).map(([label, value, set]) => (
+              <label key={label} style={{ fontSize: 11 }}>
+                {label}
+                <select value={value} onChange={(e) => set(e.target.value)} style={inputStyle}>
+                  <option value="">Pick a scenario…</option>
+                  {choices.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                      {shared?.includes(s) ? ' (shared)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {diff && (
+            <>
+              <label style={{ display: 'block', fontSize: 11, margin: '4px 0' }}>
+                <input type="checkbox" checked={changedOnly} onChange={(e) => setChangedOnly(e.target.checked)} /> Only
+                show differences
+              </label>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11 }}>
+                <thead>
+                  <tr style={{ color: '#666', textAlign: 'right' }}>
+                    <th style={{ textAlign: 'left', fontWeight: 500 }}></th>
+                    <th style={{ fontWeight: 500 }}>A</th>
+                    <th style={{ fontWeight: 500 }}>B</th>
+                    <th style={{ fontWeight: 500 }}>B − A</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff
+                    .filter((l) => !changedOnly || l.changed || l.section === 'Results')
+                    .map((l, i, shown) => (
+                      <Fragment key={`${l.section}-${l.label}`}>
+                        {(i === 0 || shown[i - 1].section !== l.section) && (
+                          <tr>
+                            <td colSpan={4} style={{ fontWeight: 600, color: '#555', paddingTop: 4 }}>{l.section}</td>
+                          </tr>
+                        )}
+                        <tr
+                          style={{ borderTop: '1px solid #eee', textAlign: 'right', background: l.changed ? '#fffde7' : undefined }}
+                        >
+                          <td style={{ textAlign: 'left' }}>{l.label}</td>
+                          <td style={{ wordBreak: 'break-word' }}>{l.a}</td>
+                          <td style={{ wordBreak: 'break-word' }}>{l.b}</td>
+                          <td>{l.delta != null && l.changed ? formatDelta(l.delta, l.kind) : ''}</td>
+                        </tr>
+                      </Fragment>
+                    ))}
+                </tbody>
+              </table>
+            </>
+          )}
+          {!diffData && <div style={{ fontSize: 11, color: '#999' }}>Loading data for comparison…</div>}
+        </div>
+      )}
+    </div>
+  );
+}
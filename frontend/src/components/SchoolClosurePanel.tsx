@@ -0,0 +1,322 @@
+import { useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import Fuse from 'fuse.js';
+import type { GeoJSONFC, SchoolFeature } from '../types';
+import type { BudgetsMap } from '../lib/budgets';
+import type { SchoolEnrollmentMap } from '../lib/enrollment';
+import type { TravelMatrix } from '../lib/geoDistance';
+import type { SchoolCapacityMap } from '../lib/capacity';
+import { computeSchoolClosure, DEFAULT_CLOSURE_PARAMS, type ClosureParams } from '../lib/schoolClosure';
+
+interface SchoolClosurePanelProps {
+  allSchools: GeoJSONFC<SchoolFeature> | null;
+  schoolEnrollment: SchoolEnrollmentMap | null;
+  budgets: BudgetsMap | null;
+  schoolCapacity: SchoolCapacityMap | null;
+  travelMatrix: TravelMatrix | null;
+  selectedSchool: SchoolFeature | null;
+  closedSchoolIds: string[];
+  setClosedSchoolIds: Dispatch<SetStateAction<string[]>>;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+const pct = (n: number | null) => (n == null ? '—' : `${Math.round(n * 100)}%`);
+
+const inputStyle = { width: '100%', marginTop: 2, padding: '2px 4px', fontSize: 12, border: '1px solid #ccc', borderRadius: 4 };
+
+export default function SchoolClosurePanel({
+  allSchools,
+  schoolEnrollment,
+  budgets,
+  schoolCapacity,
+  travelMatrix,
+  selectedSchool,
+  closedSchoolIds,
+  setClosedSchoolIds,
+}: SchoolClosurePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [params, setParams] = useState<ClosureParams>(DEFAULT_CLOSURE_PARAMS);
+
+  const publicSchools = useMemo(
+    () => allSchools?.features.filter((s) => s.properties.school_type === 'public') ?? [],
+    [allSchools],
+  );
+  const nameById = useMemo(() => new Map(publicSchools.map((s) => [s.properties.id, s.properties.name])), [publicSchools]);
+  const fuse = useMemo(() => new Fuse(publicSchools, { keys: ['properties.name'], threshold: 0.4 }), [publicSchools]);
+  const searchResults = useMemo(() => {
+    if (!search.trim()) return [];
+    return fuse
+      .search(search.trim())
+      .map((r) => r.item)
+      .filter((s) => !closedSchoolIds.includes(s.properties.id))
+      .slice(0, 8);
+  }, [search, fuse, closedSchoolIds]);
+
+  const result = useMemo(() => {
+    if (!open || !schoolEnrollment || closedSchoolIds.length === 0) return null;
+    return computeSchoolClosure(closedSchoolIds, publicSchools, schoolEnrollment, budgets, schoolCapacity, params, travelMatrix);
+  }, [open, closedSchoolIds, publicSchools, schoolEnrollment, budgets, schoolCapacity, params, travelMatrix]);
+
+  const closeSchool = (id: string) => setClosedSchoolIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+  const reopenSchool = (id: string) => setClosedSchoolIds((prev) => prev.filter((x) => x !== id));
+
+  const selectedClosable =
+    selectedSchool?.properties.school_type === 'public' && !closedSchoolIds.includes(selectedSchool.properties.id);
+
+  const rateInput = (label: string, field: 'schoolManagementSavingsRate' | 'facilitiesSavingsRate') => (
+    <label style={{ fontSize: 11 }}>
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={100}
+        step={5}
+        value={Math.round(params[field] * 100)}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (Number.isFinite(v)) setParams((p) => ({ ...p, [field]: Math.min(1, Math.max(0, v / 100)) }));
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div
+      style={{
+        background: '#fafafa',
+        border: '1px solid #e0e0e0',
+        padding: 14,
+        borderRadius: 8,
+        marginBottom: 16,
+      }}
+    >
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: 0,
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 700,
+          fontSize: 15,
+          color: '#333',
+        }}
+      >
+        <span>School closures{closedSchoolIds.length > 0 ? ` (${closedSchoolIds.length})` : ''}</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+
+      {open && (
+        <div style={{ fontSize: 12, marginTop: 10 }}>
+          <div style={{ color: '#666', marginBottom: 8 }}>
+            Close buildings and send their students, grade by grade, to the nearest open school serving that grade.
+          </div>
+
+          <div style={{ position: 'relative', marginBottom: 6 }}>
+            <input
+              type="text"
+              placeholder="Find a public school to close…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              style={{ ...inputStyle, marginTop: 0, padding: '4px 6px' }}
+            />
+            {searchResults.length > 0 && (
+              <div style={{ border: '1px solid #e0e0e0', borderRadius: 4, background: '#fff', marginTop: 2 }}>
+                {searchResults.map((s) => (
+                  <div
+                    key={s.properties.id}
+                    onClick={() => {
+                      closeSchool(s.properties.id);
+                      setSearch('');
+                    }}
+                    style={{ padding: '4px 6px', cursor: 'pointer', borderBottom: '1px solid #f0f0f0' }}
+                  >
+                    {s.properties.name}
+                    <span style={{ color: '#888', marginLeft: 4 }}>{s.properties.district_name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+            <button
+              onClick={() => selectedSchool && closeSchool(selectedSchool.properties.id)}
+              disabled={!selectedClosable}
+              style={{
+                flex: 1,
+                padding: '4px 8px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 6,
+                background: selectedClosable ? '#ffebee' : '#f5f5f5',
+                color: selectedClosable ? '#c62828' : '#999',
+                cursor: selectedClosable ? 'pointer' : 'default',
+              }}
+            >
+              Close map selection{selectedClosable ? ` (${selectedSchool!.properties.name})` : ''}
+            </button>
+            <button
+              onClick={() => setClosedSchoolIds([])}
+              disabled={closedSchoolIds.length === 0}
+              style={{
+                padding: '4px 10px',
+                fontSize: 12,
+                border: '1px solid #ccc',
+                borderRadius: 6,
+                background: '#fff',
+                color: closedSchoolIds.length === 0 ? '#999' : '#c62828',
+                cursor: closedSchoolIds.length === 0 ? 'default' : 'pointer',
+              }}
+            >
+              Reopen all
+            </button>
+          </div>
+
+          {closedSchoolIds.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 8 }}>
+              {closedSchoolIds.map((id) => (
+                <span
+                  key={id}
+                  style={{ background: '#ffebee', color: '#c62828', borderRadius: 10, padding: '2px 8px', fontSize: 11 }}
+                >
+                  {nameById.get(id) ?? id}
+                  <button
+                    onClick={() => reopenSchool(id)}
+                    title="Reopen"
+                    style={{ marginLeft: 4, border: 'none', background: 'none', color: '#c62828', cursor: 'pointer', padding: 0 }}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', marginBottom: 6 }}>
+            {rateInput('School mgmt saved (%)', 'schoolManagementSavingsRate')}
+            {rateInput('Facilities saved (%)', 'facilitiesSavingsRate')}
+            <label style={{ fontSize: 11 }}>
+              Cost per student-mile ($)
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={params.costPerStudentMile}
+                onChange={(e) => setParams((p) => ({ ...p, costPerStudentMile: Math.max(0, Number(e.target.value)) }))}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+          <label style={{ display: 'block', marginBottom: 8 }}>
+            <input
+              type="checkbox"
+              checked={params.preferSameDistrict}
+              onChange={(e) => setParams((p) => ({ ...p, preferSameDistrict: e.target.checked }))}
+            />{' '}
+            Keep students in their own district when possible
+          </label>
+
+          {!schoolEnrollment && <div style={{ color: '#999' }}>Loading school enrollment…</div>}
+          {result && !result.ok && <div style={{ color: '#999' }}>{result.reason}</div>}
+          {result?.ok && (
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '2px 8px', marginBottom: 8 }}>
+                <span>Students moved:</span>
+                <strong>{result.studentsMoved.toLocaleString()}</strong>
+                <span>Added travel:</span>
+                <span>
+                  {result.avgAddedMiles.toFixed(1)} mi avg ({result.usedRoadDistances ? 'road' : 'straight-line'})
+                </span>
+                <span>Building savings:</span>
+                <span style={{ color: '#2e7d32' }}>{$(result.totalSavings)}/yr</span>
+                <span>Added transport:</span>
+                <span style={{ color: '#c62828' }}>{$(result.transportCost)}/yr</span>
+                <span>Net:</span>
+                <strong style={{ color: result.net >= 0 ? '#2e7d32' : '#c62828' }}>{signed$(result.net)}/yr</strong>
+              </div>
+
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11, marginBottom: 8 }}>
+                <thead>
+                  <tr style={{ color: '#666', textAlign: 'right' }}>
+                    <th style={{ textAlign: 'left', fontWeight: 500 }}>School</th>
+                    <th style={{ fontWeight: 500 }}>Before</th>
+                    <th style={{ fontWeight: 500 }}>After</th>
+                    <th style={{ fontWeight: 500 }}>Util.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.schools.map((r) => (
+                    <tr key={r.id} style={{ borderTop: '1px solid #eee', textAlign: 'right' }}>
+                      <td style={{ textAlign: 'left', color: r.closed ? '#c62828' : undefined }}>
+                        {r.name}
+                        {r.closed && ' (closed)'}
+                      </td>
+                      <td>{r.before.toLocaleString()}</td>
+                      <td>{r.closed ? '—' : r.after.toLocaleString()}</td>
+                      <td style={{ color: (r.utilizationAfter ?? 0) > 1 ? '#c62828' : undefined }}>
+                        {r.closed ? pct(r.utilizationBefore) : `${pct(r.utilizationBefore)} → ${pct(r.utilizationAfter)}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div style={{ marginBottom: 8 }}>
+                {result.assignments.map((a) => (
+                  <div key={`${a.fromId}-${a.toId}`} style={{ fontSize: 11, color: '#555' }}>
+                    {nameById.get(a.fromId)} → {a.toName}: {a.grades.join(', ')} ({a.students.toLocaleString()} students,{' '}
+                    {a.miles.toFixed(1)} mi)
+                  </div>
+                ))}
+              </div>
+
+              {result.savings.map((s) => (
+                <div key={s.key} style={{ fontSize: 11, color: '#555' }}>
+                  {s.name}: school management {$(s.schoolManagement)} · facilities {$(s.facilities)}
+                </div>
+              ))}
+
+              {result.warnings.length > 0 && (
+                <div
+                  style={{
+                    padding: '6px 8px',
+                    marginTop: 6,
+                    background: '#fff3e0',
+                    borderRadius: 4,
+                    fontSize: 11,
+                    color: '#e65100',
+                  }}
+                >
+                  <strong>Warnings:</strong>
+                  {result.warnings.map((w, i) => (
+                    <div key={i}>· {w}</div>
+                  ))}
+                </div>
+              )}
+              {!schoolCapacity && (
+                <div style={{ fontSize: 11, color: '#888', marginTop: 6 }}>
+                  Utilization needs the optional school capacity dataset (npm run build:capacity).
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
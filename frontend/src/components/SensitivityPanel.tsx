@@ -0,0 +1,162 @@
+import { useMemo, useState } from 'react';
+import type { BudgetsMap } from '../lib/budgets';
+import type { LeaEnrollmentMap } from '../lib/enrollment';
+import type { DistrictAnchorsMap } from '../lib/anchors';
+import type { TravelMatrix } from '../lib/geoDistance';
+import type { ConsolidationParamsV1 } from '../lib/consolidationV1';
+import { computeSensitivityV1, type SensitivityRow } from '../lib/sensitivity';
+
+interface SensitivityPanelProps {
+  keys: string[];
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  params: ConsolidationParamsV1;
+  travel: TravelMatrix | null;
+}
+
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+const compact$ = (n: number) => {
+  const abs = Math.abs(n);
+  const s = abs >= 1e6 ? `$${(abs / 1e6).toFixed(1)}M` : abs >= 1e3 ? `$${Math.round(abs / 1e3)}k` : `$${Math.round(abs)}`;
+  return n < 0 ? `-${s}` : s;
+};
+
+const WIDTH = 300;
+const ROW_HEIGHT = 30;
+const TOP = 14;
+const LOW_COLOR = '#90caf9';
+const HIGH_COLOR = '#ffb74d';
+
+function Tornado({ rows, baseNet }: { rows: SensitivityRow[]; baseNet: number }) {
+  const values = rows.flatMap((r) => [r.netAtLow, r.netAtHigh]).concat(baseNet, 0);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const pad = 40;
+  const x = (v: number) => pad + ((v - min) / span) * (WIDTH - 2 * pad);
+  const height = TOP + rows.length * ROW_HEIGHT + 4;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} style={{ width: '100%', height: 'auto', display: 'block' }}>
+      <line x1={x(0)} x2={x(0)} y1={TOP - 4} y2={height} stroke="#c62828" strokeDasharray="3 2" strokeWidth={1} />
+      <text x={x(0)} y={9} fontSize={8} textAnchor="middle" fill="#c62828">break-even</text>
+      {rows.map((r, i) => {
+        const y = TOP + i * ROW_HEIGHT;
+        const barY = y + 10;
+        return (
+          <g key={r.field}>
+            <text x={WIDTH / 2} y={y + 7} fontSize={9} textAnchor="middle" fill="#333">{r.label}</text>
+            <rect
+              x={Math.min(x(r.netAtLow), x(baseNet))}
+              y={barY}
+              width={Math.abs(x(r.netAtLow) - x(baseNet))}
+              height={12}
+              fill={LOW_COLOR}
+            >
+              <title>{`${r.label} at ${r.format(r.low)}: ${signed$(r.netAtLow)}`}</title>
+            </rect>
+            <rect
+              x={Math.min(x(r.netAtHigh), x(baseNet))}
+              y={barY}
+              width={Math.abs(x(r.netAtHigh) - x(baseNet))}
+              height={12}
+              fill={HIGH_COLOR}
+            >
+              <title>{`${r.label} at ${r.format(r.high)}: ${signed$(r.netAtHigh)}`}</title>
+            </rect>
+            <text
+              x={x(Math.min(r.netAtLow, r.netAtHigh)) - 2}
+              y={barY + 9}
+              fontSize={8}
+              textAnchor="end"
+              fill="#555"
+            >
+              {compact$(Math.min(r.netAtLow, r.netAtHigh))}
+            </text>
+            <text
+              x={x(Math.max(r.netAtLow, r.netAtHigh)) + 2}
+              y={barY + 9}
+              fontSize={8}
+              fill="#555"
+            >
+              {compact$(Math.max(r.netAtLow, r.netAtHigh))}
+            </text>
+          </g>
+        );
+      })}
+      <line x1={x(baseNet)} x2={x(baseNet)} y1={TOP + 6} y2={height} stroke="#333" strokeWidth={1} />
+    </svg>
+  );
+}
+
+export default function SensitivityPanel({ keys, budgets, enrollments, anchors, params, travel }: SensitivityPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const result = useMemo(
+    () => (open ? computeSensitivityV1(keys, budgets, enrollments, anchors, params, travel) : null),
+    [open, keys, budgets, enrollments, anchors, params, travel],
+  );
+
+  return (
+    <div style={{ marginTop: 8, borderTop: '1px solid #e0e0e0' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '8px 0',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: 13,
+          color: '#333',
+        }}
+      >
+        <span>Sensitivity</span>
+        <span
+          style={{
+            fontSize: 12,
+            color: '#999',
+            transition: 'transform 0.2s',
+            transform: open ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          ▼
+        </span>
+      </button>
+      {open && result && (
+        <div style={{ fontSize: 12 }}>
+          <Tornado rows={result.rows} baseNet={result.baseNet} />
+          <div style={{ display: 'flex', gap: 10, fontSize: 11, color: '#555', margin: '2px 0 6px' }}>
+            <span><span style={{ display: 'inline-block', width: 8, height: 8, background: LOW_COLOR, marginRight: 3 }} />low end</span>
+            <span><span style={{ display: 'inline-block', width: 8, height: 8, background: HIGH_COLOR, marginRight: 3 }} />high end</span>
+            <span>│ current {signed$(result.baseNet)}</span>
+          </div>
+          {result.rows.map((r) => (
+            <div key={r.field} style={{ padding: '4px 0', borderTop: '1px solid #eee', fontSize: 11 }}>
+              <div>
+                <strong>{r.label}</strong> (now {r.format(r.base)}): {r.format(r.low)} → {signed$(r.netAtLow)},{' '}
+                {r.format(r.high)} → {signed$(r.netAtHigh)}
+              </div>
+              <div style={{ color: '#555' }}>
+                {r.swing === 0
+                  ? 'No effect with the other parameters at their current values'
+                  : r.breakEven == null
+                    ? `Never breaks even (${r.netAtLow >= 0 ? 'always saves' : 'always costs'})`
+                    : `Break-even at ${r.format(r.breakEven)}; saves money ${r.savesAbove ? 'above' : 'below'} that`}
+              </div>
+            </div>
+          ))}
+          <div style={{ fontSize: 11, color: '#888', marginTop: 4 }}>
+            One parameter varied at a time; the others stay at their current values.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,69 @@
-import { useMemo, useState, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import { useCallback, useMemo, useState, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
 import Fuse from 'fuse.js';
-import type { GeoJSONFC, SchoolFeature, DistrictFeature } from '../types';
+import type { GeoJSONFC, SchoolFeature, DistrictFeature, SandboxScenario } from '../types';
 import {
   districtKey,
   schoolKey,
   type LeaEnrollmentMap,
   type SchoolEnrollmentMap,
   type Demographics,
+  type EnrollmentHistory,
 } from '../lib/enrollment';
-import type { BudgetsMap } from '../lib/budgets';
+import {
+  treeFiscalYears,
+  combineFundingMix,
+  REVENUE_SOURCES,
+  type BudgetsMap,
+  type BudgetCategoryTree,
+  type RevenueSource,
+} from '../lib/budgets';
 import type { DistrictAnchorsMap } from '../lib/anchors';
-import { computeConsolidationV1, type ConsolidationParamsV1 } from '../lib/consolidationV1';
+import { computeConsolidationV1 } from '../lib/consolidationV1';
+import { runMonteCarloV1, type UncertaintySummary } from '../lib/monteCarlo';
+import {
+  computeConsolidationV2,
+  DEFAULT_COMPONENTS_V2,
+  type ConsolidationParamsV2,
+} from '../lib/consolidationV2';
+import { computeMergedAid, type FundingFormulaParams } from '../lib/fundingFormula';
+import type { TravelMatrix } from '../lib/geoDistance';
+import { HUB_STRATEGIES, type HubStrategy } from '../lib/hubSelection';
+import {
+  DEFAULT_FORECAST_PARAMS,
+  forecastCombinedTotals,
+  forecastGrades,
+  forecastSchool,
+  statewideSurvivalRatios,
+  type ForecastParams,
+} from '../lib/enrollmentForecast';
+import { PROJECTION_MAX_YEARS } from '../lib/projection';
+import { checkHubAbsorption, schoolUtilization, type SchoolCapacityMap } from '../lib/capacity';
+import ConsolidationV2Panel from './ConsolidationV2Panel';
+import HubComparisonPanel from './HubComparisonPanel';
+import SensitivityPanel from './SensitivityPanel';
+import ProjectionPanel from './ProjectionPanel';
+import EnrollmentForecastPanel from './EnrollmentForecastPanel';
+import OptimizerPanel from './OptimizerPanel';
+import SchoolClosurePanel from './SchoolClosurePanel';
+import ScenariosPanel from './ScenariosPanel';
+import SandboxComparison from './SandboxComparison';
+import { MAX_SANDBOX_SCENARIOS, newSandboxScenario, sandboxScenarioColor } from '../lib/sandboxScenarios';
+import type { OptimizerResult } from '../lib/optimizer';
+import { buildScenarioReport, openPrintableReport } from '../lib/report';
+import { countSchoolsByDistrict } from '../lib/districtTable';
+import {
+  CHOROPLETH_METRICS,
+  CLASSIFICATION_METHODS,
+  historyYearCount,
+  type ChoroplethMetric,
+  type ClassificationMethod,
+} from '../lib/choropleth';
+import { downloadSheets, sandboxExportSheets } from '../lib/dataExport';
+import PeerDistrictsPanel from './PeerDistrictsPanel';
+import { contiguityWarning, suggestNeighbors, type DistrictAdjacencyGraph } from '../lib/adjacency';
+import type { PeerParams, PeerResult } from '../lib/peers';
+import DataExportPanel from './DataExportPanel';
+import BudgetTrends from './BudgetTrends';
 
 interface SidebarProps {
   isMobile?: boolean;
@@ -38,14 +91,48 @@ interface SidebarProps {
   leaEnrollment: LeaEnrollmentMap | null;
   schoolEnrollment: SchoolEnrollmentMap | null;
   enrollmentLoadError: string | null;
+  /** October count year currently shown. */
+  enrollmentYear: number | null;
+  enrollmentHistory: EnrollmentHistory | null;
   budgets: BudgetsMap | null;
   anchors: DistrictAnchorsMap | null;
+  /** Schools before the type/grade filters, for the transport model. */
+  allSchools: GeoJSONFC<SchoolFeature> | null;
+  fundingParams: FundingFormulaParams | null;
+  travelMatrix: TravelMatrix | null;
+  /** Shared-border graph; null when district-adjacency.json was not built. */
+  adjacency: DistrictAdjacencyGraph | null;
   showAnchors: boolean;
   setShowAnchors: (v: boolean) => void;
+  /** Building capacity by NCES ID; null when no capacity dataset was built. */
+  schoolCapacity: SchoolCapacityMap | null;
+  colorByUtilization: boolean;
+  setColorByUtilization: (v: boolean) => void;
+  choroplethMetric: ChoroplethMetric | null;
+  setChoroplethMetric: (m: ChoroplethMetric | null) => void;
+  classificationMethod: ClassificationMethod;
+  setClassificationMethod: (m: ClassificationMethod) => void;
+  /** School ids closed in the school closure scenario. */
+  closedSchoolIds: string[];
+  setClosedSchoolIds: Dispatch<SetStateAction<string[]>>;
   onSearchSelect: (school?: SchoolFeature, district?: DistrictFeature) => void;
   onClearSelection: () => void;
   sandboxDistrictKeys: string[];
   setSandboxDistrictKeys: Dispatch<SetStateAction<string[]>>;
+  /** All sandbox scenarios; sandboxDistrictKeys are the active one's. */
+  sandboxScenarios: SandboxScenario[];
+  setSandboxScenarios: Dispatch<SetStateAction<SandboxScenario[]>>;
+  activeSandboxId: string;
+  setActiveSandboxId: (id: string) => void;
+  consolidationParams: ConsolidationParamsV2;
+  setConsolidationParams: Dispatch<SetStateAction<ConsolidationParamsV2>>;
+  optimizerResult: OptimizerResult | null;
+  setOptimizerResult: (r: OptimizerResult | null) => void;
+  peerResult: PeerResult | null;
+  showPeers: boolean;
+  setShowPeers: Dispatch<SetStateAction<boolean>>;
+  peerParams: PeerParams;
+  setPeerParams: Dispatch<SetStateAction<PeerParams>>;
 }
 
 const GRADE_OPTIONS = ['Elementary', 'Middle', 'High', 'Other'] as const;
@@ -114,9 +201,182 @@ function GenderSplit({ demographics, total }: { demographics: Demographics; tota
   );
 }
 
+function EnrollmentHistoryLine({ totals, currentYear }: { totals: Record<string, number>; currentYear: number }) {
+  const years = Object.keys(totals).map(Number).sort((a, b) => a - b);
+  if (years.length < 2) return null;
+  const first = totals[years[0]];
+  const last = totals[years[years.length - 1]];
+  const change = first > 0 ? last / first - 1 : 0;
+  return (
+    <div style={{ fontSize: 12, color: '#555', marginTop: 4 }}>
+      <strong>Oct counts:</strong>{' '}
+      {years.map((y, i) => (
+        <span key={y} style={{ fontWeight: y === currentYear ? 600 : 400 }}>
+          {i > 0 && ' · '}
+          {y}: {totals[y].toLocaleString()}
+        </span>
+      ))}
+      <span style={{ marginLeft: 4, color: change >= 0 ? '#2e7d32' : '#c62828' }}>
+        ({change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}% since {years[0]})
+      </span>
+    </div>
+  );
+}
+
+const CATEGORY_COLORS = ['#1976d2', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#e53935', '#6d4c41', '#546e7a'];
+
+const REVENUE_SOURCE_LABELS: Record<RevenueSource, string> = {
+  local: 'Local',
+  state: 'State',
+  federal: 'Federal',
+  other: 'Other',
+};
+
+const REVENUE_SOURCE_COLORS: Record<RevenueSource, string> = {
+  local: '#5c6bc0',
+  state: '#26a69a',
+  federal: '#ffa726',
+  other: '#bdbdbd',
+};
+
+function FundingMixBar({ amounts }: { amounts: Record<RevenueSource, number> }) {
+  const total = REVENUE_SOURCES.reduce((s, src) => s + amounts[src], 0);
+  if (total <= 0) return null;
+  const items = REVENUE_SOURCES.filter((src) => amounts[src] > 0);
+  return (
+    <div style={{ marginTop: 4 }}>
+      <div style={{ display: 'flex', height: 8, borderRadius: 4, overflow: 'hidden', marginBottom: 4 }}>
+        {items.map((src) => (
+          <div
+            key={src}
+            title={`${REVENUE_SOURCE_LABELS[src]}: $${Math.round(amounts[src]).toLocaleString()}`}
+            style={{ width: `${(amounts[src] / total) * 100}%`, background: REVENUE_SOURCE_COLORS[src] }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px 10px', fontSize: 11, color: '#555' }}>
+        {items.map((src) => (
+          <span key={src}>
+            <span style={{ display: 'inline-block', width: 8, height: 8, borderRadius: '50%', background: REVENUE_SOURCE_COLORS[src], marginRight: 3, verticalAlign: 'middle' }} />
+            {REVENUE_SOURCE_LABELS[src]} {((amounts[src] / total) * 100).toFixed(1)}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CategoryBreakdown({ tree, defaultYear, title = 'Spending by category' }: { tree: BudgetCategoryTree; defaultYear: string; title?: string }) {
+  const years = treeFiscalYears(tree);
+  const [year, setYear] = useState(years.includes(defaultYear) ? defaultYear : years[years.length - 1] ?? '');
+  const [open, setOpen] = useState<string | null>(null);
+  const categories = tree[year] ?? [];
+  const total = categories.reduce((s, c) => s + c.amount, 0);
+  if (!categories.length || total <= 0) return null;
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 12, color: '#555' }}>
+        <span>{title}</span>
+        {years.length > 1 && (
+          <select
+            value={year}
+            onChange={(e) => setYear(e.target.value)}
+            style={{ fontSize: 11, padding: '1px 4px', borderRadius: 4, border: '1px solid #ccc' }}
+          >
+            {years.map((y) => <option key={y} value={y}>{y}</option>)}
+          </select>
+        )}
+      </div>
+      <div style={{ display: 'flex', height: 8, borderRadius: 4, overflow: 'hidden', margin: '4px 0' }}>
+        {categories.map((c, i) => (
+          <div
+            key={c.name}
+            title={`${c.name}: $${c.amount.toLocaleString()}`}
+            style={{ width: `${Math.max(0, c.amount / total) * 100}%`, background: CATEGORY_COLORS[i % CATEGORY_COLORS.length] }}
+          />
+        ))}
+      </div>
+      {categories.map((c, i) => (
+        <div key={c.name} style={{ fontSize: 11, color: '#555' }}>
+          <div
+            onClick={() => setOpen((prev) => (prev === c.name ? null : c.name))}
+            style={{ display: 'flex', justifyContent: 'space-between', cursor: c.items.length ? 'pointer' : 'default', marginTop: 2 }}
+          >
+            <span>
+              <span style={{ display: 'inline-block', width: 8, height: 8, borderRadius: '50%', background: CATEGORY_COLORS[i % CATEGORY_COLORS.length], marginRight: 4, verticalAlign: 'middle' }} />
+              {c.name}
+            </span>
+            <span>${Math.round(c.amount).toLocaleString()} ({((c.amount / total) * 100).toFixed(1)}%)</span>
+          </div>
+          {open === c.name && c.items.map((item) => (
+            <div key={item.name} style={{ display: 'flex', justifyContent: 'space-between', paddingLeft: 14, color: '#777' }}>
+              <span>{item.name}</span>
+              <span>
+                ${Math.round(item.amount).toLocaleString()}
+                {item.pctChange != null && (
+                  <span style={{ marginLeft: 4, color: item.pctChange > 0 ? '#c62828' : '#2e7d32' }}>
+                    {item.pctChange > 0 ? '+' : ''}{(item.pctChange * 100).toFixed(1)}%
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
 const $pp = (n: number) => `$${Math.round(n).toLocaleString()}`;
 const pct = (n: number) => `${(n * 100).toFixed(2)}%`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+
+const exportButtonStyle = {
+  padding: '6px 10px',
+  fontSize: 12,
+  border: '1px solid #1565c0',
+  borderRadius: 6,
+  background: '#fff',
+  color: '#1565c0',
+  cursor: 'pointer',
+};
+
+function UncertaintyBand({ summary }: { summary: UncertaintySummary }) {
+  const [open, setOpen] = useState(false);
+  const lo = Math.min(summary.p10, 0);
+  const hi = Math.max(summary.p90, 0);
+  const span = hi - lo || 1;
+  const x = (v: number) => `${((v - lo) / span) * 100}%`;
+  return (
+    <div style={{ marginTop: 4, fontSize: 11, color: '#555' }}>
+      <div onClick={() => setOpen((v) => !v)} style={{ cursor: 'pointer' }}>
+        P10 / P50 / P90: {signed$(summary.p10)} / {signed$(summary.p50)} / {signed$(summary.p90)}
+        <span style={{ color: '#999', marginLeft: 4 }}>{open ? '▲' : '▼'}</span>
+      </div>
+      <div style={{ position: 'relative', height: 8, background: '#f0f0f0', borderRadius: 4, margin: '3px 0' }}>
+        <div
+          style={{
+            position: 'absolute',
+            left: x(summary.p10),
+            width: `${((summary.p90 - summary.p10) / span) * 100}%`,
+            top: 0,
+            bottom: 0,
+            background: summary.p50 >= 0 ? '#a5d6a7' : '#ef9a9a',
+            borderRadius: 4,
+          }}
+        />
+        <div style={{ position: 'absolute', left: x(summary.p50), top: -1, bottom: -1, width: 2, background: '#333' }} />
+        <div style={{ position: 'absolute', left: x(0), top: -2, bottom: -2, width: 1, background: '#c62828' }} title="Break-even" />
+      </div>
+      <div>
+        Probability of net savings: <strong>{Math.round(summary.probNetSavings * 100)}%</strong> ({summary.runs.toLocaleString()} runs)
+      </div>
+      {open && summary.assumptions.map((a, i) => <div key={i} style={{ color: '#777' }}>· {a}</div>)}
+    </div>
+  );
+}
 
 export default function Sidebar({
   isMobile = false,
@@ -144,14 +404,42 @@ export default function Sidebar({
   leaEnrollment,
   schoolEnrollment,
   enrollmentLoadError,
+  enrollmentYear,
+  enrollmentHistory,
   budgets,
   anchors,
+  allSchools,
+  fundingParams,
+  travelMatrix,
+  adjacency,
   showAnchors,
   setShowAnchors,
+  schoolCapacity,
+  colorByUtilization,
+  setColorByUtilization,
+  choroplethMetric,
+  setChoroplethMetric,
+  classificationMethod,
+  setClassificationMethod,
+  closedSchoolIds,
+  setClosedSchoolIds,
   onSearchSelect,
   onClearSelection,
   sandboxDistrictKeys,
   setSandboxDistrictKeys,
+  sandboxScenarios,
+  setSandboxScenarios,
+  activeSandboxId,
+  setActiveSandboxId,
+  consolidationParams,
+  setConsolidationParams,
+  optimizerResult,
+  setOptimizerResult,
+  peerResult,
+  showPeers,
+  setShowPeers,
+  peerParams,
+  setPeerParams,
 }: SidebarProps) {
   const searchResults = useMemo(() => {
     if (!searchQuery.trim()) return [];
@@ -200,6 +488,32 @@ export default function Sidebar({
     return schoolEnrollment[key] ?? null;
   }, [selectedSchool, schoolEnrollment]);
 
+  const snapshotYear = enrollmentYear ?? 2024;
+
+  const [forecastParams, setForecastParams] = useState<ForecastParams>(DEFAULT_FORECAST_PARAMS);
+
+  const statewideSurvival = useMemo(
+    () => (leaEnrollment ? statewideSurvivalRatios(leaEnrollment) : null),
+    [leaEnrollment],
+  );
+
+  const districtForecast = useMemo(() => {
+    if (!districtEnrollment?.grades || !statewideSurvival) return null;
+    return forecastGrades(districtEnrollment.grades, statewideSurvival, forecastParams);
+  }, [districtEnrollment, statewideSurvival, forecastParams]);
+
+  const schoolForecast = useMemo(() => {
+    if (!schoolEnrollmentData?.grades || !leaEnrollment || !statewideSurvival) return null;
+    const district = leaEnrollment[districtKey(schoolEnrollmentData.distname)];
+    if (!district?.grades) return null;
+    const forecast = forecastGrades(district.grades, statewideSurvival, forecastParams);
+    return {
+      years: forecastSchool(schoolEnrollmentData.grades, district.grades, forecast),
+      entryGrowth: forecast.entryGrowth,
+      districtName: district.distname,
+    };
+  }, [schoolEnrollmentData, leaEnrollment, statewideSurvival, forecastParams]);
+
   const districtBudget = useMemo(() => {
     if (!selectedDistrict || !budgets) return null;
     const name = selectedDistrict.properties.district_name ?? selectedDistrict.properties.name ?? '';
@@ -209,24 +523,10 @@ export default function Sidebar({
 
   const districtCounts = useMemo(() => {
     if (!schools?.features?.length || !selectedDistrict) return { public: 0, private: 0 };
-    const geoid = selectedDistrict.properties.district_geoid ?? selectedDistrict.properties.geoid;
-    let publicCount = 0;
-    let privateCount = 0;
-    schools.features.forEach((f) => {
-      if (f.properties.district_geoid === geoid) {
-        if (f.properties.school_type === 'public') publicCount++;
-        else privateCount++;
-      }
-    });
-    return { public: publicCount, private: privateCount };
+    const geoid = selectedDistrict.properties.district_geoid ?? selectedDistrict.properties.geoid ?? '';
+    return countSchoolsByDistrict(schools.features).get(geoid) ?? { public: 0, private: 0 };
   }, [schools, selectedDistrict]);
 
-  const [consolidationParams, setConsolidationParams] = useState<ConsolidationParamsV1>({
-    adminReductionRate: 1.0,
-    costPerStudentMile: 3.0,
-    affectedShare: 0,
-  });
-
   const [filtersOpen, setFiltersOpen] = useState(false);
 
   const [searchOpen, setSearchOpen] = useState<boolean>(() => {
@@ -268,6 +568,11 @@ export default function Sidebar({
     return m;
   }, [districtOptions]);
 
+  const getDisplayName = useCallback(
+    (key: string) => districtNameByKey.get(key) ?? anchors?.[key]?.displayName ?? budgets?.[key]?.displayName ?? key,
+    [districtNameByKey, anchors, budgets],
+  );
+
   const sandboxFuse = useMemo(
     () => new Fuse(districtOptions, { keys: ['name'], threshold: 0.4 }),
     [districtOptions],
@@ -282,15 +587,90 @@ export default function Sidebar({
       .slice(0, 8);
   }, [sandboxSearch, sandboxFuse, sandboxDistrictKeys]);
 
+  const [probabilistic, setProbabilistic] = useState(false);
+
   const sandboxResult = useMemo(() => {
     if (sandboxDistrictKeys.length < 2 || !budgets || !leaEnrollment || !anchors) return null;
-    return computeConsolidationV1(sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams);
-  }, [sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams]);
+    const computed = computeConsolidationV1(sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, travelMatrix);
+    const contiguity = adjacency ? contiguityWarning(sandboxDistrictKeys, adjacency, getDisplayName) : null;
+    const result = contiguity ? { ...computed, warnings: [contiguity, ...computed.warnings] } : computed;
+    if (!probabilistic || !result.ok) return result;
+    const uncertainty = runMonteCarloV1(sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, travelMatrix);
+    return uncertainty ? { ...result, uncertainty } : result;
+  }, [sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, travelMatrix, adjacency, getDisplayName, probabilistic]);
+
+  const [showNeighborSuggestions, setShowNeighborSuggestions] = useState(false);
+
+  // Adjacent districts with the sandbox net impact if each were added
+  const neighborSuggestions = useMemo(() => {
+    if (!showNeighborSuggestions || !adjacency || sandboxDistrictKeys.length === 0) return [];
+    return suggestNeighbors(sandboxDistrictKeys, adjacency).map((s) => {
+      const preview =
+        budgets && leaEnrollment && anchors
+          ? computeConsolidationV1([...sandboxDistrictKeys, s.key], budgets, leaEnrollment, anchors, consolidationParams, travelMatrix)
+          : null;
+      return { ...s, netImpact: preview?.ok ? preview.netImpact : null };
+    });
+  }, [showNeighborSuggestions, adjacency, sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, travelMatrix]);
+
+  const sandboxEnrollmentPath = useMemo(() => {
+    if (sandboxDistrictKeys.length < 2 || !leaEnrollment || !statewideSurvival) return null;
+    return forecastCombinedTotals(sandboxDistrictKeys, leaEnrollment, statewideSurvival, forecastParams, PROJECTION_MAX_YEARS);
+  }, [sandboxDistrictKeys, leaEnrollment, statewideSurvival, forecastParams]);
+
+  const sandboxAbsorption = useMemo(() => {
+    if (!sandboxResult?.ok || !schoolCapacity || !allSchools?.features || !leaEnrollment) return null;
+    return checkHubAbsorption(
+      sandboxResult.hubKey,
+      sandboxDistrictKeys.filter((k) => k !== sandboxResult.hubKey),
+      allSchools.features,
+      schoolCapacity,
+      schoolEnrollment,
+      leaEnrollment,
+    );
+  }, [sandboxResult, sandboxDistrictKeys, schoolCapacity, allSchools, schoolEnrollment, leaEnrollment]);
+
+  const schoolCapacityData = useMemo(
+    () => (selectedSchool && schoolCapacity ? schoolUtilization(selectedSchool, schoolCapacity, schoolEnrollment) : null),
+    [selectedSchool, schoolCapacity, schoolEnrollment],
+  );
+
+  const sandboxGeo = useMemo(
+    () =>
+      districts?.features && allSchools?.features
+        ? { districts: districts.features, schools: allSchools.features, schoolEnrollment }
+        : undefined,
+    [districts, allSchools, schoolEnrollment],
+  );
+
+  const sandboxResultV2 = useMemo(() => {
+    if (sandboxDistrictKeys.length < 2 || !budgets || !leaEnrollment || !anchors) return null;
+    return computeConsolidationV2(
+      sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, DEFAULT_COMPONENTS_V2, sandboxGeo, travelMatrix,
+    );
+  }, [sandboxDistrictKeys, budgets, leaEnrollment, anchors, consolidationParams, sandboxGeo, travelMatrix]);
+
+  const sandboxFundingMix = useMemo(() => {
+    if (sandboxDistrictKeys.length < 2 || !budgets) return null;
+    return combineFundingMix(sandboxDistrictKeys, budgets);
+  }, [sandboxDistrictKeys, budgets]);
+
+  const sandboxAid = useMemo(() => {
+    if (sandboxDistrictKeys.length < 2 || !budgets || !leaEnrollment || !fundingParams) return null;
+    return computeMergedAid(sandboxDistrictKeys, budgets, leaEnrollment, fundingParams);
+  }, [sandboxDistrictKeys, budgets, leaEnrollment, fundingParams]);
+
+  const [aidDetailsOpen, setAidDetailsOpen] = useState(false);
 
   const sandboxDataReady = budgets !== null && leaEnrollment !== null && anchors !== null;
 
-  const getDisplayName = (key: string) =>
-    districtNameByKey.get(key) ?? anchors?.[key]?.displayName ?? budgets?.[key]?.displayName ?? key;
+  const scenarioDiffData = useMemo(
+    () =>
+      budgets && leaEnrollment && anchors
+        ? { budgets, enrollments: leaEnrollment, anchors, geo: sandboxGeo, travel: travelMatrix }
+        : null,
+    [budgets, leaEnrollment, anchors, sandboxGeo, travelMatrix],
+  );
 
   const addToSandbox = (key: string) => {
     setSandboxDistrictKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
@@ -300,6 +680,30 @@ export default function Sidebar({
     setSandboxDistrictKeys((prev) => prev.filter((k) => k !== key));
   };
 
+  const addSandboxScenario = () => {
+    if (sandboxScenarios.length >= MAX_SANDBOX_SCENARIOS) return;
+    const scenario = newSandboxScenario(sandboxScenarios);
+    setSandboxScenarios((prev) => [...prev, scenario]);
+    setActiveSandboxId(scenario.id);
+  };
+
+  const removeSandboxScenario = (id: string) => {
+    if (sandboxScenarios.length <= 1) return;
+    const index = sandboxScenarios.findIndex((s) => s.id === id);
+    setSandboxScenarios((prev) => prev.filter((s) => s.id !== id));
+    if (id === activeSandboxId) setActiveSandboxId(sandboxScenarios[index === 0 ? 1 : index - 1].id);
+  };
+
+  // Also offered when data is missing, so the missing rows can be exported
+  const downloadSandboxSheets = (format: 'csv' | 'xlsx') => {
+    if (!sandboxResult) return;
+    downloadSheets(
+      sandboxExportSheets(sandboxDistrictKeys, sandboxResult, consolidationParams, getDisplayName),
+      `sandbox-${(sandboxResult.hubKey || 'incomplete').replace(/\s+/g, '-')}`,
+      format,
+    );
+  };
+
   const mapDistrictKey = selectedDistrict
     ? districtKey(selectedDistrict.properties.district_name ?? selectedDistrict.properties.name ?? '')
     : null;
@@ -563,6 +967,16 @@ export default function Sidebar({
               />
               Private
             </label>
+            {schoolCapacity && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={colorByUtilization}
+                  onChange={() => setColorByUtilization(!colorByUtilization)}
+                />
+                Color schools by utilization
+              </label>
+            )}
             <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8, cursor: 'pointer' }}>
               <input
                 type="checkbox"
@@ -581,6 +995,40 @@ export default function Sidebar({
                 Show district labels
               </label>
             )}
+            {showDistricts && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', marginLeft: 24, marginBottom: 8, fontSize: 12 }}>
+                <label>
+                  Shade districts by
+                  <select
+                    value={choroplethMetric ?? ''}
+                    onChange={(e) => setChoroplethMetric((e.target.value || null) as ChoroplethMetric | null)}
+                    style={{ width: '100%', marginTop: 2, fontSize: 11, padding: '2px 4px', borderRadius: 4, border: '1px solid #ccc' }}
+                  >
+                    <option value="">None</option>
+                    {CHOROPLETH_METRICS.map((m) =>
+                      m.id === 'enrollmentChange' && historyYearCount(enrollmentHistory) < 2 ? (
+                        <option key={m.id} value={m.id} disabled>
+                          {m.label} (needs 2+ October counts)
+                        </option>
+                      ) : (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ),
+                    )}
+                  </select>
+                </label>
+                <label>
+                  Classes
+                  <select
+                    value={classificationMethod}
+                    onChange={(e) => setClassificationMethod(e.target.value as ClassificationMethod)}
+                    disabled={!choroplethMetric}
+                    style={{ width: '100%', marginTop: 2, fontSize: 11, padding: '2px 4px', borderRadius: 4, border: '1px solid #ccc' }}
+                  >
+                    {CLASSIFICATION_METHODS.map((m) => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                </label>
+              </div>
+            )}
             {showDistricts && (
               <div style={{ marginLeft: 24, marginBottom: 8 }}>
                 <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
@@ -654,6 +1102,69 @@ export default function Sidebar({
             Consolidation Sandbox (V1)
           </div>
 
+          {/* Scenario tabs */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 8 }}>
+            {sandboxScenarios.map((s, i) => {
+              const active = s.id === activeSandboxId;
+              return (
+                <span
+                  key={s.id}
+                  onClick={() => setActiveSandboxId(s.id)}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    padding: '3px 8px',
+                    fontSize: 12,
+                    borderRadius: 4,
+                    cursor: 'pointer',
+                    border: `1px solid ${active ? '#1565c0' : '#ccc'}`,
+                    background: active ? '#e3f2fd' : '#fff',
+                    fontWeight: active ? 600 : 400,
+                  }}
+                >
+                  <span style={{ width: 10, height: 10, borderRadius: 2, background: sandboxScenarioColor(i) }} />
+                  {s.name}
+                  {s.keys.length > 0 && <span style={{ color: '#888', fontWeight: 400 }}>({s.keys.length})</span>}
+                  {sandboxScenarios.length > 1 && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeSandboxScenario(s.id);
+                      }}
+                      title={`Remove ${s.name}`}
+                      style={{ border: 'none', background: 'none', padding: 0, cursor: 'pointer', color: '#999', fontSize: 13, lineHeight: 1 }}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              );
+            })}
+            {sandboxScenarios.length < MAX_SANDBOX_SCENARIOS && (
+              <button
+                onClick={addSandboxScenario}
+                title="Add another scenario to compare"
+                style={{ padding: '3px 8px', fontSize: 12, border: '1px dashed #bbb', borderRadius: 4, background: '#fff', color: '#1565c0', cursor: 'pointer' }}
+              >
+                + Scenario
+              </button>
+            )}
+          </div>
+
+          {sandboxScenarios.length > 1 && budgets && leaEnrollment && anchors && (
+            <SandboxComparison
+              scenarios={sandboxScenarios}
+              activeId={activeSandboxId}
+              onSelect={setActiveSandboxId}
+              budgets={budgets}
+              enrollments={leaEnrollment}
+              anchors={anchors}
+              params={consolidationParams}
+              travel={travelMatrix}
+            />
+          )}
+
           {/* District picker */}
           <div style={{ position: 'relative', marginBottom: 8 }}>
             <input
@@ -756,6 +1267,64 @@ export default function Sidebar({
             </div>
           )}
 
+          {/* Neighbor suggestions */}
+          {adjacency && sandboxDistrictKeys.length > 0 && (
+            <div style={{ marginBottom: 10, fontSize: 12 }}>
+              <button
+                onClick={() => setShowNeighborSuggestions((v) => !v)}
+                style={{ padding: 0, background: 'none', border: 'none', cursor: 'pointer', fontSize: 12, color: '#1565c0' }}
+              >
+                Suggest neighbors {showNeighborSuggestions ? '▲' : '▼'}
+              </button>
+              {showNeighborSuggestions && (
+                <div style={{ marginTop: 4 }}>
+                  {neighborSuggestions.length === 0 && (
+                    <div style={{ color: '#999' }}>No districts border the current selection.</div>
+                  )}
+                  {neighborSuggestions.map((s) => (
+                    <div
+                      key={s.key}
+                      style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '3px 0', borderBottom: '1px solid #f0f0f0' }}
+                    >
+                      <span style={{ flex: 1 }}>
+                        {getDisplayName(s.key)}
+                        {s.water && (
+                          <span style={{ color: '#0277bd', fontSize: 11 }} title="Shares a border only across open water">
+                            {' '}~ across water{s.via ? ` (${s.via})` : ''}
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        title={`Sandbox net impact with ${getDisplayName(s.key)} added`}
+                        style={{ color: s.netImpact == null ? '#999' : s.netImpact >= 0 ? '#2e7d32' : '#c62828' }}
+                      >
+                        {s.netImpact == null ? '—' : s.netImpact >= 0 ? `+${$(s.netImpact)}` : `-${$(Math.abs(s.netImpact))}`}
+                      </span>
+                      <button
+                        onClick={() => addToSandbox(s.key)}
+                        title={`Add ${getDisplayName(s.key)}`}
+                        style={{
+                          padding: '1px 6px',
+                          fontSize: 11,
+                          border: '1px solid #ccc',
+                          borderRadius: 4,
+                          background: '#fff',
+                          color: '#2e7d32',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        +
+                      </button>
+                    </div>
+                  ))}
+                  {neighborSuggestions.length > 0 && (
+                    <div style={{ color: '#888', fontSize: 11, marginTop: 4 }}>Net impact of the sandbox if that district is added.</div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Convenience buttons */}
           <div className="sandbox-buttons" style={{ display: 'flex', gap: 6, marginBottom: 12 }}>
             <button
@@ -812,6 +1381,35 @@ export default function Sidebar({
           {/* Parameter controls */}
           <div className="sandbox-params" style={{ marginBottom: 12, padding: '8px 0', borderTop: '1px solid #e0e0e0' }}>
             <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 6, color: '#555' }}>Parameters</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 8px', marginBottom: 6, fontSize: 12 }}>
+              <label>
+                Hub strategy
+                <select
+                  value={consolidationParams.hubStrategy}
+                  onChange={(e) =>
+                    setConsolidationParams((p) => ({ ...p, hubStrategy: e.target.value as HubStrategy }))
+                  }
+                  style={{ width: '100%', marginTop: 2, fontSize: 11, padding: '2px 4px', borderRadius: 4, border: '1px solid #ccc' }}
+                >
+                  {HUB_STRATEGIES.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+              </label>
+              <label>
+                Pin hub
+                <select
+                  value={consolidationParams.pinnedHubKey ?? ''}
+                  onChange={(e) =>
+                    setConsolidationParams((p) => ({ ...p, pinnedHubKey: e.target.value || null }))
+                  }
+                  style={{ width: '100%', marginTop: 2, fontSize: 11, padding: '2px 4px', borderRadius: 4, border: '1px solid #ccc' }}
+                >
+                  <option value="">Auto (use strategy)</option>
+                  {sandboxDistrictKeys.map((k) => (
+                    <option key={k} value={k}>{districtNameByKey.get(k) ?? k}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
             <label style={{ display: 'block', marginBottom: 6, fontSize: 12 }}>
               Smaller district(s) admin reduction: {Math.round(consolidationParams.adminReductionRate * 100)}%
               <input
@@ -851,6 +1449,10 @@ export default function Sidebar({
                 style={{ width: 70, padding: '3px 6px', borderRadius: 4, border: '1px solid #ccc' }}
               />
             </label>
+            <label style={{ display: 'block', marginTop: 6, fontSize: 12 }}>
+              <input type="checkbox" checked={probabilistic} onChange={(e) => setProbabilistic(e.target.checked)} />{' '}
+              Probabilistic mode (Monte Carlo)
+            </label>
           </div>
 
           {/* Computation results */}
@@ -878,18 +1480,41 @@ export default function Sidebar({
                   Anchors: {sandboxResult.missing.anchors.join(', ')}
                 </div>
               )}
+              <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+                {(['csv', 'xlsx'] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => downloadSandboxSheets(format)}
+                    title={`Download the selection and its missing data as ${format.toUpperCase()}`}
+                    style={exportButtonStyle}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
             </div>
           ) : sandboxResult ? (
             <div style={{ fontSize: 13 }}>
               <div style={{ marginBottom: 8 }}>
                 <strong>Hub:</strong> {sandboxResult.hubName}{' '}
                 <span style={{ color: '#555', fontSize: 12 }}>
-                  ({(leaEnrollment?.[sandboxResult.hubKey]?.total ?? 0).toLocaleString()} students)
+                  ({(leaEnrollment?.[sandboxResult.hubKey]?.total ?? 0).toLocaleString()} students ·{' '}
+                  {sandboxResult.hubMethod === 'pinned'
+                    ? 'pinned'
+                    : HUB_STRATEGIES.find((s) => s.id === sandboxResult.hubMethod)?.label.toLowerCase()})
                 </span>
               </div>
 
               <div style={{ marginBottom: 8, padding: '6px 0', borderTop: '1px solid #e0e0e0' }}>
-                <div><strong>Combined enrollment:</strong> {sandboxResult.combinedEnrollment.toLocaleString()}</div>
+                <div>
+                  <strong>Combined enrollment:</strong> {sandboxResult.combinedEnrollment.toLocaleString()}
+                  {sandboxEnrollmentPath && sandboxEnrollmentPath[0] > 0 && (
+                    <span style={{ fontSize: 11, color: '#777', marginLeft: 4 }}>
+                      (forecast {Math.round(sandboxEnrollmentPath[forecastParams.years]).toLocaleString()} in{' '}
+                      {snapshotYear + forecastParams.years})
+                    </span>
+                  )}
+                </div>
                 <div><strong>Combined spending:</strong> {$(sandboxResult.combinedSpending)}</div>
                 <div><strong>Baseline per-pupil:</strong> {$pp(sandboxResult.baselinePerPupil)}</div>
               </div>
@@ -919,7 +1544,7 @@ export default function Sidebar({
                   <div style={{ marginTop: 4, fontSize: 11, color: '#555' }}>
                     {sandboxResult.spokeBreakdown.slice(0, 5).map((s) => (
                       <div key={s.key} style={{ marginTop: 2 }}>
-                        {s.name}: {s.distanceMiles} mi × {s.enrollment.toLocaleString()} × {Math.round(consolidationParams.affectedShare * 100)}% × ${consolidationParams.costPerStudentMile.toFixed(2)} = {$(s.cost)}
+                        {s.name}: {s.distanceMiles} mi{s.distanceSource === 'haversine' ? ' (straight line)' : ''} × {s.enrollment.toLocaleString()} × {Math.round(consolidationParams.affectedShare * 100)}% × ${consolidationParams.costPerStudentMile.toFixed(2)} = {$(s.cost)}
                       </div>
                     ))}
                   </div>
@@ -950,6 +1575,57 @@ export default function Sidebar({
                     vs spokes budget: {pct(sandboxResult.netImpactPctSpokesSpending)}
                   </div>
                 )}
+                {sandboxResult.uncertainty && <UncertaintyBand summary={sandboxResult.uncertainty} />}
+                {sandboxAid?.ok && (
+                  <div style={{ marginTop: 4 }}>
+                    <div
+                      onClick={() => setAidDetailsOpen((v) => !v)}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <strong>State aid change:</strong>{' '}
+                      <span style={{ color: sandboxAid.aidDelta >= 0 ? '#2e7d32' : '#c62828', fontWeight: 700 }}>
+                        {sandboxAid.aidDelta >= 0 ? `+${$(sandboxAid.aidDelta)}` : `-${$(Math.abs(sandboxAid.aidDelta))}`}
+                      </span>
+                      <span style={{ fontSize: 11, color: '#999', marginLeft: 4 }}>{aidDetailsOpen ? '▲' : '▼'}</span>
+                    </div>
+                    <div style={{ fontSize: 11, color: '#666', marginTop: 2 }}>
+                      Net incl. aid:{' '}
+                      {sandboxResult.netImpact + sandboxAid.aidDelta >= 0
+                        ? `+${$(sandboxResult.netImpact + sandboxAid.aidDelta)}`
+                        : `-${$(Math.abs(sandboxResult.netImpact + sandboxAid.aidDelta))}`}
+                      {' · '}{sandboxAid.version} formula
+                    </div>
+                    {aidDetailsOpen && (
+                      <div style={{ fontSize: 11, color: '#555', marginTop: 4 }}>
+                        {sandboxAid.districts.map((d) => (
+                          <div key={d.key}>
+                            {d.name}: {$(d.aid)} (share ratio {pct(d.shareRatio)})
+                            {d.wealthSource === 'calibrated-clamped' && (
+                              <span
+                                style={{ color: '#e65100' }}
+                                title="Reported state revenue cannot be matched by the formula; wealth index clamped"
+                              >
+                                {' '}⚑ clamped
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                        <div style={{ marginTop: 2 }}>
+                          Merged LEA: {$(sandboxAid.merged.aid)} (share ratio {pct(sandboxAid.merged.shareRatio)})
+                          {sandboxAid.regionalizationBonus > 0 && ` + ${$(sandboxAid.regionalizationBonus)} regionalization bonus`}
+                        </div>
+                        {sandboxAid.assumptions.map((a, i) => (
+                          <div key={i} style={{ color: '#777' }}>· {a}</div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {sandboxAid && !sandboxAid.ok && sandboxAid.missing.length > 0 && (
+                  <div style={{ fontSize: 11, color: '#e65100', marginTop: 4 }}>
+                    State aid not estimated — no enrollment or state revenue: {sandboxAid.missing.map(getDisplayName).join(', ')}
+                  </div>
+                )}
                 <div style={{ marginTop: 4 }}>
                   <strong>Projected spending:</strong> {$(sandboxResult.projectedSpending)}
                 </div>
@@ -958,6 +1634,61 @@ export default function Sidebar({
                 </div>
               </div>
 
+              {sandboxFundingMix && sandboxFundingMix.total > 0 && (
+                <div style={{ marginBottom: 8, padding: '6px 0', borderTop: '1px solid #e0e0e0' }}>
+                  <div><strong>Combined funding mix:</strong> {$(sandboxFundingMix.total)}</div>
+                  <FundingMixBar amounts={sandboxFundingMix} />
+                  <div style={{ marginTop: 4, fontSize: 11, color: '#555' }}>
+                    {sandboxFundingMix.districts.map((d) => (
+                      <div key={d.key} style={{ marginTop: 2 }}>
+                        {d.name}: local {$(d.revenues.local)} ({pct(d.shareOfCombinedLocal)} of combined local)
+                        {' · '}state {$(d.revenues.state)}
+                      </div>
+                    ))}
+                  </div>
+                  {sandboxFundingMix.missing.length > 0 && (
+                    <div style={{ fontSize: 11, color: '#e65100', marginTop: 2 }}>
+                      No revenue data: {sandboxFundingMix.missing.map(getDisplayName).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {sandboxAbsorption && (
+                <div style={{ marginBottom: 8, padding: '6px 0', borderTop: '1px solid #e0e0e0' }}>
+                  <strong>Hub building capacity</strong>{' '}
+                  <span style={{ fontSize: 11, color: '#777' }}>(all spoke students moved to {sandboxResult.hubName})</span>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 11, marginTop: 4 }}>
+                    <thead>
+                      <tr style={{ color: '#666', textAlign: 'right' }}>
+                        <th style={{ textAlign: 'left', fontWeight: 500 }}>Grades</th>
+                        <th style={{ fontWeight: 500 }}>Spoke students</th>
+                        <th style={{ fontWeight: 500 }}>Hub free seats</th>
+                        <th style={{ fontWeight: 500 }}>Shortfall</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sandboxAbsorption.bands.map((b) => (
+                        <tr key={b.band} style={{ borderTop: '1px solid #eee', textAlign: 'right' }}>
+                          <td style={{ textAlign: 'left' }}>{b.label}</td>
+                          <td>{Math.round(b.spokeStudents).toLocaleString()}</td>
+                          <td style={{ color: b.hubFreeSeats < 0 ? '#c62828' : undefined }}>{Math.round(b.hubFreeSeats).toLocaleString()}</td>
+                          <td style={{ color: b.shortfall > 0 ? '#c62828' : '#2e7d32', fontWeight: 600 }}>
+                            {b.shortfall > 0 ? Math.round(b.shortfall).toLocaleString() : 'fits'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {sandboxAbsorption.schoolsMissingCapacity.length > 0 && (
+                    <div style={{ fontSize: 11, color: '#e65100', marginTop: 2 }}>
+                      No capacity data for {sandboxAbsorption.schoolsMissingCapacity.length} hub school(s):{' '}
+                      {sandboxAbsorption.schoolsMissingCapacity.join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {sandboxResult.warnings.length > 0 && (
                 <div
                   style={{
@@ -974,10 +1705,129 @@ export default function Sidebar({
                   ))}
                 </div>
               )}
+
+              {budgets && leaEnrollment && anchors && (
+                <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+                  <button
+                    onClick={() => {
+                      const html = buildScenarioReport({
+                        title: `Consolidation estimate: ${sandboxDistrictKeys.map(getDisplayName).join(', ')}`,
+                        keys: sandboxDistrictKeys,
+                        result: sandboxResult,
+                        params: consolidationParams,
+                        budgets,
+                        enrollments: leaEnrollment,
+                        anchors,
+                        districts,
+                        enrollmentYear,
+                        nameOf: getDisplayName,
+                        url: window.location.href,
+                      });
+                      if (!openPrintableReport(html)) alert('Allow pop-ups for this site to open the report.');
+                    }}
+                    style={{ ...exportButtonStyle, flex: 1 }}
+                  >
+                    Generate report (print / PDF)
+                  </button>
+                  {(['csv', 'xlsx'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadSandboxSheets(format)}
+                      title={`Download the full result, spoke breakdown and warnings as ${format.toUpperCase()}`}
+                      style={exportButtonStyle}
+                    >
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {budgets && leaEnrollment && anchors && (
+                <SensitivityPanel
+                  keys={sandboxDistrictKeys}
+                  budgets={budgets}
+                  enrollments={leaEnrollment}
+                  anchors={anchors}
+                  params={consolidationParams}
+                  travel={travelMatrix}
+                />
+              )}
+
+              <ProjectionPanel
+                result={sandboxResult}
+                enrollmentPath={sandboxEnrollmentPath}
+                salaryHarmonizationCost={
+                  sandboxResultV2?.ok
+                    ? sandboxResultV2.components.find((c) => c.id === 'salaryHarmonization')?.costs ?? 0
+                    : 0
+                }
+              />
+
+              {sandboxResultV2?.ok && (
+                <ConsolidationV2Panel
+                  result={sandboxResultV2}
+                  params={consolidationParams}
+                  setParams={setConsolidationParams}
+                />
+              )}
+
+              {budgets && leaEnrollment && anchors && (
+                <HubComparisonPanel
+                  keys={sandboxDistrictKeys}
+                  budgets={budgets}
+                  enrollments={leaEnrollment}
+                  anchors={anchors}
+                  params={consolidationParams}
+                  setParams={setConsolidationParams}
+                  geo={sandboxGeo}
+                  travel={travelMatrix}
+                />
+              )}
             </div>
           ) : null}
+
+          <ScenariosPanel
+            keys={sandboxDistrictKeys}
+            params={consolidationParams}
+            closedSchoolIds={closedSchoolIds}
+            enrollmentYear={enrollmentYear}
+            setKeys={setSandboxDistrictKeys}
+            setParams={setConsolidationParams}
+            setClosedSchoolIds={setClosedSchoolIds}
+            diffData={scenarioDiffData}
+            nameOf={getDisplayName}
+          />
         </div>
 
+        <OptimizerPanel
+          districts={districts}
+          allSchools={allSchools}
+          schoolEnrollment={schoolEnrollment}
+          budgets={budgets}
+          leaEnrollment={leaEnrollment}
+          anchors={anchors}
+          travelMatrix={travelMatrix}
+          adjacencyGraph={adjacency}
+          params={consolidationParams}
+          districtOptions={districtOptions}
+          result={optimizerResult}
+          setResult={setOptimizerResult}
+          onLoadGroup={setSandboxDistrictKeys}
+        />
+
+        <SchoolClosurePanel
+          allSchools={allSchools}
+          schoolEnrollment={schoolEnrollment}
+          budgets={budgets}
+          schoolCapacity={schoolCapacity}
+          travelMatrix={travelMatrix}
+          selectedSchool={selectedSchool}
+          closedSchoolIds={closedSchoolIds}
+          setClosedSchoolIds={setClosedSchoolIds}
+        />
+
+        <DataExportPanel budgets={budgets} leaEnrollment={leaEnrollment} anchors={anchors} nameOf={getDisplayName} />
+
         {error && (
           <div style={{ color: '#c62828', fontSize: 14, marginBottom: 16 }}>{error}</div>
         )}
@@ -1002,6 +1852,9 @@ export default function Sidebar({
             {districtEnrollment ? (
               <div style={{ fontSize: 14, marginBottom: 8 }}>
                 <strong>Total enrollment:</strong> {(districtEnrollment.total ?? 0).toLocaleString()}
+                {mapDistrictKey && enrollmentHistory?.[mapDistrictKey] && (
+                  <EnrollmentHistoryLine totals={enrollmentHistory[mapDistrictKey]} currentYear={snapshotYear} />
+                )}
                 {districtEnrollment.elem_enrollment != null && districtEnrollment.sec_enrollment != null && (
                   <div style={{ fontSize: 12, color: '#555', marginTop: 2 }}>
                     Elem (PK–8): {districtEnrollment.elem_enrollment.toLocaleString()} · Sec (9–12): {districtEnrollment.sec_enrollment.toLocaleString()}
@@ -1021,16 +1874,25 @@ export default function Sidebar({
                     <GenderSplit demographics={districtEnrollment.demographics} total={districtEnrollment.total ?? 0} />
                   </>
                 )}
+                {districtForecast && (
+                  <EnrollmentForecastPanel
+                    years={districtForecast.years}
+                    baseYear={snapshotYear}
+                    entryGrowth={districtForecast.entryGrowth}
+                    params={forecastParams}
+                    setParams={setForecastParams}
+                  />
+                )}
               </div>
             ) : (
               <div style={{ fontSize: 13, color: '#555', marginBottom: 8 }}>
                 {enrollmentLoadError
                   ? `Enrollment JSON not found: ${enrollmentLoadError}`
                   : leaEnrollment && Object.keys(leaEnrollment).length === 0
-                    ? 'Enrollment data empty. Place RIDE Oct 2024 CSVs in data/enrollment/ and run: npm run build:enrollment'
+                    ? 'Enrollment data empty. Place RIDE October CSVs in data/enrollment/ and run: npm run build:enrollment'
                     : leaEnrollment
-                      ? 'Enrollment not found for this district (Oct 2024 RIDE).'
-                      : 'Enrollment data not loaded. Place RIDE Oct 2024 CSVs in data/enrollment/ and run: npm run build:enrollment'}
+                      ? `Enrollment not found for this district (Oct ${snapshotYear} RIDE).`
+                      : 'Enrollment data not loaded. Place RIDE October CSVs in data/enrollment/ and run: npm run build:enrollment'}
               </div>
             )}
             {districtBudget && (() => {
@@ -1059,6 +1921,34 @@ export default function Sidebar({
                     {' · '}
                     Program/Ops Mgmt: ${districtBudget.componentsModel.programOperationsManagement.toLocaleString()}
                   </div>
+                  {districtBudget.history?.length > 1 && (
+                    <BudgetTrends
+                      history={districtBudget.history}
+                      enrollmentByYear={mapDistrictKey ? enrollmentHistory?.[mapDistrictKey] ?? null : null}
+                    />
+                  )}
+                  {districtBudget.expenditureCategories && (
+                    <CategoryBreakdown
+                      key={districtBudget.sourceFile}
+                      tree={districtBudget.expenditureCategories}
+                      defaultYear={districtBudget.fiscalYear}
+                    />
+                  )}
+                  {districtBudget.revenues && (
+                    <div style={{ marginTop: 8 }}>
+                      <strong>Revenues</strong> <span style={{ color: '#555' }}>({districtBudget.revenues.fiscalYear})</span>
+                      <div style={{ marginTop: 2, color: '#333' }}>
+                        Total revenues: ${Math.round(districtBudget.revenues.total).toLocaleString()}
+                      </div>
+                      <FundingMixBar amounts={districtBudget.revenues} />
+                      <CategoryBreakdown
+                        key={`rev-${districtBudget.sourceFile}`}
+                        tree={districtBudget.revenueCategories}
+                        defaultYear={districtBudget.revenues.fiscalYear}
+                        title="Revenue by source"
+                      />
+                    </div>
+                  )}
                   {districtBudget.flags.length > 0 && (
                     <div style={{ fontSize: 11, color: '#c62828', marginTop: 4 }}>
                       Flags: {districtBudget.flags.join(', ')}
@@ -1067,7 +1957,17 @@ export default function Sidebar({
                 </div>
               );
             })()}
-            <div style={{ fontSize: 14 }}>
+            <PeerDistrictsPanel
+              result={peerResult}
+              open={showPeers}
+              setOpen={setShowPeers}
+              params={peerParams}
+              setParams={setPeerParams}
+              nameOf={getDisplayName}
+              adminShare={districtBudget?.adminShareOfTotalModel ?? null}
+              perPupil={districtBudget && districtEnrollment?.total ? districtBudget.totalExpenditures / districtEnrollment.total : null}
+            />
+            <div style={{ fontSize: 14, marginTop: 8 }}>
               Public: {districtCounts.public} · Private: {districtCounts.private}
             </div>
             <button
@@ -1108,6 +2008,23 @@ export default function Sidebar({
             {schoolEnrollmentData ? (
               <div style={{ fontSize: 14 }}>
                 <strong>Total enrollment:</strong> {(schoolEnrollmentData.total ?? 0).toLocaleString()}
+                {schoolCapacityData && (
+                  <div style={{ fontSize: 12, color: '#555', marginTop: 2 }}>
+                    Capacity: {schoolCapacityData.capacity.toLocaleString()}
+                    {schoolCapacityData.utilization != null && (
+                      <>
+                        {' · '}
+                        <span style={{ color: schoolCapacityData.utilization > 1 ? '#c62828' : '#2e7d32', fontWeight: 600 }}>
+                          {(schoolCapacityData.utilization * 100).toFixed(0)}% utilized
+                        </span>
+                        {' · '}
+                        {schoolCapacityData.freeSeats! >= 0
+                          ? `${schoolCapacityData.freeSeats!.toLocaleString()} open seats`
+                          : `${Math.abs(schoolCapacityData.freeSeats!).toLocaleString()} over capacity`}
+                      </>
+                    )}
+                  </div>
+                )}
                 {(schoolEnrollmentData.FRL != null || schoolEnrollmentData.LEP != null || schoolEnrollmentData.IEP != null || schoolEnrollmentData.VOCED != null) && (
                   <div style={{ fontSize: 12, color: '#555', marginTop: 4 }}>
                     {schoolEnrollmentData.FRL != null && `FRL: ${schoolEnrollmentData.FRL.toLocaleString()}`}
@@ -1122,10 +2039,20 @@ export default function Sidebar({
                     <GenderSplit demographics={schoolEnrollmentData.demographics} total={schoolEnrollmentData.total ?? 0} />
                   </>
                 )}
+                {schoolForecast && (
+                  <EnrollmentForecastPanel
+                    years={schoolForecast.years}
+                    baseYear={snapshotYear}
+                    entryGrowth={schoolForecast.entryGrowth}
+                    params={forecastParams}
+                    setParams={setForecastParams}
+                    note={`School keeps its current share of each ${schoolForecast.districtName} grade.`}
+                  />
+                )}
               </div>
             ) : (
               <div style={{ fontSize: 13, color: '#666' }}>
-                Enrollment not found for this school (Oct 2024 RIDE).
+                Enrollment not found for this school (Oct {snapshotYear} RIDE).
               </div>
             )}
             <button
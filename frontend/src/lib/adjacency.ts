@@ -0,0 +1,191 @@
+/**
+ * District adjacency from boundary polygons. Two districts are neighbours when
+ * their rings share at least two vertices (a shared border segment; a single
+ * shared vertex is a corner touch). TIGER boundaries extend into open water,
+ * so districts facing each other across a bay count as neighbours.
+ *
+ * Nested districts (an elementary district inside a secondary regional one)
+ * share their whole border with the regional district; they are reported in
+ * `nestedIn` rather than as neighbours.
+ *
+ * scripts/build-district-adjacency.ts ships the same graph pre-built with the
+ * water-only borders flagged; the sandbox and the optimizer use it for
+ * contiguity checks, with buildAdjacency as the fallback when it is missing.
+ */
+
+import type { DistrictFeature } from '../types';
+import { districtKey } from './enrollment';
+import { districtContains, sampleDistrictGrid } from './transportModel';
+
+export interface DistrictAdjacency {
+  /** districtKey → neighbouring districtKeys (sorted). */
+  neighbors: Record<string, string[]>;
+  /** Elementary districtKey → the regional districtKey that contains it. */
+  nestedIn: Record<string, string>;
+}
+
+const VERTEX_PRECISION = 1e5;
+const MIN_SHARED_VERTICES = 2;
+
+function vertexSet(feature: DistrictFeature): Set<string> {
+  const coords = feature.geometry.coordinates as unknown;
+  const polygons = feature.geometry.type === 'Polygon' ? [coords as number[][][]] : (coords as number[][][][]);
+  const out = new Set<string>();
+  for (const poly of polygons) {
+    for (const ring of poly) {
+      for (const [lon, lat] of ring) {
+        out.add(`${Math.round(lon * VERTEX_PRECISION)},${Math.round(lat * VERTEX_PRECISION)}`);
+      }
+    }
+  }
+  return out;
+}
+
+function featureKey(f: DistrictFeature): string {
+  return districtKey(f.properties.district_name ?? f.properties.name ?? '');
+}
+
+/** True when an interior point of `inner` lies inside `outer`. */
+function isNested(inner: DistrictFeature, outer: DistrictFeature): boolean {
+  const p = sampleDistrictGrid(inner)[0];
+  return districtContains(outer, p.lon, p.lat);
+}
+
+export function buildAdjacency(features: DistrictFeature[]): DistrictAdjacency {
+  const entries = features
+    .map((f) => ({ key: featureKey(f), feature: f, level: f.properties.district_level ?? 'unified', vertices: vertexSet(f) }))
+    .filter((e) => e.key);
+  const neighbors: Record<string, Set<string>> = {};
+  const nestedIn: Record<string, string> = {};
+  for (const e of entries) neighbors[e.key] = new Set();
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (a.key === b.key) continue;
+      let shared = 0;
+      const [small, large] = a.vertices.size < b.vertices.size ? [a.vertices, b.vertices] : [b.vertices, a.vertices];
+      for (const v of small) {
+        if (large.has(v) && ++shared >= MIN_SHARED_VERTICES) break;
+      }
+      if (shared < MIN_SHARED_VERTICES) continue;
+
+      if (a.level === 'elementary' && b.level === 'secondary' && isNested(a.feature, b.feature)) nestedIn[a.key] = b.key;
+      else if (b.level === 'elementary' && a.level === 'secondary' && isNested(b.feature, a.feature)) nestedIn[b.key] = a.key;
+      else {
+        neighbors[a.key].add(b.key);
+        neighbors[b.key].add(a.key);
+      }
+    }
+  }
+
+  return {
+    neighbors: Object.fromEntries(Object.entries(neighbors).map(([k, s]) => [k, [...s].sort()])),
+    nestedIn,
+  };
+}
+
+/** Graph shipped by scripts/build-district-adjacency.ts. */
+export interface DistrictAdjacencyGraph extends DistrictAdjacency {
+  /** Subset of `neighbors` that only touch across open water. */
+  waterNeighbors: Record<string, string[]>;
+  /** Bridge or ferry per water pair, keyed "a|b" with a < b. */
+  waterCrossings: Record<string, string>;
+}
+
+export async function loadDistrictAdjacency(): Promise<DistrictAdjacencyGraph> {
+  const res = await fetch('/geo/district-adjacency.json');
+  const ct = res.headers.get('content-type') ?? '';
+  if (!res.ok || ct.includes('text/html')) throw new Error(`District adjacency not available: ${res.status}`);
+  return (await res.json()) as DistrictAdjacencyGraph;
+}
+
+/** The graph with water-only borders removed, for land contiguity (e.g. the optimizer). */
+export function landAdjacency(graph: DistrictAdjacencyGraph): DistrictAdjacency {
+  return {
+    neighbors: Object.fromEntries(
+      Object.entries(graph.neighbors).map(([k, ns]) => [k, ns.filter((n) => !graph.waterNeighbors[k]?.includes(n))]),
+    ),
+    nestedIn: graph.nestedIn,
+  };
+}
+
+function linked(a: string, b: string, graph: DistrictAdjacencyGraph, acrossWater: boolean): boolean {
+  if (graph.nestedIn[a] === b || graph.nestedIn[b] === a) return true;
+  if (!graph.neighbors[a]?.includes(b)) return false;
+  return acrossWater || !graph.waterNeighbors[a]?.includes(b);
+}
+
+/** Split `keys` into connected groups; a nested district is connected to its regional district. */
+export function contiguousGroups(keys: string[], graph: DistrictAdjacencyGraph, acrossWater = false): string[][] {
+  const unique = [...new Set(keys)];
+  const seen = new Set<string>();
+  const groups: string[][] = [];
+  for (const start of unique) {
+    if (seen.has(start)) continue;
+    const group: string[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const k = queue.shift()!;
+      group.push(k);
+      for (const other of unique) {
+        if (!seen.has(other) && linked(k, other, graph, acrossWater)) {
+          seen.add(other);
+          queue.push(other);
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return groups;
+}
+
+/** Sandbox warning when the selected districts do not form one land-connected area; null when they do. */
+export function contiguityWarning(
+  keys: string[],
+  graph: DistrictAdjacencyGraph,
+  nameOf: (key: string) => string,
+): string | null {
+  const land = contiguousGroups(keys, graph);
+  if (land.length <= 1) return null;
+  const names = land.map((g) => g.map(nameOf).join(', ')).join(' / ');
+  return contiguousGroups(keys, graph, true).length === 1
+    ? `Contiguity: these parts touch only across water (${names})`
+    : `Contiguity: selected districts are not contiguous (${names})`;
+}
+
+export interface NeighborSuggestion {
+  key: string;
+  /** True when every shared border with the selection is across water. */
+  water: boolean;
+  /** Bridge or ferry for a water-only neighbor, when known. */
+  via?: string;
+}
+
+/**
+ * Districts bordering any of `keys` that are not already selected, plus the
+ * regional district a selected one is nested in (and vice versa); land
+ * neighbors first.
+ */
+export function suggestNeighbors(keys: string[], graph: DistrictAdjacencyGraph): NeighborSuggestion[] {
+  const selected = new Set(keys);
+  const found = new Map<string, NeighborSuggestion>();
+  const nested = Object.entries(graph.nestedIn);
+  for (const k of selected) {
+    const candidates = [
+      ...(graph.neighbors[k] ?? []),
+      ...nested.filter(([child, parent]) => child === k || parent === k).map(([child, parent]) => (child === k ? parent : child)),
+    ];
+    for (const n of candidates) {
+      if (selected.has(n)) continue;
+      const water = graph.waterNeighbors[k]?.includes(n) ?? false;
+      const prev = found.get(n);
+      if (prev && !prev.water) continue;
+      const via = water ? graph.waterCrossings[k < n ? `${k}|${n}` : `${n}|${k}`] : undefined;
+      found.set(n, { key: n, water, ...(via ? { via } : prev?.via ? { via: prev.via } : {}) });
+    }
+  }
+  return [...found.values()].sort((a, b) => Number(a.water) - Number(b.water) || a.key.localeCompare(b.key));
+}
@@ -12,6 +12,53 @@ export interface BudgetComponents {
   programOperationsManagement: number;
 }
 
+/** Detail 2 rows used by the V2 consolidation components. null = row not present in the CSV. */
+export interface BudgetCategories {
+  faceToFaceTeaching: number | null;
+  schoolManagement: number | null;
+  businessServices: number | null;
+  facilities: number | null;
+}
+
+export interface BudgetLineItem {
+  name: string;
+  amount: number;
+  /** RIDE "% Difference from the previous fiscal year" for this row, as a fraction. */
+  pctChange: number | null;
+}
+
+/** One In$ite "Details" category with its "Detail 2" line items (sorted by amount). */
+export interface BudgetCategory {
+  name: string;
+  amount: number;
+  items: BudgetLineItem[];
+}
+
+/** Keyed by fiscal year label, e.g. "FY2024-25". */
+export type BudgetCategoryTree = Record<string, BudgetCategory[]>;
+
+/** Revenues by source. fiscalYear may differ from the expenditure year (see flags). */
+export interface RevenueSummary {
+  fiscalYear: string;
+  local: number;
+  state: number;
+  federal: number;
+  other: number;
+  total: number;
+}
+
+/** Headline figures for one fiscal year of the source file. */
+export interface BudgetYearSnapshot {
+  fiscalYear: string;
+  totalExpenditures: number | null;
+  /** RIDE "% Difference" on the Total row, as a fraction. */
+  totalPctChange: number | null;
+  districtManagement: number | null;
+  programOperationsManagement: number | null;
+  centralAdministration: number | null;
+  adminShareOfTotal: number | null;
+}
+
 export interface DistrictBudget {
   displayName: string;
   sourceFile: string;
@@ -23,11 +70,61 @@ export interface DistrictBudget {
   adminShareOfTotalModel: number | null;
   components: BudgetComponents;
   componentsModel: BudgetComponents;
+  categories: BudgetCategories;
+  expenditureCategories: BudgetCategoryTree;
+  revenueCategories: BudgetCategoryTree;
+  revenues: RevenueSummary | null;
+  /** Every fiscal year in the source file, oldest first. */
+  history: BudgetYearSnapshot[];
   flags: string[];
 }
 
 export type BudgetsMap = Record<string, DistrictBudget>;
 
+/** Fiscal years present in a category tree, oldest first. */
+export function treeFiscalYears(tree: BudgetCategoryTree | undefined): string[] {
+  return Object.keys(tree ?? {}).sort();
+}
+
+export type RevenueSource = 'local' | 'state' | 'federal' | 'other';
+
+export const REVENUE_SOURCES: RevenueSource[] = ['local', 'state', 'federal', 'other'];
+
+export interface FundingMixDistrict {
+  key: string;
+  name: string;
+  revenues: RevenueSummary;
+  /** This district's share of the combined local contribution. */
+  shareOfCombinedLocal: number;
+}
+
+export interface FundingMix {
+  local: number;
+  state: number;
+  federal: number;
+  other: number;
+  total: number;
+  districts: FundingMixDistrict[];
+  /** Selected districts without revenue data (excluded from the totals). */
+  missing: string[];
+}
+
+/** Combined funding mix of a set of districts, summed from each district's RevenueSummary. */
+export function combineFundingMix(keys: string[], budgets: BudgetsMap): FundingMix {
+  const mix: FundingMix = { local: 0, state: 0, federal: 0, other: 0, total: 0, districts: [], missing: [] };
+  for (const k of [...new Set(keys)]) {
+    const r = budgets[k]?.revenues;
+    if (!r || r.total <= 0) { mix.missing.push(k); continue; }
+    for (const src of REVENUE_SOURCES) mix[src] += r[src];
+    mix.total += r.total;
+    mix.districts.push({ key: k, name: budgets[k].displayName, revenues: r, shareOfCombinedLocal: 0 });
+  }
+  for (const d of mix.districts) {
+    d.shareOfCombinedLocal = mix.local > 0 ? d.revenues.local / mix.local : 0;
+  }
+  return mix;
+}
+
 export async function loadBudgets(): Promise<BudgetsMap> {
   const res = await fetch('/budgets/budgets.json');
   if (!res.ok) throw new Error(`Failed to load budgets: ${res.status} ${res.statusText}`);
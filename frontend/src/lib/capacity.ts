@@ -0,0 +1,173 @@
+/**
+ * School building capacity and utilization.
+ *
+ * school-capacity.json schema (scripts/build-school-capacity.ts):
+ *   { [ncesId]: SchoolCapacityEntry }
+ *
+ * The file carries utilization at build time; the app recomputes it against the
+ * enrollment year currently selected.
+ */
+
+import type { GeoJSONFC, SchoolFeature } from '../types';
+import { districtKey, schoolKey, type LeaEnrollmentMap, type SchoolEnrollmentMap } from './enrollment';
+import type { GradeBand } from './transportModel';
+
+export interface SchoolCapacityEntry {
+  capacity: number;
+  enrollment: number | null;
+  utilization: number | null;
+  enrollmentYear: number;
+  source?: string;
+  note?: string;
+}
+
+export type SchoolCapacityMap = Record<string, SchoolCapacityEntry>;
+
+export async function loadSchoolCapacity(): Promise<SchoolCapacityMap> {
+  const res = await fetch('/capacity/school-capacity.json');
+  const ct = res.headers.get('content-type') ?? '';
+  if (!res.ok || ct.includes('text/html')) throw new Error(`School capacity not available: ${res.status}`);
+  return (await res.json()) as SchoolCapacityMap;
+}
+
+/** Utilization color stops, shared by the map layer and the legend. */
+export const UTILIZATION_STOPS: { value: number; color: string; label: string }[] = [
+  { value: 0.6, color: '#1565c0', label: '≤60%' },
+  { value: 0.85, color: '#43a047', label: '85%' },
+  { value: 1.0, color: '#fdd835', label: '100%' },
+  { value: 1.15, color: '#c62828', label: '≥115%' },
+];
+
+export interface SchoolUtilization {
+  capacity: number;
+  enrollment: number | null;
+  utilization: number | null;
+  freeSeats: number | null;
+}
+
+export function schoolUtilization(
+  school: SchoolFeature,
+  capacity: SchoolCapacityMap,
+  schoolEnrollment: SchoolEnrollmentMap | null,
+): SchoolUtilization | null {
+  const p = school.properties;
+  const entry = p.nces_id ? capacity[p.nces_id] : undefined;
+  if (!entry) return null;
+  const current = schoolEnrollment?.[schoolKey(p.district_name ?? '', p.name)]?.total;
+  const enrollment = schoolEnrollment ? (current != null && current > 0 ? current : null) : entry.enrollment;
+  return {
+    capacity: entry.capacity,
+    enrollment,
+    utilization: enrollment != null ? enrollment / entry.capacity : null,
+    freeSeats: enrollment != null ? entry.capacity - enrollment : null,
+  };
+}
+
+/** Copy of the schools collection with a `utilization` property on schools that have one. */
+export function withUtilization(
+  schools: GeoJSONFC<SchoolFeature>,
+  capacity: SchoolCapacityMap,
+  schoolEnrollment: SchoolEnrollmentMap | null,
+): GeoJSONFC<SchoolFeature> {
+  return {
+    type: 'FeatureCollection',
+    features: schools.features.map((f) => {
+      const u = schoolUtilization(f, capacity, schoolEnrollment);
+      return u?.utilization != null ? { ...f, properties: { ...f.properties, utilization: u.utilization } } : f;
+    }),
+  };
+}
+
+/** Grade numbers use -1 for PK and 0 for K, matching SchoolProperties.grades_low/high. */
+const BAND_SPANS: { band: GradeBand; label: string; low: number; high: number; grades: string[] }[] = [
+  { band: 'elementary', label: 'PK–5', low: -1, high: 5, grades: ['PK', 'PF', 'KF', 'G01', 'G02', 'G03', 'G04', 'G05'] },
+  { band: 'middle', label: '6–8', low: 6, high: 8, grades: ['G06', 'G07', 'G08'] },
+  { band: 'high', label: '9–12', low: 9, high: 12, grades: ['G09', 'G10', 'G11', 'G12'] },
+];
+
+/** Share of a school's grade span that falls in each band (equal weight per grade). */
+function bandShares(school: SchoolFeature): Record<GradeBand, number> {
+  const lo = school.properties.grades_low ?? -1;
+  const hi = school.properties.grades_high ?? 12;
+  const span = Math.max(1, hi - lo + 1);
+  const out = { elementary: 0, middle: 0, high: 0 };
+  for (const b of BAND_SPANS) {
+    const overlap = Math.min(hi, b.high) - Math.max(lo, b.low) + 1;
+    if (overlap > 0) out[b.band] = overlap / span;
+  }
+  return out;
+}
+
+export interface AbsorptionBand {
+  band: GradeBand;
+  label: string;
+  /** Spoke-district students in this band. */
+  spokeStudents: number;
+  hubCapacity: number;
+  hubEnrollment: number;
+  /** hubCapacity − hubEnrollment (negative when already over capacity). */
+  hubFreeSeats: number;
+  /** spokeStudents − hubFreeSeats when positive. */
+  shortfall: number;
+}
+
+export interface AbsorptionCheck {
+  bands: AbsorptionBand[];
+  /** Hub-district public schools with capacity data. */
+  schoolsWithCapacity: number;
+  /** Hub-district public schools without capacity (or enrollment); their seats are unknown. */
+  schoolsMissingCapacity: string[];
+}
+
+/**
+ * Can the hub district's buildings take every spoke student? Seats and
+ * enrollment of schools spanning several bands are split evenly across the
+ * grades they serve.
+ */
+export function checkHubAbsorption(
+  hubKey: string,
+  spokeKeys: string[],
+  schools: SchoolFeature[],
+  capacity: SchoolCapacityMap,
+  schoolEnrollment: SchoolEnrollmentMap | null,
+  enrollments: LeaEnrollmentMap,
+): AbsorptionCheck | null {
+  const hubSchools = schools.filter(
+    (s) => s.properties.school_type === 'public' && districtKey(s.properties.district_name ?? '') === hubKey,
+  );
+  const seats = { elementary: { capacity: 0, enrollment: 0 }, middle: { capacity: 0, enrollment: 0 }, high: { capacity: 0, enrollment: 0 } };
+  let withCapacity = 0;
+  const missing: string[] = [];
+  for (const s of hubSchools) {
+    const u = schoolUtilization(s, capacity, schoolEnrollment);
+    if (!u || u.enrollment == null) {
+      missing.push(s.properties.name);
+      continue;
+    }
+    withCapacity++;
+    const shares = bandShares(s);
+    for (const b of BAND_SPANS) {
+      seats[b.band].capacity += u.capacity * shares[b.band];
+      seats[b.band].enrollment += u.enrollment * shares[b.band];
+    }
+  }
+  if (withCapacity === 0) return null;
+
+  const bands = BAND_SPANS.map((b): AbsorptionBand => {
+    const spokeStudents = spokeKeys.reduce(
+      (sum, k) => sum + b.grades.reduce((s, g) => s + (enrollments[k]?.grades?.[g] ?? 0), 0),
+      0,
+    );
+    const hubFreeSeats = seats[b.band].capacity - seats[b.band].enrollment;
+    return {
+      band: b.band,
+      label: b.label,
+      spokeStudents,
+      hubCapacity: seats[b.band].capacity,
+      hubEnrollment: seats[b.band].enrollment,
+      hubFreeSeats,
+      shortfall: Math.max(0, spokeStudents - hubFreeSeats),
+    };
+  });
+  return { bands, schoolsWithCapacity: withCapacity, schoolsMissingCapacity: missing };
+}
@@ -0,0 +1,275 @@
+/**
+ * District choropleth: per-district metric values, class breaks
+ * (quantile, equal interval or Jenks natural breaks) and the resulting
+ * fill color per district GEOID plus legend entries for the map.
+ */
+
+import type { DistrictFeature } from '../types';
+import type { BudgetsMap } from './budgets';
+import { districtKey, type EnrollmentHistory, type LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { TravelMatrix } from './geoDistance';
+import { computeConsolidationV1, type ConsolidationParamsV1 } from './consolidationV1';
+
+export type ChoroplethMetric =
+  | 'perPupil'
+  | 'adminShare'
+  | 'enrollment'
+  | 'frlRate'
+  | 'lepRate'
+  | 'iepRate'
+  | 'enrollmentChange'
+  | 'sandboxNetImpact';
+
+export type ClassificationMethod = 'quantile' | 'equal' | 'jenks';
+
+export const CHOROPLETH_METRICS: {
+  id: ChoroplethMetric;
+  label: string;
+  format: 'money' | 'percent' | 'count';
+  /** Red (low) to green (high) palette instead of light-to-dark blue. */
+  diverging?: boolean;
+}[] = [
+  { id: 'perPupil', label: 'Per-pupil spending', format: 'money' },
+  { id: 'adminShare', label: 'Central admin share (model)', format: 'percent' },
+  { id: 'enrollment', label: 'Enrollment', format: 'count' },
+  { id: 'frlRate', label: 'FRL %', format: 'percent' },
+  { id: 'lepRate', label: 'LEP %', format: 'percent' },
+  { id: 'iepRate', label: 'IEP %', format: 'percent' },
+  { id: 'enrollmentChange', label: 'Enrollment change', format: 'percent', diverging: true },
+  { id: 'sandboxNetImpact', label: 'Sandbox net impact if added', format: 'money', diverging: true },
+];
+
+export const CLASSIFICATION_METHODS: { id: ClassificationMethod; label: string }[] = [
+  { id: 'quantile', label: 'Quantile' },
+  { id: 'equal', label: 'Equal interval' },
+  { id: 'jenks', label: 'Natural breaks (Jenks)' },
+];
+
+const SEQUENTIAL = ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'];
+const DIVERGING = ['#d7191c', '#fdae61', '#ffffbf', '#a6d96a', '#1a9641'];
+export const NO_DATA_COLOR = '#e0e0e0';
+const CLASSES = 5;
+
+// --- Classification: each returns k + 1 ascending edges from min to max ---
+
+export function equalIntervalBreaks(values: number[], k: number): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return Array.from({ length: k + 1 }, (_, i) => min + ((max - min) * i) / k);
+}
+
+export function quantileBreaks(values: number[], k: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => {
+    const pos = q * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    return sorted[lo] + (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]) * (pos - lo);
+  };
+  return Array.from({ length: k + 1 }, (_, i) => at(i / k));
+}
+
+/** Fisher–Jenks natural breaks (minimizes within-class squared deviation). */
+export function jenksBreaks(values: number[], k: number): number[] {
+  const data = [...values].sort((a, b) => a - b);
+  const n = data.length;
+  // lower[i][j]: 1-based index where the last class starts in the best split of the first i values into j classes.
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(0));
+  const variance = Array.from({ length: n + 1 }, () => new Array<number>(k + 1).fill(Infinity));
+  for (let j = 1; j <= k; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+  for (let i = 2; i <= n; i++) {
+    let sum = 0;
+    let sumSq = 0;
+    let w = 0;
+    let v = 0;
+    for (let m = 1; m <= i; m++) {
+      const lowIdx = i - m + 1;
+      const val = data[lowIdx - 1];
+      w++;
+      sum += val;
+      sumSq += val * val;
+      v = sumSq - (sum * sum) / w;
+      if (lowIdx > 1) {
+        for (let j = 2; j <= k; j++) {
+          if (variance[i][j] >= v + variance[lowIdx - 1][j - 1]) {
+            lower[i][j] = lowIdx;
+            variance[i][j] = v + variance[lowIdx - 1][j - 1];
+          }
+        }
+      }
+    }
+    lower[i][1] = 1;
+    variance[i][1] = v;
+  }
+  // Walk back from the last class; each inner edge is the upper value of the class below.
+  const breaks = new Array<number>(k + 1);
+  breaks[0] = data[0];
+  breaks[k] = data[n - 1];
+  let end = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lower[end][j] - 1;
+    breaks[j - 1] = data[start - 1];
+    end = start;
+  }
+  return breaks;
+}
+
+export function classBreaks(values: number[], k: number, method: ClassificationMethod): number[] {
+  if (method === 'equal') return equalIntervalBreaks(values, k);
+  if (method === 'jenks') return jenksBreaks(values, k);
+  return quantileBreaks(values, k);
+}
+
+/** Index of the class a value falls in, given k + 1 edges (upper edges inclusive). */
+function classOf(v: number, breaks: number[]): number {
+  for (let i = 1; i < breaks.length - 1; i++) if (v <= breaks[i]) return i - 1;
+  return breaks.length - 2;
+}
+
+// --- Metric values ---
+
+export interface ChoroplethData {
+  budgets: BudgetsMap | null;
+  enrollments: LeaEnrollmentMap | null;
+  history: EnrollmentHistory | null;
+  /** October year shown; enrollment change runs from the earliest year in history to this one. */
+  enrollmentYear: number | null;
+  anchors: DistrictAnchorsMap | null;
+  sandboxKeys: string[];
+  params: ConsolidationParamsV1;
+  travel: TravelMatrix | null;
+}
+
+/** Distinct October years in the enrollment history; enrollmentChange needs at least two. */
+export function historyYearCount(history: EnrollmentHistory | null): number {
+  if (!history) return 0;
+  return new Set(Object.values(history).flatMap((years) => Object.keys(years))).size;
+}
+
+/** Value per district key; districts without data are left out. */
+export function choroplethValues(metric: ChoroplethMetric, keys: string[], data: ChoroplethData): Map<string, number> {
+  const { budgets, enrollments, history, anchors } = data;
+  const out = new Map<string, number>();
+  const rate = (field: 'FRL' | 'LEP' | 'IEP', k: string) => {
+    const e = enrollments?.[k];
+    return e?.total && e[field] != null ? e[field]! / e.total : null;
+  };
+  const firstYear = history
+    ? Math.min(...Object.values(history).flatMap((years) => Object.keys(years).map(Number)))
+    : null;
+
+  for (const k of keys) {
+    let v: number | null = null;
+    const b = budgets?.[k];
+    const e = enrollments?.[k];
+    switch (metric) {
+      case 'perPupil':
+        v = b && e?.total ? b.totalExpenditures / e.total : null;
+        break;
+      case 'adminShare':
+        v = b?.adminShareOfTotalModel ?? null;
+        break;
+      case 'enrollment':
+        v = e?.total ?? null;
+        break;
+      case 'frlRate':
+        v = rate('FRL', k);
+        break;
+      case 'lepRate':
+        v = rate('LEP', k);
+        break;
+      case 'iepRate':
+        v = rate('IEP', k);
+        break;
+      case 'enrollmentChange': {
+        const years = history?.[k];
+        const start = firstYear != null ? years?.[String(firstYear)] : undefined;
+        const end = data.enrollmentYear != null ? years?.[String(data.enrollmentYear)] ?? e?.total : e?.total;
+        v = start && end != null && data.enrollmentYear !== firstYear ? (end - start) / start : null;
+        break;
+      }
+      case 'sandboxNetImpact': {
+        if (!budgets || !enrollments || !anchors || data.sandboxKeys.length === 0) break;
+        const merged = data.sandboxKeys.includes(k) ? data.sandboxKeys : [...data.sandboxKeys, k];
+        if (merged.length < 2) break;
+        const r = computeConsolidationV1(merged, budgets, enrollments, anchors, data.params, data.travel);
+        v = r.ok ? r.netImpact : null;
+        break;
+      }
+    }
+    if (v != null && Number.isFinite(v)) out.set(k, v);
+  }
+  return out;
+}
+
+// --- Map styling ---
+
+export interface ChoroplethLegendEntry {
+  color: string;
+  from: number;
+  to: number;
+}
+
+export interface DistrictChoropleth {
+  metric: ChoroplethMetric;
+  label: string;
+  format: 'money' | 'percent' | 'count';
+  /** Fill color per district GEOID; districts without data are absent. */
+  colorsByGeoid: Record<string, string>;
+  legend: ChoroplethLegendEntry[];
+  noDataCount: number;
+}
+
+export function buildChoropleth(
+  districts: DistrictFeature[],
+  metric: ChoroplethMetric,
+  method: ClassificationMethod,
+  data: ChoroplethData,
+): DistrictChoropleth | null {
+  const def = CHOROPLETH_METRICS.find((m) => m.id === metric);
+  if (!def) return null;
+  const geoidsByKey = new Map<string, string[]>();
+  for (const f of districts) {
+    const key = districtKey(f.properties.district_name ?? f.properties.name ?? '');
+    const geoid = f.properties.district_geoid ?? f.properties.geoid ?? '';
+    if (!geoid) continue;
+    geoidsByKey.set(key, [...(geoidsByKey.get(key) ?? []), geoid]);
+  }
+  const values = choroplethValues(metric, [...geoidsByKey.keys()], data);
+  const all = [...values.values()];
+  // Ties can produce repeated edges (e.g. quantiles of mostly equal values); drop the empty classes.
+  const breaks = all.length > 0 ? [...new Set(classBreaks(all, Math.min(CLASSES, new Set(all).size), method))] : [];
+  const k = Math.max(breaks.length - 1, all.length > 0 ? 1 : 0);
+  const palette = def.diverging ? DIVERGING : SEQUENTIAL;
+  // Spread fewer classes across the whole palette so contrast is kept.
+  const colors = Array.from({ length: k }, (_, i) => palette[k === 1 ? palette.length - 1 : Math.round((i * (palette.length - 1)) / (k - 1))]);
+
+  const colorsByGeoid: Record<string, string> = {};
+  let noDataCount = 0;
+  for (const [key, geoids] of geoidsByKey) {
+    const v = values.get(key);
+    if (v == null) noDataCount++;
+    else for (const g of geoids) colorsByGeoid[g] = colors[k === 1 ? 0 : classOf(v, breaks)];
+  }
+  return {
+    metric,
+    label: def.label,
+    format: def.format,
+    colorsByGeoid,
+    legend: colors.map((color, i) => ({ color, from: breaks[i], to: breaks[i + 1] ?? breaks[i] })),
+    noDataCount,
+  };
+}
+
+export function formatChoroplethValue(v: number, format: DistrictChoropleth['format']): string {
+  if (format === 'percent') return `${(v * 100).toFixed(1)}%`;
+  if (format === 'money') {
+    const abs = Math.abs(v);
+    const sign = v < 0 ? '-' : '';
+    return abs >= 1e6 ? `${sign}$${(abs / 1e6).toFixed(1)}M` : abs >= 1e4 ? `${sign}$${Math.round(abs / 1e3)}k` : `${sign}$${Math.round(abs).toLocaleString()}`;
+  }
+  return Math.round(v).toLocaleString();
+}
@@ -1,12 +1,19 @@
 import type { BudgetsMap } from './budgets';
 import type { LeaEnrollmentMap } from './enrollment';
 import type { DistrictAnchorsMap } from './anchors';
-import { milesBetween } from './geoDistance';
+import { anchorPointId, travelBetween, type TravelMatrix } from './geoDistance';
+import { selectHub, type HubStrategy } from './hubSelection';
+import type { UncertaintySummary } from './monteCarlo';
+
+export { pickHubByEnrollment } from './hubSelection';
 
 export interface ConsolidationParamsV1 {
   adminReductionRate: number;
   costPerStudentMile: number;
   affectedShare: number;
+  /** Used when no hub is pinned (or the pinned hub is not selected). */
+  hubStrategy: HubStrategy;
+  pinnedHubKey: string | null;
 }
 
 export interface SpokeDetail {
@@ -14,12 +21,15 @@ export interface SpokeDetail {
   name: string;
   enrollment: number;
   distanceMiles: number;
+  /** 'haversine' when no road distance was available for this pair. */
+  distanceSource: 'road' | 'haversine';
   cost: number;
 }
 
 export interface ConsolidationResultV1 {
   hubKey: string;
   hubName: string;
+  hubMethod: HubStrategy | 'pinned';
   combinedEnrollment: number;
   combinedSpending: number;
   hubSpending: number;
@@ -42,9 +52,11 @@ export interface ConsolidationResultV1 {
   warnings: string[];
   missing: { budgets: string[]; enrollment: string[]; anchors: string[] };
   ok: boolean;
+  /** Monte Carlo bands on netImpact; set by the sandbox in probabilistic mode. */
+  uncertainty?: UncertaintySummary;
 }
 
-function clamp(v: number, lo: number, hi: number): number {
+export function clamp(v: number, lo: number, hi: number): number {
   return Math.max(lo, Math.min(hi, v));
 }
 
@@ -54,6 +66,7 @@ export function computeConsolidationV1(
   enrollments: LeaEnrollmentMap,
   anchors: DistrictAnchorsMap,
   params: ConsolidationParamsV1,
+  matrix?: TravelMatrix | null,
 ): ConsolidationResultV1 {
   const rate = clamp(params.adminReductionRate, 0, 1);
   const cpsm = Math.max(0, params.costPerStudentMile);
@@ -66,7 +79,7 @@ export function computeConsolidationV1(
   const warnings: string[] = [];
 
   const empty: ConsolidationResultV1 = {
-    hubKey: '', hubName: '', combinedEnrollment: 0, combinedSpending: 0,
+    hubKey: '', hubName: '', hubMethod: params.hubStrategy, combinedEnrollment: 0, combinedSpending: 0,
     hubSpending: 0, spokesSpending: 0,
     baselinePerPupil: 0, adminBaselineHub: 0, adminBaselineSpokes: 0,
     adminSavings: 0, transportationIncrease: 0, netImpact: 0,
@@ -101,12 +114,9 @@ export function computeConsolidationV1(
     };
   }
 
-  let hubKey = unique[0];
-  let hubEnroll = 0;
-  for (const k of unique) {
-    const total = enrollments[k].total;
-    if (total > hubEnroll) { hubEnroll = total; hubKey = k; }
-  }
+  const { hubKey, method: hubMethod } = selectHub(unique, params.hubStrategy, params.pinnedHubKey, {
+    budgets, enrollments, anchors, travel: matrix,
+  });
 
   const hubAnchor = anchors[hubKey];
   const hubBudget = budgets[hubKey];
@@ -129,14 +139,18 @@ export function computeConsolidationV1(
 
   const spokeBreakdown: SpokeDetail[] = [];
   let transportationIncrease = 0;
+  let straightLineLegs = 0;
 
   for (const k of unique) {
     if (k === hubKey) continue;
     const a = anchors[k];
-    const dist = milesBetween(
-      { lat: a.lat, lon: a.lon },
-      { lat: hubAnchor.lat, lon: hubAnchor.lon },
+    const leg = travelBetween(
+      { id: anchorPointId(k), lat: a.lat, lon: a.lon },
+      { id: anchorPointId(hubKey), lat: hubAnchor.lat, lon: hubAnchor.lon },
+      matrix,
     );
+    const dist = leg.miles;
+    if (leg.source === 'haversine') straightLineLegs++;
     if (dist > 60) warnings.push(`${a.displayName}: distance ${dist.toFixed(1)} mi seems high`);
     const enr = enrollments[k].total;
     const cost = dist * enr * share * cpsm;
@@ -146,10 +160,18 @@ export function computeConsolidationV1(
       name: anchors[k].displayName,
       enrollment: enr,
       distanceMiles: Math.round(dist * 10) / 10,
+      distanceSource: leg.source,
       cost: Math.round(cost),
     });
   }
   spokeBreakdown.sort((a, b) => b.cost - a.cost);
+  if (straightLineLegs > 0) {
+    warnings.push(
+      matrix
+        ? `Transportation: ${straightLineLegs} spoke distance(s) not in the road matrix; straight-line used`
+        : 'Transportation: no road travel matrix; straight-line distances used',
+    );
+  }
 
   const netImpact = adminSavings - transportationIncrease;
   const projectedSpending = combinedSpending - netImpact;
@@ -163,6 +185,7 @@ export function computeConsolidationV1(
   return {
     hubKey,
     hubName: hubAnchor.displayName,
+    hubMethod,
     combinedEnrollment,
     combinedSpending,
     hubSpending,
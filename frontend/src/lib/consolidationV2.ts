@@ -0,0 +1,465 @@
+/**
+ * Consolidation model V2: the merged-district estimate is the sum of
+ * independent cost components (admin, transportation, school management,
+ * business services, facilities, salary harmonization).
+ *
+ * Each component receives the same context and reports its own savings,
+ * costs and the assumptions behind them, so a component can be swapped or
+ * added without touching the others. Hub selection and missing-data rules
+ * match computeConsolidationV1.
+ */
+
+import type { BudgetCategories, BudgetsMap, DistrictBudget } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import { anchorPointId, travelBetween, type TravelMatrix } from './geoDistance';
+import { clamp, type ConsolidationParamsV1 } from './consolidationV1';
+import { selectHub, type HubStrategy } from './hubSelection';
+import { computeTransportModel, type TransportGeo } from './transportModel';
+
+export interface ConsolidationParamsV2 extends ConsolidationParamsV1 {
+  schoolManagementReductionRate: number;
+  businessServicesReductionRate: number;
+  facilitiesReductionRate: number;
+  /** Share of the per-pupil teaching gap to the best-paying district that is closed (1 = full leveling up). */
+  salaryLevelingRate: number;
+  /** Share of Face-to-Face Teaching that is compensation (salaries + benefits). */
+  teachingCompensationShare: number;
+  /** Distance-based transport model (used when district and school geometry is available). */
+  busCostPerYear: number;
+  busCapacity: number;
+  maxRideMinutes: number;
+  busSpeedMph: number;
+}
+
+export const DEFAULT_CONSOLIDATION_PARAMS_V2: ConsolidationParamsV2 = {
+  adminReductionRate: 1.0,
+  costPerStudentMile: 3.0,
+  affectedShare: 0,
+  hubStrategy: 'largest-enrollment',
+  pinnedHubKey: null,
+  schoolManagementReductionRate: 0.05,
+  businessServicesReductionRate: 0.3,
+  facilitiesReductionRate: 0.05,
+  salaryLevelingRate: 1.0,
+  teachingCompensationShare: 0.85,
+  busCostPerYear: 85000,
+  busCapacity: 60,
+  maxRideMinutes: 60,
+  busSpeedMph: 20,
+};
+
+export interface ConsolidationContext {
+  keys: string[];
+  hubKey: string;
+  spokeKeys: string[];
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  combinedEnrollment: number;
+  combinedSpending: number;
+  /** Boundaries and school points; without them transportation falls back to anchors. */
+  geo?: TransportGeo;
+  /** Road distances; without it distances are straight-line. */
+  travel?: TravelMatrix | null;
+}
+
+export interface ComponentLine {
+  key: string;
+  name: string;
+  amount: number;
+  note?: string;
+}
+
+export interface ComponentResult {
+  id: string;
+  label: string;
+  savings: number;
+  costs: number;
+  /** savings - costs (positive = saves money) */
+  net: number;
+  assumptions: string[];
+  /** Districts whose inputs were unusable for this component. */
+  missing: string[];
+  breakdown: ComponentLine[];
+}
+
+export interface ConsolidationComponent {
+  id: string;
+  label: string;
+  compute: (ctx: ConsolidationContext, params: ConsolidationParamsV2) => ComponentResult;
+}
+
+export interface ConsolidationResultV2 {
+  hubKey: string;
+  hubName: string;
+  hubMethod: HubStrategy | 'pinned';
+  combinedEnrollment: number;
+  combinedSpending: number;
+  baselinePerPupil: number;
+  components: ComponentResult[];
+  totalSavings: number;
+  totalCosts: number;
+  netImpact: number;
+  projectedSpending: number;
+  projectedPerPupil: number;
+  netImpactPctCombined: number;
+  warnings: string[];
+  missing: { budgets: string[]; enrollment: string[]; anchors: string[] };
+  ok: boolean;
+}
+
+/**
+ * Plausible share-of-total ranges per category. Values outside are treated as
+ * miscoded In$ite rows (e.g. a whole budget booked under Business Services).
+ */
+const CATEGORY_SHARE_BOUNDS: Record<keyof BudgetCategories, [number, number]> = {
+  faceToFaceTeaching: [0.25, 0.8],
+  schoolManagement: [0.005, 0.12],
+  businessServices: [0.002, 0.1],
+  facilities: [0.02, 0.2],
+};
+
+const CATEGORY_LABELS: Record<keyof BudgetCategories, string> = {
+  faceToFaceTeaching: 'Face-to-Face Teaching',
+  schoolManagement: 'School Management',
+  businessServices: 'Business Services',
+  facilities: 'Facilities',
+};
+
+/** Category amount if present and within CATEGORY_SHARE_BOUNDS, else null. */
+export function usableCategory(b: DistrictBudget, field: keyof BudgetCategories): number | null {
+  const v = b.categories?.[field];
+  if (v == null || b.totalExpenditures <= 0) return null;
+  const share = v / b.totalExpenditures;
+  const [lo, hi] = CATEGORY_SHARE_BOUNDS[field];
+  return share >= lo && share <= hi ? v : null;
+}
+
+const fmtPct = (n: number) => `${Math.round(n * 100)}%`;
+
+function finish(partial: Omit<ComponentResult, 'net'>): ComponentResult {
+  return { ...partial, net: partial.savings - partial.costs };
+}
+
+/** Spoke central admin eliminated at adminReductionRate (same as V1). */
+export const adminComponent: ConsolidationComponent = {
+  id: 'admin',
+  label: 'Central administration',
+  compute: (ctx, params) => {
+    const rate = clamp(params.adminReductionRate, 0, 1);
+    const breakdown: ComponentLine[] = ctx.spokeKeys.map((k) => {
+      const b = ctx.budgets[k];
+      return { key: k, name: b.displayName, amount: rate * b.centralAdministrationModel };
+    });
+    const hubAdmin = ctx.budgets[ctx.hubKey].centralAdministrationModel;
+    return finish({
+      id: 'admin',
+      label: 'Central administration',
+      savings: breakdown.reduce((s, l) => s + l.amount, 0),
+      costs: 0,
+      assumptions: [
+        `${fmtPct(rate)} of spoke District + Program/Operations Management (model values) eliminated`,
+        `Hub central admin ($${Math.round(hubAdmin).toLocaleString()}) absorbs the combined district unchanged`,
+      ],
+      missing: [],
+      breakdown,
+    });
+  },
+};
+
+/**
+ * Bus fleet difference from the distance-based transport model when geometry
+ * is available; otherwise anchor-to-anchor distance × enrollment ×
+ * affectedShare × costPerStudentMile (same as V1). Both use road distances
+ * when the travel matrix is loaded.
+ */
+export const transportationComponent: ConsolidationComponent = {
+  id: 'transportation',
+  label: 'Transportation',
+  compute: (ctx, params) => {
+    let fallbackNote: string | null = null;
+    if (ctx.geo) {
+      const geo = ctx.travel ? { ...ctx.geo, travel: { matrix: ctx.travel, anchors: ctx.anchors } } : ctx.geo;
+      const model = computeTransportModel(ctx.hubKey, ctx.spokeKeys, ctx.enrollments, geo, params);
+      if (model.missing.length > 0) {
+        const names = model.missing.map((k) => ctx.budgets[k]?.displayName ?? k).join(', ');
+        fallbackNote = `No boundary or hub schools to route ${names}; using anchor distances`;
+      } else {
+        return finish({
+          id: 'transportation',
+          label: 'Transportation',
+          savings: 0,
+          costs: model.totalCost,
+          assumptions: model.assumptions,
+          missing: [],
+          breakdown: model.spokes.map((sp) => ({
+            key: sp.key,
+            name: ctx.budgets[sp.key]?.displayName ?? sp.name,
+            amount: sp.cost,
+            note:
+              `${sp.riders.toLocaleString()} riders, ${sp.avgMilesBefore.toFixed(1)} → ${sp.avgMilesAfter.toFixed(1)} mi, ` +
+              `${sp.baselineBuses} → ${sp.modelBuses} buses` +
+              (sp.ridersOverMaxRide > 0 ? `, ${sp.ridersOverMaxRide} over max ride` : ''),
+          })),
+        });
+      }
+    }
+
+    const cpsm = Math.max(0, params.costPerStudentMile);
+    const share = clamp(params.affectedShare, 0, 1);
+    const hub = ctx.anchors[ctx.hubKey];
+    let straightLine = 0;
+    const breakdown: ComponentLine[] = ctx.spokeKeys.map((k) => {
+      const a = ctx.anchors[k];
+      const leg = travelBetween(
+        { id: anchorPointId(k), lat: a.lat, lon: a.lon },
+        { id: anchorPointId(ctx.hubKey), lat: hub.lat, lon: hub.lon },
+        ctx.travel,
+      );
+      if (leg.source === 'haversine') straightLine++;
+      const enr = ctx.enrollments[k].total;
+      return {
+        key: k,
+        name: a.displayName,
+        amount: leg.miles * enr * share * cpsm,
+        note: `${leg.miles.toFixed(1)} ${leg.source === 'road' ? 'road ' : 'straight-line '}mi × ${enr.toLocaleString()} students`,
+      };
+    });
+    return finish({
+      id: 'transportation',
+      label: 'Transportation',
+      savings: 0,
+      costs: breakdown.reduce((s, l) => s + l.amount, 0),
+      assumptions: [
+        `${fmtPct(share)} of spoke students bus to the hub anchor`,
+        `$${cpsm.toFixed(2)} per student-mile, ${straightLine > 0 ? 'straight-line' : 'road'} anchor distance`,
+        ...(fallbackNote ? [fallbackNote] : []),
+      ],
+      missing: [],
+      breakdown,
+    });
+  },
+};
+
+/** Share of a Detail 2 category in the spoke districts that consolidation removes. */
+function spokeCategoryComponent(
+  id: string,
+  label: string,
+  field: keyof BudgetCategories,
+  rateOf: (p: ConsolidationParamsV2) => number,
+  rationale: string,
+): ConsolidationComponent {
+  return {
+    id,
+    label,
+    compute: (ctx, params) => {
+      const rate = clamp(rateOf(params), 0, 1);
+      const missing: string[] = [];
+      const breakdown: ComponentLine[] = [];
+      for (const k of ctx.spokeKeys) {
+        const b = ctx.budgets[k];
+        const v = usableCategory(b, field);
+        if (v == null) { missing.push(k); continue; }
+        breakdown.push({ key: k, name: b.displayName, amount: rate * v });
+      }
+      const assumptions = [`${fmtPct(rate)} of spoke ${CATEGORY_LABELS[field]} eliminated`, rationale];
+      if (missing.length) {
+        assumptions.push(`${CATEGORY_LABELS[field]} missing or implausible for ${missing.length} spoke(s); counted as $0`);
+      }
+      return finish({
+        id,
+        label,
+        savings: breakdown.reduce((s, l) => s + l.amount, 0),
+        costs: 0,
+        assumptions,
+        missing,
+        breakdown,
+      });
+    },
+  };
+}
+
+export const schoolManagementComponent = spokeCategoryComponent(
+  'schoolManagement',
+  'School management',
+  'schoolManagement',
+  (p) => p.schoolManagementReductionRate,
+  'Buildings stay open; savings come from shared coordinators and clerical roles',
+);
+
+export const businessServicesComponent = spokeCategoryComponent(
+  'businessServices',
+  'Business services',
+  'businessServices',
+  (p) => p.businessServicesReductionRate,
+  'Payroll, purchasing, finance and IT move to the hub back office',
+);
+
+export const facilitiesComponent = spokeCategoryComponent(
+  'facilities',
+  'Facilities',
+  'facilities',
+  (p) => p.facilitiesReductionRate,
+  'Combined maintenance, custodial and utility contracts; no building closures',
+);
+
+/**
+ * Salary harmonization ("leveling up"): merged contracts adopt the most
+ * generous scale. Proxy: per-pupil Face-to-Face Teaching, with each district
+ * raised toward the highest per-pupil district in the selection.
+ */
+export const salaryHarmonizationComponent: ConsolidationComponent = {
+  id: 'salaryHarmonization',
+  label: 'Salary harmonization',
+  compute: (ctx, params) => {
+    const rate = clamp(params.salaryLevelingRate, 0, 1);
+    const compShare = clamp(params.teachingCompensationShare, 0, 1);
+    const missing: string[] = [];
+    const perPupil: { key: string; name: string; ppt: number; enr: number }[] = [];
+    for (const k of ctx.keys) {
+      const b = ctx.budgets[k];
+      const v = usableCategory(b, 'faceToFaceTeaching');
+      const enr = ctx.enrollments[k].total;
+      if (v == null || enr <= 0) { missing.push(k); continue; }
+      perPupil.push({ key: k, name: b.displayName, ppt: v / enr, enr });
+    }
+    const target = perPupil.reduce((m, d) => Math.max(m, d.ppt), 0);
+    const leader = perPupil.find((d) => d.ppt === target);
+    const breakdown: ComponentLine[] = perPupil
+      .filter((d) => d.ppt < target)
+      .map((d) => ({
+        key: d.key,
+        name: d.name,
+        amount: (target - d.ppt) * d.enr * compShare * rate,
+        note: `$${Math.round(d.ppt).toLocaleString()} → $${Math.round(target).toLocaleString()} per pupil`,
+      }));
+    const assumptions = [
+      `Per-pupil Face-to-Face Teaching is a proxy for the salary scale`,
+      `${fmtPct(rate)} of the gap to ${leader?.name ?? 'the highest district'} closed`,
+      `${fmtPct(compShare)} of teaching spend is compensation`,
+    ];
+    if (missing.length) {
+      assumptions.push(`Face-to-Face Teaching missing or implausible for ${missing.length} district(s); excluded`);
+    }
+    return finish({
+      id: 'salaryHarmonization',
+      label: 'Salary harmonization',
+      savings: 0,
+      costs: breakdown.reduce((s, l) => s + l.amount, 0),
+      assumptions,
+      missing,
+      breakdown,
+    });
+  },
+};
+
+export const DEFAULT_COMPONENTS_V2: ConsolidationComponent[] = [
+  adminComponent,
+  transportationComponent,
+  schoolManagementComponent,
+  businessServicesComponent,
+  facilitiesComponent,
+  salaryHarmonizationComponent,
+];
+
+export function computeConsolidationV2(
+  selectedKeys: string[],
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  anchors: DistrictAnchorsMap,
+  params: ConsolidationParamsV2,
+  components: ConsolidationComponent[] = DEFAULT_COMPONENTS_V2,
+  geo?: TransportGeo,
+  travel?: TravelMatrix | null,
+): ConsolidationResultV2 {
+  const unique = [...new Set(selectedKeys)];
+  const missingBudgets: string[] = [];
+  const missingEnrollment: string[] = [];
+  const missingAnchors: string[] = [];
+  const warnings: string[] = [];
+
+  const empty: ConsolidationResultV2 = {
+    hubKey: '', hubName: '', hubMethod: params.hubStrategy, combinedEnrollment: 0, combinedSpending: 0, baselinePerPupil: 0,
+    components: [], totalSavings: 0, totalCosts: 0, netImpact: 0,
+    projectedSpending: 0, projectedPerPupil: 0, netImpactPctCombined: 0,
+    warnings: [], missing: { budgets: [], enrollment: [], anchors: [] }, ok: false,
+  };
+
+  if (unique.length < 2) {
+    return { ...empty, warnings: ['Select at least 2 districts'] };
+  }
+
+  for (const k of unique) {
+    const b = budgets[k];
+    const e = enrollments[k];
+    if (!b) missingBudgets.push(k);
+    if (!e || !e.total || e.total <= 0) missingEnrollment.push(k);
+    if (!anchors[k]) missingAnchors.push(k);
+    if (b?.flags?.length) {
+      for (const f of b.flags) warnings.push(`${b.displayName}: ${f}`);
+    }
+  }
+
+  if (missingBudgets.length || missingEnrollment.length || missingAnchors.length) {
+    return {
+      ...empty,
+      warnings,
+      missing: { budgets: missingBudgets, enrollment: missingEnrollment, anchors: missingAnchors },
+    };
+  }
+
+  const { hubKey, method: hubMethod } = selectHub(unique, params.hubStrategy, params.pinnedHubKey, {
+    budgets, enrollments, anchors, travel,
+  });
+  let combinedEnrollment = 0;
+  let combinedSpending = 0;
+  for (const k of unique) {
+    combinedEnrollment += enrollments[k].total;
+    combinedSpending += budgets[k].totalExpenditures;
+  }
+
+  const ctx: ConsolidationContext = {
+    keys: unique,
+    hubKey,
+    spokeKeys: unique.filter((k) => k !== hubKey),
+    budgets,
+    enrollments,
+    anchors,
+    combinedEnrollment,
+    combinedSpending,
+    geo,
+    travel,
+  };
+
+  const results = components.map((c) => c.compute(ctx, params));
+  for (const r of results) {
+    for (const k of r.missing) {
+      warnings.push(`${budgets[k]?.displayName ?? k}: ${r.label} input missing or implausible`);
+    }
+  }
+
+  const totalSavings = results.reduce((s, r) => s + r.savings, 0);
+  const totalCosts = results.reduce((s, r) => s + r.costs, 0);
+  const netImpact = totalSavings - totalCosts;
+  const projectedSpending = combinedSpending - netImpact;
+
+  return {
+    hubKey,
+    hubName: anchors[hubKey].displayName,
+    hubMethod,
+    combinedEnrollment,
+    combinedSpending,
+    baselinePerPupil: combinedEnrollment > 0 ? combinedSpending / combinedEnrollment : 0,
+    components: results,
+    totalSavings,
+    totalCosts,
+    netImpact,
+    projectedSpending,
+    projectedPerPupil: combinedEnrollment > 0 ? projectedSpending / combinedEnrollment : 0,
+    netImpactPctCombined: combinedSpending > 0 ? netImpact / combinedSpending : 0,
+    warnings,
+    missing: { budgets: [], enrollment: [], anchors: [] },
+    ok: true,
+  };
+}
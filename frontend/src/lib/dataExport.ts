@@ -0,0 +1,342 @@
+/**
+ * Tabular exports for analysts: sandbox results and statewide district
+ * metrics as CSV or a multi-sheet XLSX workbook, built in the browser.
+ *
+ * The XLSX writer covers what these tables need (text and number cells,
+ * a bold header row, frozen first row) with inline strings, so no shared
+ * string table or styles beyond one bold font.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { ConsolidationParamsV1, ConsolidationResultV1 } from './consolidationV1';
+
+export type Cell = string | number | null;
+
+export interface ExportSheet {
+  /** Sheet tab name (Excel allows 31 characters). */
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+// --- CSV ---
+
+const csvCell = (v: Cell) => {
+  if (v == null) return '';
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** CSV text; several sheets are stacked, each under its name, separated by a blank line. */
+export function toCsv(sheets: ExportSheet[]): string {
+  return sheets
+    .map((sheet) => {
+      const lines = [sheet.columns, ...sheet.rows].map((row) => row.map(csvCell).join(','));
+      return (sheets.length > 1 ? [csvCell(sheet.name), ...lines] : lines).join('\r\n');
+    })
+    .join('\r\n\r\n');
+}
+
+// --- XLSX ---
+
+const xml = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+function columnName(i: number): string {
+  let s = '';
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+function sheetXml(sheet: ExportSheet): string {
+  const cell = (v: Cell, ref: string, header: boolean) => {
+    if (v == null || v === '') return '';
+    const style = header ? ' s="1"' : '';
+    return typeof v === 'number' && Number.isFinite(v)
+      ? `<c r="${ref}"${style}><v>${v}</v></c>`
+      : `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${xml(String(v))}</t></is></c>`;
+  };
+  const rows = [sheet.columns, ...sheet.rows]
+    .map((row, r) => `<row r="${r + 1}">${row.map((v, c) => cell(v, `${columnName(c)}${r + 1}`, r === 0)).join('')}</row>`)
+    .join('');
+  const widths = sheet.columns
+    .map((name, c) => {
+      const longest = Math.max(name.length, ...sheet.rows.slice(0, 200).map((row) => String(row[c] ?? '').length));
+      return `<col min="${c + 1}" max="${c + 1}" width="${Math.min(60, Math.max(8, longest + 2))}" customWidth="1"/>`;
+    })
+    .join('');
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths}</cols><sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+/** Sheet names must be unique, ≤ 31 characters and free of []:*?/\ */
+function sheetNames(sheets: ExportSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((s, i) => {
+    let name = s.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || `Sheet${i + 1}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${name.slice(0, 28)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/** Zipped SpreadsheetML workbook with one worksheet per sheet. */
+export function toXlsx(sheets: ExportSheet[]): Uint8Array {
+  const names = sheetNames(sheets);
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        names
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join('') +
+        '</Types>',
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${names.map((n, i) => `<sheet name="${xml(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+        '</workbook>',
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        names
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+          )
+          .join('') +
+        `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    ),
+    'xl/styles.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>',
+    ),
+  };
+  sheets.forEach((s, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(s));
+  });
+  return zipSync(files, { level: 6 });
+}
+
+export function downloadFile(data: BlobPart, filename: string, type: string): void {
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(new Blob([data], { type }));
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
+
+export function downloadSheets(sheets: ExportSheet[], basename: string, format: 'csv' | 'xlsx'): void {
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 district names correctly.
+    downloadFile(`\uFEFF${toCsv(sheets)}`, `${basename}.csv`, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(new Uint8Array(toXlsx(sheets)), `${basename}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  }
+}
+
+// --- Sandbox results ---
+
+const SUMMARY_FIELDS: { field: keyof ConsolidationResultV1; label: string }[] = [
+  { field: 'hubKey', label: 'Hub key' },
+  { field: 'hubName', label: 'Hub' },
+  { field: 'hubMethod', label: 'Hub method' },
+  { field: 'combinedEnrollment', label: 'Combined enrollment' },
+  { field: 'combinedSpending', label: 'Combined spending' },
+  { field: 'hubSpending', label: 'Hub spending' },
+  { field: 'spokesSpending', label: 'Spokes spending' },
+  { field: 'baselinePerPupil', label: 'Baseline per pupil' },
+  { field: 'adminBaselineHub', label: 'Hub central admin (model)' },
+  { field: 'adminBaselineSpokes', label: 'Spokes central admin (model)' },
+  { field: 'adminSavings', label: 'Admin savings' },
+  { field: 'transportationIncrease', label: 'Transportation increase' },
+  { field: 'netImpact', label: 'Net impact' },
+  { field: 'projectedSpending', label: 'Projected spending' },
+  { field: 'projectedPerPupil', label: 'Projected per pupil' },
+  { field: 'adminSavingsPctCombined', label: 'Admin savings / combined spending' },
+  { field: 'transportIncreasePctCombined', label: 'Transportation increase / combined spending' },
+  { field: 'netImpactPctCombined', label: 'Net impact / combined spending' },
+  { field: 'adminSavingsPctSpokesSpending', label: 'Admin savings / spokes spending' },
+  { field: 'transportIncreasePctSpokesSpending', label: 'Transportation increase / spokes spending' },
+  { field: 'netImpactPctSpokesSpending', label: 'Net impact / spokes spending' },
+  { field: 'ok', label: 'Computed' },
+];
+
+/** Summary, spoke breakdown and warnings/missing data of one sandbox run. */
+export function sandboxExportSheets(
+  keys: string[],
+  result: ConsolidationResultV1,
+  params: ConsolidationParamsV1,
+  nameOf: (key: string) => string,
+): ExportSheet[] {
+  const summary: Cell[][] = [
+    ['Districts', keys.map(nameOf).join('; ')],
+    ['District keys', keys.join('; ')],
+    ['Param: admin reduction rate', params.adminReductionRate],
+    ['Param: share of students busing further', params.affectedShare],
+    ['Param: cost per student-mile', params.costPerStudentMile],
+    ['Param: hub strategy', params.hubStrategy],
+    ['Param: pinned hub', params.pinnedHubKey],
+    ...SUMMARY_FIELDS.map(({ field, label }): Cell[] => {
+      const v = result[field];
+      return [label, typeof v === 'boolean' ? (v ? 'yes' : 'no') : (v as Cell)];
+    }),
+  ];
+  const u = result.uncertainty;
+  if (u) {
+    summary.push(
+      ['Monte Carlo runs', u.runs],
+      ['Net impact P10', u.p10],
+      ['Net impact P50', u.p50],
+      ['Net impact P90', u.p90],
+      ['Probability of net savings', u.probNetSavings],
+    );
+  }
+  return [
+    { name: 'Summary', columns: ['Field', 'Value'], rows: summary },
+    {
+      name: 'Spokes',
+      columns: ['Key', 'District', 'Enrollment', 'Distance to hub (mi)', 'Distance source', 'Transportation cost'],
+      rows: result.spokeBreakdown.map((s) => [s.key, s.name, s.enrollment, s.distanceMiles, s.distanceSource, s.cost]),
+    },
+    {
+      name: 'Warnings',
+      columns: ['Type', 'Detail'],
+      rows: [
+        ...result.warnings.map((w): Cell[] => ['warning', w]),
+        ...result.missing.budgets.map((k): Cell[] => ['missing budget', nameOf(k)]),
+        ...result.missing.enrollment.map((k): Cell[] => ['missing enrollment', nameOf(k)]),
+        ...result.missing.anchors.map((k): Cell[] => ['missing anchor', nameOf(k)]),
+      ],
+    },
+  ];
+}
+
+// --- Statewide district metrics ---
+
+const share = (n: number | undefined, total: number | undefined): Cell =>
+  n != null && total ? n / total : null;
+
+/** One row per district found in any of budgets, enrollment or anchors. */
+export function districtMetricsSheet(
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  anchors: DistrictAnchorsMap,
+  nameOf: (key: string) => string,
+): ExportSheet {
+  // Charters and state schools only appear in enrollment; use RIDE's name for them.
+  const name = (k: string) => {
+    const n = nameOf(k);
+    return n === k && enrollments[k]?.distname ? enrollments[k].distname : n;
+  };
+  const keys = [...new Set([...Object.keys(budgets), ...Object.keys(enrollments), ...Object.keys(anchors)])].sort(
+    (a, b) => name(a).localeCompare(name(b)),
+  );
+  return {
+    name: 'Districts',
+    columns: [
+      'Key', 'District', 'Fiscal year', 'Total expenditures', 'Enrollment', 'Per-pupil spend',
+      'Central admin (raw)', 'Central admin (model)', 'Admin share (raw)', 'Admin share (model)',
+      'FRL', 'FRL rate', 'LEP', 'LEP rate', 'IEP', 'IEP rate',
+      'Anchor type', 'Anchor school', 'Anchor lat', 'Anchor lon', 'Budget flags', 'Anchor flags',
+    ],
+    rows: keys.map((k) => {
+      const b = budgets[k];
+      const e = enrollments[k];
+      const a = anchors[k];
+      return [
+        k,
+        name(k),
+        b?.fiscalYear ?? null,
+        b?.totalExpenditures ?? null,
+        e?.total ?? null,
+        b && e?.total ? b.totalExpenditures / e.total : null,
+        b?.centralAdministration ?? null,
+        b?.centralAdministrationModel ?? null,
+        b?.adminShareOfTotal ?? null,
+        b?.adminShareOfTotalModel ?? null,
+        e?.FRL ?? null,
+        share(e?.FRL, e?.total),
+        e?.LEP ?? null,
+        share(e?.LEP, e?.total),
+        e?.IEP ?? null,
+        share(e?.IEP, e?.total),
+        a?.anchorType ?? null,
+        a?.anchorSchool?.name ?? null,
+        a?.lat ?? null,
+        a?.lon ?? null,
+        b?.flags.join('; ') || null,
+        a?.flags.join('; ') || null,
+      ];
+    }),
+  };
+}
+
+/** Expenditure headline figures for every fiscal year in each district's source file. */
+export function budgetHistorySheet(budgets: BudgetsMap, nameOf: (key: string) => string): ExportSheet {
+  return {
+    name: 'Budget history',
+    columns: [
+      'Key', 'District', 'Fiscal year', 'Total expenditures', 'Change vs prior year',
+      'District management', 'Program operations management', 'Central admin', 'Admin share',
+    ],
+    rows: Object.keys(budgets)
+      .sort((a, b) => nameOf(a).localeCompare(nameOf(b)))
+      .flatMap((k) =>
+        budgets[k].history.map((h): Cell[] => [
+          k, nameOf(k), h.fiscalYear, h.totalExpenditures, h.totalPctChange,
+          h.districtManagement, h.programOperationsManagement, h.centralAdministration, h.adminShareOfTotal,
+        ]),
+      ),
+  };
+}
+
+/** District enrollment by grade, grades in school order. */
+export function enrollmentGradesSheet(enrollments: LeaEnrollmentMap, nameOf: (key: string) => string): ExportSheet {
+  const keys = Object.keys(enrollments).sort((a, b) => nameOf(a).localeCompare(nameOf(b)));
+  const gradeOrder = (g: string) => (g === 'PK' ? -3 : g === 'PF' ? -2 : g === 'KF' ? -1 : Number(g.replace(/\D/g, '')) || 99);
+  const grades = [...new Set(keys.flatMap((k) => Object.keys(enrollments[k].grades ?? {})))].sort(
+    (a, b) => gradeOrder(a) - gradeOrder(b),
+  );
+  return {
+    name: 'Enrollment by grade',
+    columns: ['Key', 'District', 'Total', ...grades],
+    rows: keys.map((k) => [k, nameOf(k), enrollments[k].total, ...grades.map((g) => enrollments[k].grades?.[g] ?? null)]),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Statewide district table: one row per district polygon joined with its
+ * budget, October enrollment and school counts.
+ */
+
+import type { DistrictFeature, DistrictLevel, SchoolFeature } from '../types';
+import type { BudgetsMap } from './budgets';
+import { districtKey, type LeaEnrollmentMap } from './enrollment';
+
+export interface SchoolCounts {
+  public: number;
+  private: number;
+}
+
+/** Public/private school counts keyed by district GEOID. */
+export function countSchoolsByDistrict(schools: SchoolFeature[]): Map<string, SchoolCounts> {
+  const counts = new Map<string, SchoolCounts>();
+  for (const f of schools) {
+    const geoid = f.properties.district_geoid;
+    if (!geoid) continue;
+    const c = counts.get(geoid) ?? { public: 0, private: 0 };
+    if (f.properties.school_type === 'public') c.public++;
+    else c.private++;
+    counts.set(geoid, c);
+  }
+  return counts;
+}
+
+export interface DistrictRow {
+  key: string;
+  name: string;
+  level: DistrictLevel;
+  enrollment: number | null;
+  totalExpenditures: number | null;
+  perPupil: number | null;
+  adminShareRaw: number | null;
+  adminShareModel: number | null;
+  frlRate: number | null;
+  lepRate: number | null;
+  iepRate: number | null;
+  publicSchools: number;
+  privateSchools: number;
+  /** Budget data flags. */
+  flags: string[];
+}
+
+export type DistrictColumnId = Exclude<keyof DistrictRow, 'key' | 'flags'>;
+
+export const DISTRICT_COLUMNS: { id: DistrictColumnId; label: string; format: 'text' | 'count' | 'money' | 'percent' }[] = [
+  { id: 'name', label: 'District', format: 'text' },
+  { id: 'level', label: 'Level', format: 'text' },
+  { id: 'enrollment', label: 'Enrollment', format: 'count' },
+  { id: 'totalExpenditures', label: 'Total expenditures', format: 'money' },
+  { id: 'perPupil', label: 'Per pupil', format: 'money' },
+  { id: 'adminShareRaw', label: 'Admin share (raw)', format: 'percent' },
+  { id: 'adminShareModel', label: 'Admin share (model)', format: 'percent' },
+  { id: 'frlRate', label: 'FRL', format: 'percent' },
+  { id: 'lepRate', label: 'LEP', format: 'percent' },
+  { id: 'iepRate', label: 'IEP', format: 'percent' },
+  { id: 'publicSchools', label: 'Public schools', format: 'count' },
+  { id: 'privateSchools', label: 'Private schools', format: 'count' },
+];
+
+const rate = (n: number | undefined, total: number | undefined) => (n != null && total ? n / total : null);
+
+export function buildDistrictRows(
+  districts: DistrictFeature[],
+  schools: SchoolFeature[],
+  budgets: BudgetsMap | null,
+  enrollments: LeaEnrollmentMap | null,
+): DistrictRow[] {
+  const counts = countSchoolsByDistrict(schools);
+  const rows = new Map<string, DistrictRow>();
+  for (const f of districts) {
+    const name = f.properties.district_name ?? f.properties.name ?? '';
+    const key = districtKey(name);
+    if (!name || rows.has(key)) continue;
+    const geoid = f.properties.district_geoid ?? f.properties.geoid ?? '';
+    const b = budgets?.[key];
+    const e = enrollments?.[key];
+    const total = e?.total || undefined;
+    rows.set(key, {
+      key,
+      name,
+      level: f.properties.district_level ?? 'unified',
+      enrollment: e?.total ?? null,
+      totalExpenditures: b?.totalExpenditures ?? null,
+      perPupil: b && total ? b.totalExpenditures / total : null,
+      adminShareRaw: b?.adminShareOfTotal ?? null,
+      adminShareModel: b?.adminShareOfTotalModel ?? null,
+      frlRate: rate(e?.FRL, total),
+      lepRate: rate(e?.LEP, total),
+      iepRate: rate(e?.IEP, total),
+      publicSchools: counts.get(geoid)?.public ?? 0,
+      privateSchools: counts.get(geoid)?.private ?? 0,
+      flags: b?.flags ?? [],
+    });
+  }
+  return [...rows.values()];
+}
+
+/** Sort by a column; missing values always go last. */
+export function sortDistrictRows(rows: DistrictRow[], column: DistrictColumnId, descending: boolean): DistrictRow[] {
+  const dir = descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const va = a[column];
+    const vb = b[column];
+    if (va == null || vb == null) return va == null ? (vb == null ? 0 : 1) : -1;
+    return (typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number)) * dir;
+  });
+}
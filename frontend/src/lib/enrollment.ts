@@ -46,6 +46,40 @@ export interface SchoolEnrollment {
 export type LeaEnrollmentMap = Record<string, DistrictEnrollment>;
 export type SchoolEnrollmentMap = Record<string, SchoolEnrollment>;
 
+/** One October count. Must match SnapshotInfo in scripts/build-enrollment.ts */
+export interface EnrollmentSnapshotInfo {
+  year: number;
+  label: string;
+  /** File names under /enrollment/ */
+  lea: string;
+  school: string;
+  districts: number;
+  schools: number;
+}
+
+export interface EnrollmentIndex {
+  latest: number;
+  snapshots: EnrollmentSnapshotInfo[];
+}
+
+/** District key -> October year -> total enrollment. */
+export type EnrollmentHistory = Record<string, Record<string, number>>;
+
+/** Used when enrollment/index.json is missing (data built before multi-year support). */
+export const FALLBACK_ENROLLMENT_INDEX: EnrollmentIndex = {
+  latest: 2024,
+  snapshots: [
+    {
+      year: 2024,
+      label: 'Oct 2024',
+      lea: 'ri_lea_enrollment_2024-10.json',
+      school: 'ri_school_enrollment_2024-10.json',
+      districts: 0,
+      schools: 0,
+    },
+  ],
+};
+
 /** Normalize for lookup key. Must match scripts/lib/normalize.ts */
 export function normalizeForKey(s: string): string {
   if (!s || typeof s !== 'string') return '';
@@ -0,0 +1,211 @@
+/**
+ * Cohort-survival enrollment forecast from a single October snapshot.
+ *
+ * Each year every cohort advances one grade: next[g+1] = current[g] × survival[g+1].
+ * With only one snapshot, survival ratios are cross-sectional (grade g+1 ÷ grade g
+ * in the same count), shrunk toward the statewide ratio for small grades so a
+ * district of 15 students per grade doesn't swing on noise.
+ *
+ * Entry grades (KF, or the lowest grade of a district that starts later, e.g. a
+ * 6–12 regional) follow the kindergarten entry assumption. PK/PF are not cohort
+ * driven and are held at their current counts.
+ *
+ * Schools are forecast as their current share of each district grade applied to
+ * the district forecast, so feeder patterns inside a district carry through.
+ */
+
+import type { LeaEnrollmentMap } from './enrollment';
+import { clamp } from './consolidationV1';
+
+export const COHORT_GRADES = ['KF', 'G01', 'G02', 'G03', 'G04', 'G05', 'G06', 'G07', 'G08', 'G09', 'G10', 'G11', 'G12'];
+
+export type GradeCounts = Record<string, number>;
+/** Keyed by the destination grade (G01–G12). */
+export type SurvivalRatios = Record<string, number>;
+
+export type SurvivalSource = 'district' | 'statewide' | 'fixed';
+export type KindergartenEntry = 'hold' | 'recent' | 'custom';
+
+export interface ForecastParams {
+  years: number;
+  survivalSource: SurvivalSource;
+  /** Applied to every grade transition when survivalSource is 'fixed'. */
+  fixedSurvivalRate: number;
+  /**
+   * hold: entering class stays at today's size; recent: entering class follows
+   * the trend across the youngest cohorts; custom: kindergartenChange per year.
+   */
+  kindergartenEntry: KindergartenEntry;
+  kindergartenChange: number;
+}
+
+export const DEFAULT_FORECAST_PARAMS: ForecastParams = {
+  years: 10,
+  survivalSource: 'district',
+  fixedSurvivalRate: 1,
+  kindergartenEntry: 'recent',
+  kindergartenChange: 0,
+};
+
+export const FORECAST_MIN_YEARS = 5;
+export const FORECAST_MAX_YEARS = 10;
+
+/** Grade size (students) at which the district ratio and the statewide ratio get equal weight. */
+const SHRINKAGE_STUDENTS = 60;
+const RATIO_BOUNDS: [number, number] = [0.6, 1.4];
+/** The "recent" entry trend is fitted over this many youngest grades and capped at ±3% a year. */
+const ENTRY_TREND_GRADES = 6;
+const ENTRY_TREND_BOUND = 0.03;
+
+export interface ForecastYear {
+  /** Years after the snapshot (0 = snapshot). */
+  year: number;
+  total: number;
+  grades: GradeCounts;
+}
+
+export interface EnrollmentForecast {
+  years: ForecastYear[];
+  ratios: SurvivalRatios;
+  /** Annual change applied to entry grades. */
+  entryGrowth: number;
+  /** Final-year total vs. snapshot total (e.g. -0.12 = 12% smaller). */
+  change: number;
+}
+
+const sumGrades = (grades: GradeCounts) => Object.values(grades).reduce((s, v) => s + v, 0);
+
+export function statewideSurvivalRatios(enrollments: LeaEnrollmentMap): SurvivalRatios {
+  const ratios: SurvivalRatios = {};
+  for (let i = 1; i < COHORT_GRADES.length; i++) {
+    const from = COHORT_GRADES[i - 1];
+    const to = COHORT_GRADES[i];
+    let fromSum = 0;
+    let toSum = 0;
+    for (const e of Object.values(enrollments)) {
+      const f = e.grades?.[from] ?? 0;
+      const t = e.grades?.[to] ?? 0;
+      if (f > 0 && t > 0) {
+        fromSum += f;
+        toSum += t;
+      }
+    }
+    ratios[to] = fromSum > 0 ? toSum / fromSum : 1;
+  }
+  return ratios;
+}
+
+export function survivalRatios(grades: GradeCounts, statewide: SurvivalRatios, params: ForecastParams): SurvivalRatios {
+  const ratios: SurvivalRatios = {};
+  for (let i = 1; i < COHORT_GRADES.length; i++) {
+    const from = grades[COHORT_GRADES[i - 1]] ?? 0;
+    const to = grades[COHORT_GRADES[i]] ?? 0;
+    const state = statewide[COHORT_GRADES[i]] ?? 1;
+    let r: number;
+    if (params.survivalSource === 'fixed') r = params.fixedSurvivalRate;
+    else if (params.survivalSource === 'statewide' || from <= 0 || to <= 0) r = state;
+    else r = (to + SHRINKAGE_STUDENTS * state) / (from + SHRINKAGE_STUDENTS);
+    ratios[COHORT_GRADES[i]] = clamp(r, RATIO_BOUNDS[0], RATIO_BOUNDS[1]);
+  }
+  return ratios;
+}
+
+/**
+ * Trend in entering-class size implied by the youngest served cohorts: each
+ * grade's count is deflated by statewide survival back to its entry size, and a
+ * log-linear slope is fitted across entry years.
+ */
+function recentEntryTrend(grades: GradeCounts, statewide: SurvivalRatios): number {
+  const first = COHORT_GRADES.findIndex((g) => (grades[g] ?? 0) > 0);
+  if (first < 0) return 0;
+  const points: [number, number][] = [];
+  let survival = 1;
+  for (let i = first; i < Math.min(first + ENTRY_TREND_GRADES, COHORT_GRADES.length); i++) {
+    if (i > first) survival *= statewide[COHORT_GRADES[i]] ?? 1;
+    const n = grades[COHORT_GRADES[i]] ?? 0;
+    if (n <= 0) break;
+    // Grade i entered (i - first) years ago
+    points.push([-(i - first), Math.log(n / survival)]);
+  }
+  if (points.length < 3) return 0;
+  const mx = points.reduce((s, [x]) => s + x, 0) / points.length;
+  const my = points.reduce((s, [, y]) => s + y, 0) / points.length;
+  const sxx = points.reduce((s, [x]) => s + (x - mx) ** 2, 0);
+  const sxy = points.reduce((s, [x, y]) => s + (x - mx) * (y - my), 0);
+  return clamp(Math.exp(sxy / sxx) - 1, -ENTRY_TREND_BOUND, ENTRY_TREND_BOUND);
+}
+
+function entryGrowth(grades: GradeCounts, statewide: SurvivalRatios, params: ForecastParams): number {
+  if (params.kindergartenEntry === 'hold') return 0;
+  if (params.kindergartenEntry === 'custom') return params.kindergartenChange;
+  return recentEntryTrend(grades, statewide);
+}
+
+export function forecastGrades(
+  grades: GradeCounts,
+  statewide: SurvivalRatios,
+  params: ForecastParams,
+  years: number = params.years,
+): EnrollmentForecast {
+  const ratios = survivalRatios(grades, statewide, params);
+  const growth = entryGrowth(grades, statewide, params);
+  const served = new Set(COHORT_GRADES.filter((g) => (grades[g] ?? 0) > 0));
+
+  const out: ForecastYear[] = [{ year: 0, total: sumGrades(grades), grades: { ...grades } }];
+  let current = { ...grades };
+  for (let t = 1; t <= years; t++) {
+    const next: GradeCounts = {};
+    for (const [g, n] of Object.entries(current)) {
+      if (!COHORT_GRADES.includes(g)) next[g] = n;
+    }
+    for (let i = 0; i < COHORT_GRADES.length; i++) {
+      const g = COHORT_GRADES[i];
+      if (!served.has(g)) continue;
+      const prev = i > 0 ? COHORT_GRADES[i - 1] : null;
+      next[g] = prev && served.has(prev) ? current[prev] * ratios[g] : current[g] * (1 + growth);
+    }
+    out.push({ year: t, total: sumGrades(next), grades: next });
+    current = next;
+  }
+
+  const base = out[0].total;
+  return { years: out, ratios, entryGrowth: growth, change: base > 0 ? out[out.length - 1].total / base - 1 : 0 };
+}
+
+/** A school's forecast as its current share of each district grade. */
+export function forecastSchool(schoolGrades: GradeCounts, districtGrades: GradeCounts, district: EnrollmentForecast): ForecastYear[] {
+  return district.years.map((y) => {
+    const grades: GradeCounts = {};
+    for (const [g, n] of Object.entries(schoolGrades)) {
+      const d = districtGrades[g] ?? 0;
+      grades[g] = d > 0 ? (n / d) * (y.grades[g] ?? 0) : n;
+    }
+    return { year: y.year, total: sumGrades(grades), grades };
+  });
+}
+
+/**
+ * Combined projected enrollment of several districts, each forecast separately,
+ * for years 0..years. Districts without grade data are held at their total.
+ */
+export function forecastCombinedTotals(
+  keys: string[],
+  enrollments: LeaEnrollmentMap,
+  statewide: SurvivalRatios,
+  params: ForecastParams,
+  years: number,
+): number[] {
+  const totals = new Array<number>(years + 1).fill(0);
+  for (const k of keys) {
+    const e = enrollments[k];
+    if (!e) continue;
+    if (!e.grades) {
+      for (let t = 0; t <= years; t++) totals[t] += e.total;
+      continue;
+    }
+    forecastGrades(e.grades, statewide, params, years).years.forEach((y, t) => {
+      totals[t] += y.total;
+    });
+  }
+  return totals;
+}
@@ -0,0 +1,211 @@
+/**
+ * Rhode Island education funding formula (state aid) for single districts and
+ * hypothetical merged LEAs.
+ *
+ * funding-formula.json schema (one file per formula year, see `version`):
+ *   { version, source, coreInstructionAmount, studentSuccessFactor,
+ *     multilingualLearnerFactor, ssrcWealthFactor, regionalizationBonus[],
+ *     wealthIndex { [normalizedDistrictKey]: number } }
+ *
+ * Formula:
+ *   foundation = core × (enrollment + SSF × FRL + MLL × LEP)
+ *   SSRC       = 1 − ssrcWealthFactor × wealthIndex    (wealthIndex: EWAV per pupil / state avg)
+ *   shareRatio = √((SSRC² + FRL%²) / 2)
+ *   aid        = foundation × shareRatio
+ *
+ * The statute's FRL% in the share ratio is the PK–6 FRL share; RIDE's October
+ * counts here only give FRL for the whole district, so that stands in for it.
+ *
+ * Districts without a wealthIndex entry get one backed out of their budget's
+ * state revenue (the implied share ratio). That revenue includes categorical
+ * aid, so it is only an approximation of formula aid. Where the implied ratio
+ * fits the formula, single-district aid matches the reported revenue and the
+ * merged result only moves by the formula's non-linearity. Where it does not
+ * (state revenue above the foundation amount, or a ratio outside what any
+ * wealth index in [0, 1/ssrcWealthFactor] can produce), the wealth index is
+ * clamped, aid no longer matches, and the district is marked
+ * 'calibrated-clamped' so the merged aid delta can be read with that caveat.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import { clamp } from './consolidationV1';
+
+export interface FundingFormulaParams {
+  version: string;
+  source: string;
+  coreInstructionAmount: number;
+  studentSuccessFactor: number;
+  multilingualLearnerFactor: number;
+  /** Weight on the wealth index in SSRC (0.475 in statute). */
+  ssrcWealthFactor: number;
+  /** Bonus on the state share for a newly regionalized LEA, by year since merger. */
+  regionalizationBonus: number[];
+  wealthIndex: Record<string, number>;
+}
+
+export interface FormulaInputs {
+  enrollment: number;
+  frl: number;
+  lep: number;
+  wealthIndex: number;
+}
+
+export interface FormulaAid extends FormulaInputs {
+  foundation: number;
+  shareRatio: number;
+  aid: number;
+}
+
+export interface DistrictFormulaAid extends FormulaAid {
+  key: string;
+  name: string;
+  /** 'calibrated-clamped': backed-out wealth index hit a bound; aid differs from reported state revenue. */
+  wealthSource: 'params' | 'calibrated' | 'calibrated-clamped';
+}
+
+export interface MergedFormulaAid {
+  version: string;
+  districts: DistrictFormulaAid[];
+  merged: FormulaAid;
+  /** Year-one regionalization bonus on the merged LEA's aid. */
+  regionalizationBonus: number;
+  sumOfDistrictAid: number;
+  /** merged.aid + regionalizationBonus − sumOfDistrictAid. Positive = more state aid. */
+  aidDelta: number;
+  assumptions: string[];
+  missing: string[];
+  ok: boolean;
+}
+
+function foundationAmount(inputs: Omit<FormulaInputs, 'wealthIndex'>, p: FundingFormulaParams): number {
+  return p.coreInstructionAmount * (inputs.enrollment + p.studentSuccessFactor * inputs.frl + p.multilingualLearnerFactor * inputs.lep);
+}
+
+function shareRatio(inputs: FormulaInputs, p: FundingFormulaParams): number {
+  const povertyShare = inputs.enrollment > 0 ? inputs.frl / inputs.enrollment : 0;
+  const ssrc = clamp(1 - p.ssrcWealthFactor * inputs.wealthIndex, 0, 1);
+  return clamp(Math.sqrt((ssrc ** 2 + povertyShare ** 2) / 2), 0, 1);
+}
+
+export function computeFormulaAid(inputs: FormulaInputs, params: FundingFormulaParams): FormulaAid {
+  const foundation = foundationAmount(inputs, params);
+  const ratio = shareRatio(inputs, params);
+  return { ...inputs, foundation, shareRatio: ratio, aid: foundation * ratio };
+}
+
+/**
+ * Wealth index implied by a share ratio: inverts the share ratio formula for
+ * the given poverty share. Clamped to [0, 1/ssrcWealthFactor]; `clamped` is
+ * set when the ratio needs an SSRC outside [0, 1].
+ */
+function impliedWealthIndex(
+  ratio: number,
+  povertyShare: number,
+  p: FundingFormulaParams,
+): { wealthIndex: number; clamped: boolean } {
+  const ssrcSq = 2 * ratio ** 2 - povertyShare ** 2;
+  const ssrc = clamp(Math.sqrt(Math.max(0, ssrcSq)), 0, 1);
+  return { wealthIndex: (1 - ssrc) / p.ssrcWealthFactor, clamped: ssrcSq < 0 || ssrcSq > 1 };
+}
+
+/** Formula aid for one district, or null when enrollment or wealth cannot be determined. */
+export function computeDistrictAid(
+  key: string,
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  params: FundingFormulaParams,
+): DistrictFormulaAid | null {
+  const e = enrollments[key];
+  if (!e || !(e.total > 0)) return null;
+  const base = { enrollment: e.total, frl: e.FRL ?? 0, lep: e.LEP ?? 0 };
+  const name = budgets[key]?.displayName ?? e.distname ?? key;
+
+  if (params.wealthIndex[key] != null) {
+    return { key, name, wealthSource: 'params', ...computeFormulaAid({ ...base, wealthIndex: params.wealthIndex[key] }, params) };
+  }
+
+  const stateRevenue = budgets[key]?.revenues?.state;
+  if (stateRevenue == null || stateRevenue <= 0) return null;
+  const foundation = foundationAmount(base, params);
+  const rawRatio = stateRevenue / foundation;
+  const { wealthIndex, clamped } = impliedWealthIndex(clamp(rawRatio, 0, 1), base.frl / base.enrollment, params);
+  return {
+    key,
+    name,
+    wealthSource: clamped || rawRatio > 1 ? 'calibrated-clamped' : 'calibrated',
+    ...computeFormulaAid({ ...base, wealthIndex }, params),
+  };
+}
+
+/**
+ * Formula aid for the selected districts separately and as one merged LEA.
+ * The merged wealth index is enrollment-weighted (combined property value over
+ * combined pupils).
+ */
+export function computeMergedAid(
+  selectedKeys: string[],
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  params: FundingFormulaParams,
+): MergedFormulaAid {
+  const keys = [...new Set(selectedKeys)];
+  const districts: DistrictFormulaAid[] = [];
+  const missing: string[] = [];
+  for (const k of keys) {
+    const d = computeDistrictAid(k, budgets, enrollments, params);
+    if (d) districts.push(d);
+    else missing.push(k);
+  }
+
+  const enrollment = districts.reduce((s, d) => s + d.enrollment, 0);
+  const frl = districts.reduce((s, d) => s + d.frl, 0);
+  const lep = districts.reduce((s, d) => s + d.lep, 0);
+  const wealthIndex = enrollment > 0 ? districts.reduce((s, d) => s + d.wealthIndex * d.enrollment, 0) / enrollment : 0;
+  const merged = computeFormulaAid({ enrollment, frl, lep, wealthIndex }, params);
+
+  const bonusRate = params.regionalizationBonus[0] ?? 0;
+  const regionalizationBonus = merged.aid * bonusRate;
+  const sumOfDistrictAid = districts.reduce((s, d) => s + d.aid, 0);
+  const ok = districts.length >= 2 && missing.length === 0;
+
+  const calibrated = districts.filter((d) => d.wealthSource !== 'params').map((d) => d.name);
+  const clamped = districts.filter((d) => d.wealthSource === 'calibrated-clamped').map((d) => d.name);
+  const assumptions = [
+    `${params.version} core instruction amount $${params.coreInstructionAmount.toLocaleString()}`,
+    `Student success factor ${Math.round(params.studentSuccessFactor * 100)}% of core per FRL student (all grades, not PK–6)`,
+    'Share ratio uses district-wide FRL % in place of PK–6 FRL %',
+    `Multilingual learner factor ${Math.round(params.multilingualLearnerFactor * 100)}% of core per LEP student`,
+    `Regionalization bonus ${(bonusRate * 100).toFixed(0)}% in year one`,
+  ];
+  if (calibrated.length > 0) {
+    assumptions.push(`Wealth index implied from reported state revenue (includes categorical aid): ${calibrated.join(', ')}`);
+  }
+  if (clamped.length > 0) {
+    assumptions.push(
+      `Implied wealth index clamped, so formula aid differs from reported state revenue and the aid delta is less reliable: ${clamped.join(', ')}`,
+    );
+  }
+
+  return {
+    version: params.version,
+    districts,
+    merged,
+    regionalizationBonus,
+    sumOfDistrictAid,
+    aidDelta: ok ? merged.aid + regionalizationBonus - sumOfDistrictAid : 0,
+    assumptions,
+    missing,
+    ok,
+  };
+}
+
+export async function loadFundingFormulaParams(): Promise<FundingFormulaParams> {
+  const res = await fetch('/funding/funding-formula.json');
+  if (!res.ok) throw new Error(`Failed to load funding formula params: ${res.status} ${res.statusText}`);
+  const params = (await res.json()) as FundingFormulaParams;
+  if (typeof params.version !== 'string' || !(params.coreInstructionAmount > 0)) {
+    throw new Error('Invalid funding formula params: missing version or coreInstructionAmount');
+  }
+  return { ...params, regionalizationBonus: params.regionalizationBonus ?? [], wealthIndex: params.wealthIndex ?? {} };
+}
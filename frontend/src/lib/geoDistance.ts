@@ -18,3 +18,62 @@ export function milesBetween(
     Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * sinHalfDLon * sinHalfDLon;
   return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
 }
+
+/**
+ * Drive distances from scripts/build-travel-matrix.ts (travel-matrix.json).
+ * Point ids are school feature ids and "anchor:<districtKey>".
+ */
+export interface TravelMatrix {
+  source: string;
+  points: { id: string; lat: number; lon: number; snapMiles: number }[];
+  miles: (number | null)[][];
+  minutes: (number | null)[][];
+}
+
+export interface TravelLeg {
+  miles: number;
+  /** Drive minutes; null for straight-line legs. */
+  minutes: number | null;
+  /** 'haversine' = matrix missing or pair not routed. */
+  source: 'road' | 'haversine';
+}
+
+export interface TravelPoint {
+  id: string;
+  lat: number;
+  lon: number;
+}
+
+export const anchorPointId = (districtKey: string) => `anchor:${districtKey}`;
+
+const matrixIndexCache = new WeakMap<TravelMatrix, Map<string, number>>();
+
+function matrixIndex(matrix: TravelMatrix): Map<string, number> {
+  let idx = matrixIndexCache.get(matrix);
+  if (!idx) {
+    idx = new Map(matrix.points.map((p, i) => [p.id, i]));
+    matrixIndexCache.set(matrix, idx);
+  }
+  return idx;
+}
+
+/** Road distance from the travel matrix, or straight-line miles when unavailable. */
+export function travelBetween(a: TravelPoint, b: TravelPoint, matrix: TravelMatrix | null | undefined): TravelLeg {
+  if (matrix) {
+    const idx = matrixIndex(matrix);
+    const i = idx.get(a.id);
+    const j = idx.get(b.id);
+    if (i !== undefined && j !== undefined) {
+      const miles = matrix.miles[i]?.[j];
+      if (miles != null) return { miles, minutes: matrix.minutes[i]?.[j] ?? null, source: 'road' };
+    }
+  }
+  return { miles: milesBetween(a, b), minutes: null, source: 'haversine' };
+}
+
+export async function loadTravelMatrix(): Promise<TravelMatrix> {
+  const res = await fetch('/geo/travel-matrix.json');
+  const ct = res.headers.get('content-type') ?? '';
+  if (!res.ok || ct.includes('text/html')) throw new Error(`Travel matrix not available: ${res.status}`);
+  return (await res.json()) as TravelMatrix;
+}
@@ -0,0 +1,111 @@
+/**
+ * Hub selection for the consolidation models. The hub is either pinned by the
+ * user or chosen by a strategy; all strategies only consider the selected
+ * districts, and the first selected district wins ties.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import { anchorPointId, travelBetween, type TravelMatrix } from './geoDistance';
+
+export type HubStrategy = 'largest-enrollment' | 'min-transport' | 'central' | 'lowest-per-pupil';
+
+export const HUB_STRATEGIES: { id: HubStrategy; label: string }[] = [
+  { id: 'largest-enrollment', label: 'Largest enrollment' },
+  { id: 'min-transport', label: 'Minimize transport (student-miles)' },
+  { id: 'central', label: 'Geographically central' },
+  { id: 'lowest-per-pupil', label: 'Lowest per-pupil cost' },
+];
+
+export interface HubInputs {
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  travel?: TravelMatrix | null;
+}
+
+export interface HubChoice {
+  hubKey: string;
+  /** Strategy used, or 'pinned'. */
+  method: HubStrategy | 'pinned';
+}
+
+/** Hub = district with the largest enrollment (first selected wins ties). */
+export function pickHubByEnrollment(keys: string[], enrollments: LeaEnrollmentMap): string {
+  let hubKey = keys[0];
+  let hubEnroll = 0;
+  for (const k of keys) {
+    const total = enrollments[k].total;
+    if (total > hubEnroll) { hubEnroll = total; hubKey = k; }
+  }
+  return hubKey;
+}
+
+function anchorMiles(from: string, to: string, inputs: HubInputs): number {
+  const a = inputs.anchors[from];
+  const b = inputs.anchors[to];
+  return travelBetween(
+    { id: anchorPointId(from), lat: a.lat, lon: a.lon },
+    { id: anchorPointId(to), lat: b.lat, lon: b.lon },
+    inputs.travel,
+  ).miles;
+}
+
+function argMin(keys: string[], score: (k: string) => number): string {
+  let best = keys[0];
+  let bestScore = Infinity;
+  for (const k of keys) {
+    const s = score(k);
+    if (s < bestScore) { bestScore = s; best = k; }
+  }
+  return best;
+}
+
+/** Score used by each strategy (lower is better; largest enrollment is negated). */
+export function hubScore(strategy: HubStrategy, candidate: string, keys: string[], inputs: HubInputs): number {
+  switch (strategy) {
+    case 'largest-enrollment':
+      return -inputs.enrollments[candidate].total;
+    case 'min-transport':
+      return keys.reduce(
+        (s, k) => (k === candidate ? s : s + anchorMiles(k, candidate, inputs) * inputs.enrollments[k].total),
+        0,
+      );
+    case 'central':
+      return keys.reduce((s, k) => (k === candidate ? s : s + anchorMiles(k, candidate, inputs)), 0);
+    case 'lowest-per-pupil': {
+      const enr = inputs.enrollments[candidate].total;
+      const spend = inputs.budgets[candidate]?.totalExpenditures;
+      return enr > 0 && spend != null ? spend / enr : Infinity;
+    }
+    default: {
+      const unknown: never = strategy;
+      throw new Error(`Unknown hub strategy: ${unknown}`);
+    }
+  }
+}
+
+export function pickHub(keys: string[], strategy: HubStrategy, inputs: HubInputs): string {
+  if (strategy === 'largest-enrollment') return pickHubByEnrollment(keys, inputs.enrollments);
+  return argMin(keys, (k) => hubScore(strategy, k, keys, inputs));
+}
+
+/** Pinned hub when it is among the selected districts, otherwise the strategy's pick. */
+export function selectHub(
+  keys: string[],
+  strategy: HubStrategy,
+  pinnedHubKey: string | null,
+  inputs: HubInputs,
+): HubChoice {
+  if (pinnedHubKey && keys.includes(pinnedHubKey)) return { hubKey: pinnedHubKey, method: 'pinned' };
+  return { hubKey: pickHub(keys, strategy, inputs), method: strategy };
+}
+
+/** Strategies that would pick each candidate, for labelling a comparison table. */
+export function strategyWinners(keys: string[], inputs: HubInputs): Record<string, HubStrategy[]> {
+  const out: Record<string, HubStrategy[]> = {};
+  for (const k of keys) out[k] = [];
+  for (const { id } of HUB_STRATEGIES) out[pickHub(keys, id, inputs)].push(id);
+  return out;
+}
@@ -0,0 +1,176 @@
+/**
+ * Monte Carlo uncertainty for the V1 consolidation estimate. Each run draws
+ * the three V1 parameters and a multiplier on every district's modeled
+ * central-administration cost, then recomputes net impact. Runs use a seeded
+ * generator so the same inputs always give the same bands.
+ *
+ * Admin inputs carrying data-quality flags (capped share, outlier, missing or
+ * negative components) get a much wider spread than clean ones.
+ */
+
+import type { BudgetsMap, DistrictBudget } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { TravelMatrix } from './geoDistance';
+import { clamp, computeConsolidationV1, type ConsolidationParamsV1 } from './consolidationV1';
+
+export type TriangularDistribution = { kind: 'triangular'; min: number; mode: number; max: number };
+
+export type Distribution =
+  | { kind: 'fixed'; value: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | TriangularDistribution
+  | { kind: 'normal'; mean: number; sd: number; min: number; max: number };
+
+export interface MonteCarloOptions {
+  runs: number;
+  seed: number;
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = { runs: 1000, seed: 1 };
+
+export interface UncertaintySummary {
+  runs: number;
+  seed: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  /** Share of runs with netImpact > 0. */
+  probNetSavings: number;
+  assumptions: string[];
+}
+
+/** Flags that make a district's admin figure unreliable. */
+const UNCERTAIN_ADMIN_FLAGS = [
+  'admin_share_capped_model',
+  'admin_share_outlier',
+  'missing_district_management',
+  'missing_program_operations_management',
+  'program_operations_management_negative',
+];
+
+const ADMIN_SD_CLEAN = 0.05;
+const ADMIN_SD_FLAGGED = 0.3;
+
+/** Mulberry32: small, fast, seedable PRNG returning [0, 1). */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sample(d: Distribution, rng: () => number): number {
+  switch (d.kind) {
+    case 'fixed':
+      return d.value;
+    case 'uniform':
+      return d.min + rng() * (d.max - d.min);
+    case 'triangular': {
+      const { min, mode, max } = d;
+      if (max <= min) return mode;
+      const u = rng();
+      const f = (mode - min) / (max - min);
+      return u < f
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'normal': {
+      // Box–Muller, truncated by clamping
+      const u1 = Math.max(rng(), 1e-12);
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * rng());
+      return clamp(d.mean + d.sd * z, d.min, d.max);
+    }
+  }
+}
+
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+export function parameterDistributions(
+  params: ConsolidationParamsV1,
+): Record<'adminReductionRate' | 'costPerStudentMile' | 'affectedShare', TriangularDistribution> {
+  const r = clamp(params.adminReductionRate, 0, 1);
+  const c = Math.max(0, params.costPerStudentMile);
+  const s = clamp(params.affectedShare, 0, 1);
+  return {
+    adminReductionRate: { kind: 'triangular', min: Math.max(0, r - 0.2), mode: r, max: Math.min(1, r + 0.2) },
+    costPerStudentMile: { kind: 'triangular', min: c * 0.7, mode: c, max: c * 1.3 },
+    affectedShare: { kind: 'triangular', min: Math.max(0, s - 0.1), mode: s, max: Math.min(1, s + 0.1) },
+  };
+}
+
+function hasUncertainAdmin(budget: DistrictBudget): boolean {
+  return budget.flags.some((f) => UNCERTAIN_ADMIN_FLAGS.includes(f));
+}
+
+/** Multiplier on a district's modeled central-administration cost. */
+export function adminInputDistribution(budget: DistrictBudget): Distribution {
+  return { kind: 'normal', mean: 1, sd: hasUncertainAdmin(budget) ? ADMIN_SD_FLAGGED : ADMIN_SD_CLEAN, min: 0, max: 3 };
+}
+
+export function runMonteCarloV1(
+  selectedKeys: string[],
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  anchors: DistrictAnchorsMap,
+  params: ConsolidationParamsV1,
+  matrix?: TravelMatrix | null,
+  options: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS,
+): UncertaintySummary | null {
+  const keys = [...new Set(selectedKeys)];
+  if (!computeConsolidationV1(keys, budgets, enrollments, anchors, params, matrix).ok) return null;
+
+  const rng = mulberry32(options.seed);
+  const paramDists = parameterDistributions(params);
+  const adminDists = keys.map((k) => [k, adminInputDistribution(budgets[k])] as const);
+
+  const nets: number[] = [];
+  for (let i = 0; i < options.runs; i++) {
+    const runParams: ConsolidationParamsV1 = {
+      ...params,
+      adminReductionRate: sample(paramDists.adminReductionRate, rng),
+      costPerStudentMile: sample(paramDists.costPerStudentMile, rng),
+      affectedShare: sample(paramDists.affectedShare, rng),
+    };
+    const runBudgets: BudgetsMap = { ...budgets };
+    for (const [k, d] of adminDists) {
+      const b = budgets[k];
+      runBudgets[k] = { ...b, centralAdministrationModel: b.centralAdministrationModel * sample(d, rng) };
+    }
+    nets.push(computeConsolidationV1(keys, runBudgets, enrollments, anchors, runParams, matrix).netImpact);
+  }
+
+  const sorted = [...nets].sort((a, b) => a - b);
+  const flagged = keys.filter((k) => hasUncertainAdmin(budgets[k])).map((k) => budgets[k].displayName);
+  const pctText = (v: number) => `${Math.round(v * 100)}%`;
+  const { adminReductionRate: ar, affectedShare: share } = paramDists;
+  const assumptions = [
+    `Admin reduction triangular ${pctText(ar.min)}–${pctText(ar.max)} (mode ${pctText(ar.mode)})`,
+    'Cost per student-mile triangular ±30%',
+    `Students busing further triangular ${pctText(share.min)}–${pctText(share.max)}`,
+    `District admin cost ±${ADMIN_SD_CLEAN * 100}% (1 sd), ±${ADMIN_SD_FLAGGED * 100}% when flagged`,
+  ];
+  if (flagged.length > 0) assumptions.push(`Flagged admin inputs: ${flagged.join(', ')}`);
+
+  return {
+    runs: options.runs,
+    seed: options.seed,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: nets.reduce((s, v) => s + v, 0) / nets.length,
+    probNetSavings: nets.filter((v) => v > 0).length / nets.length,
+    assumptions,
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Statewide consolidation optimizer: partitions districts into merged groups
+ * to maximize the V2 model's net impact.
+ *
+ * Greedy agglomeration: start from single districts (or regional units), and
+ * repeatedly apply the merge of two groups with the largest positive gain
+ * (net of the merged group minus the nets of both parts) that satisfies the
+ * constraints. Stops when no merge improves the total. Not guaranteed optimal,
+ * but every intermediate state is a valid partition.
+ *
+ * A regional unit (a regional district with its nested elementary districts)
+ * starts at its own model net, so its internal merger is part of the
+ * baseline: gains and reported net impacts only count savings beyond it.
+ *
+ * Runs in a Web Worker (optimizer.worker.ts) so the UI stays responsive.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { DistrictAdjacency } from './adjacency';
+import type { TransportGeo } from './transportModel';
+import { anchorPointId, travelBetween, type TravelMatrix } from './geoDistance';
+import {
+  computeConsolidationV2,
+  DEFAULT_COMPONENTS_V2,
+  type ConsolidationParamsV2,
+  type ConsolidationResultV2,
+} from './consolidationV2';
+
+export interface OptimizerConstraints {
+  /** Only merge groups that share a border. */
+  requireContiguity: boolean;
+  maxCombinedEnrollment: number;
+  /** Max distance from any member's anchor to the hub anchor. */
+  maxHubMiles: number;
+  /** Keep elementary districts together with the regional district they feed. */
+  keepRegionalIntact: boolean;
+  excludedKeys: string[];
+}
+
+export const DEFAULT_OPTIMIZER_CONSTRAINTS: OptimizerConstraints = {
+  requireContiguity: true,
+  maxCombinedEnrollment: 15000,
+  maxHubMiles: 20,
+  keepRegionalIntact: true,
+  excludedKeys: [],
+};
+
+export interface OptimizerInputs {
+  /** District keys to partition (from districts.geojson). */
+  keys: string[];
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  adjacency: DistrictAdjacency;
+  params: ConsolidationParamsV2;
+  geo?: TransportGeo;
+  travel?: TravelMatrix | null;
+}
+
+export interface OptimizerGroup {
+  keys: string[];
+  names: string[];
+  hubKey: string;
+  hubName: string;
+  combinedEnrollment: number;
+  /** Net impact beyond the starting units (a regional unit's own merger is not counted). */
+  netImpact: number;
+  /** Farthest member anchor from the hub anchor. */
+  maxHubMiles: number;
+}
+
+export interface OptimizerResult {
+  /** Proposed merged groups (two or more districts), best net impact first. */
+  groups: OptimizerGroup[];
+  totalNetImpact: number;
+  merges: number;
+  evaluations: number;
+  excluded: string[];
+  /** Districts left out because budget, enrollment or anchor data is missing. */
+  skipped: string[];
+  constraints: OptimizerConstraints;
+}
+
+export interface OptimizerProgress {
+  merges: number;
+  evaluations: number;
+  totalNetImpact: number;
+}
+
+const GROUP_COLORS = [
+  '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#46f0f0',
+  '#f032e6', '#bcf60c', '#008080', '#9a6324', '#800000', '#808000',
+];
+
+export function groupColor(index: number): string {
+  return GROUP_COLORS[index % GROUP_COLORS.length];
+}
+
+interface Unit {
+  keys: string[];
+  /** Model net impact of the group; 0 for a single district. */
+  net: number;
+  /** Sum of the starting units' nets; `net - baseline` is the gain over them. */
+  baseline: number;
+  /** Model result for a merged group; null for a starting unit. */
+  result: ConsolidationResultV2 | null;
+}
+
+/** Starting units: single districts, or regional districts with their nested elementary districts. */
+function initialUnits(inputs: OptimizerInputs, constraints: OptimizerConstraints): { units: string[][]; excluded: string[] } {
+  const { adjacency } = inputs;
+  const byRoot = new Map<string, string[]>();
+  for (const k of inputs.keys) {
+    const root = constraints.keepRegionalIntact ? (adjacency.nestedIn[k] ?? k) : k;
+    if (!byRoot.has(root)) byRoot.set(root, []);
+    byRoot.get(root)!.push(k);
+  }
+  const excludedSet = new Set(constraints.excludedKeys);
+  const units: string[][] = [];
+  const excluded: string[] = [];
+  for (const keys of byRoot.values()) {
+    if (keys.some((k) => excludedSet.has(k))) excluded.push(...keys);
+    else units.push(keys);
+  }
+  return { units, excluded };
+}
+
+export function optimizeConsolidation(
+  inputs: OptimizerInputs,
+  constraints: OptimizerConstraints,
+  onProgress?: (p: OptimizerProgress) => void,
+): OptimizerResult {
+  const { budgets, enrollments, anchors, adjacency, geo, travel } = inputs;
+  const params: ConsolidationParamsV2 = { ...inputs.params, pinnedHubKey: null };
+  const hasData = (k: string) => !!budgets[k] && enrollments[k]?.total > 0 && !!anchors[k];
+
+  const linked = (k: string): string[] => [
+    ...(adjacency.neighbors[k] ?? []),
+    ...(adjacency.nestedIn[k] ? [adjacency.nestedIn[k]] : []),
+    ...Object.keys(adjacency.nestedIn).filter((e) => adjacency.nestedIn[e] === k),
+  ];
+
+  const cache = new Map<string, ConsolidationResultV2>();
+  let evaluations = 0;
+  const evaluate = (keys: string[]): ConsolidationResultV2 => {
+    const id = [...keys].sort().join('|');
+    let r = cache.get(id);
+    if (!r) {
+      r = computeConsolidationV2(keys, budgets, enrollments, anchors, params, DEFAULT_COMPONENTS_V2, geo, travel);
+      cache.set(id, r);
+      evaluations++;
+    }
+    return r;
+  };
+
+  const hubMiles = (r: ConsolidationResultV2, keys: string[]): number => {
+    const hub = anchors[r.hubKey];
+    return Math.max(
+      0,
+      ...keys.map((k) =>
+        travelBetween(
+          { id: anchorPointId(k), lat: anchors[k].lat, lon: anchors[k].lon },
+          { id: anchorPointId(r.hubKey), lat: hub.lat, lon: hub.lon },
+          travel,
+        ).miles,
+      ),
+    );
+  };
+
+  const { units: startUnits, excluded } = initialUnits(inputs, constraints);
+  const skipped: string[] = [];
+  let groups: Unit[] = [];
+  for (const keys of startUnits) {
+    if (!keys.every(hasData)) {
+      skipped.push(...keys);
+      continue;
+    }
+    const start = keys.length > 1 ? evaluate(keys) : null;
+    const net = start?.ok ? start.netImpact : 0;
+    groups.push({ keys, net, baseline: net, result: null });
+  }
+  const totalGain = () => groups.reduce((s, g) => s + g.net - g.baseline, 0);
+
+  const enrollmentOf = (keys: string[]) => keys.reduce((s, k) => s + enrollments[k].total, 0);
+  const isAdjacent = (a: Unit, b: Unit) => {
+    const bKeys = new Set(b.keys);
+    return a.keys.some((k) => linked(k).some((n) => bKeys.has(n)));
+  };
+
+  let merges = 0;
+  for (;;) {
+    let best: { i: number; j: number; gain: number; keys: string[]; result: ConsolidationResultV2 } | null = null;
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        const a = groups[i];
+        const b = groups[j];
+        if (constraints.requireContiguity && !isAdjacent(a, b)) continue;
+        const keys = [...a.keys, ...b.keys];
+        if (enrollmentOf(keys) > constraints.maxCombinedEnrollment) continue;
+        const result = evaluate(keys);
+        if (!result.ok || hubMiles(result, keys) > constraints.maxHubMiles) continue;
+        const gain = result.netImpact - a.net - b.net;
+        if (gain > 0 && (!best || gain > best.gain)) best = { i, j, gain, keys, result };
+      }
+    }
+    if (!best) break;
+
+    const a = groups[best.i];
+    const b = groups[best.j];
+    const merged: Unit = { keys: best.keys, net: best.result.netImpact, baseline: a.baseline + b.baseline, result: best.result };
+    groups = groups.filter((_, idx) => idx !== best!.i && idx !== best!.j);
+    groups.push(merged);
+    merges++;
+    onProgress?.({ merges, evaluations, totalNetImpact: totalGain() });
+  }
+
+  const name = (k: string) => anchors[k]?.displayName ?? budgets[k]?.displayName ?? k;
+  const proposed = groups
+    .filter((g): g is Unit & { result: ConsolidationResultV2 } => g.result != null)
+    .map((g) => ({
+      keys: g.keys,
+      names: g.keys.map(name),
+      hubKey: g.result.hubKey,
+      hubName: g.result.hubName,
+      combinedEnrollment: g.result.combinedEnrollment,
+      netImpact: g.net - g.baseline,
+      maxHubMiles: hubMiles(g.result, g.keys),
+    }))
+    .sort((a, b) => b.netImpact - a.netImpact);
+
+  return {
+    groups: proposed,
+    totalNetImpact: proposed.reduce((s, g) => s + g.netImpact, 0),
+    merges,
+    evaluations,
+    excluded: excluded.map(name),
+    skipped: skipped.map(name),
+    constraints,
+  };
+}
+
+// --- Worker bridge ---
+
+export type OptimizerWorkerMessage =
+  | { type: 'progress'; progress: OptimizerProgress }
+  | { type: 'result'; result: OptimizerResult }
+  | { type: 'error'; message: string };
+
+export interface OptimizerWorkerRequest {
+  inputs: OptimizerInputs;
+  constraints: OptimizerConstraints;
+}
+
+/** Run the optimizer in a Web Worker. `cancel` terminates the worker and rejects the promise. */
+export function runOptimizerInWorker(
+  request: OptimizerWorkerRequest,
+  onProgress?: (p: OptimizerProgress) => void,
+): { promise: Promise<OptimizerResult>; cancel: () => void } {
+  const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+  let rejectFn: (e: Error) => void = () => {};
+  const promise = new Promise<OptimizerResult>((resolve, reject) => {
+    rejectFn = reject;
+    worker.onmessage = (e: MessageEvent<OptimizerWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'result') resolve(msg.result);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Optimizer worker failed'));
+    };
+  });
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectFn(new Error('Optimizer cancelled'));
+    },
+  };
+}
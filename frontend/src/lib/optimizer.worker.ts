@@ -0,0 +1,13 @@
+import { optimizeConsolidation, type OptimizerWorkerMessage, type OptimizerWorkerRequest } from './optimizer';
+
+const post = (msg: OptimizerWorkerMessage) => postMessage(msg);
+
+onmessage = (e: MessageEvent<OptimizerWorkerRequest>) => {
+  try {
+    const { inputs, constraints } = e.data;
+    const result = optimizeConsolidation(inputs, constraints, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,169 @@
+/**
+ * Peer district finder: the districts most similar to a target on size,
+ * spending, admin share, student needs and racial/ethnic mix. Each metric is
+ * z-scored across all candidate districts and the distance is a weighted
+ * root-mean-square of the differences, so weights are relative.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { Demographics, LeaEnrollmentMap } from './enrollment';
+
+export type PeerFeatureId = 'enrollment' | 'perPupil' | 'adminShare' | 'frlRate' | 'lepRate' | 'iepRate' | 'demographics';
+
+export const PEER_FEATURES: { id: PeerFeatureId; label: string }[] = [
+  { id: 'enrollment', label: 'Enrollment size' },
+  { id: 'perPupil', label: 'Per-pupil spending' },
+  { id: 'adminShare', label: 'Central admin share' },
+  { id: 'frlRate', label: 'FRL %' },
+  { id: 'lepRate', label: 'LEP %' },
+  { id: 'iepRate', label: 'IEP %' },
+  { id: 'demographics', label: 'Racial/ethnic mix' },
+];
+
+/** Shares compared for the demographic mix (gender is left out). */
+const MIX_GROUPS: (keyof Demographics)[] = ['WHITE', 'HISPANIC', 'BLACK', 'ASIAN', 'MULTIRACE', 'NATIVE', 'PACIFICISLANDER'];
+
+export interface PeerParams {
+  count: number;
+  /** Relative weight per metric; 0 leaves it out. */
+  weights: Record<PeerFeatureId, number>;
+}
+
+/** Admin share starts unweighted so the peer median can serve as an independent admin-share benchmark. */
+export const DEFAULT_PEER_PARAMS: PeerParams = {
+  count: 5,
+  weights: { enrollment: 1, perPupil: 1, adminShare: 0, frlRate: 1, lepRate: 1, iepRate: 1, demographics: 1 },
+};
+
+export const PEER_MAX_COUNT = 10;
+
+export interface PeerMatch {
+  key: string;
+  /** Weighted RMS of z-score differences; 0 = identical. */
+  distance: number;
+  enrollment: number | null;
+  perPupil: number | null;
+  adminShare: number | null;
+}
+
+export interface PeerResult {
+  targetKey: string;
+  peers: PeerMatch[];
+  /** Median model admin share of the peers (null when none have budget data). */
+  peerMedianAdminShare: number | null;
+  peerMedianPerPupil: number | null;
+}
+
+type Scalars = Partial<Record<Exclude<PeerFeatureId, 'demographics'>, number>>;
+
+interface Profile {
+  scalars: Scalars;
+  /** Share of total enrollment per MIX_GROUPS entry. */
+  mix: number[] | null;
+}
+
+function profileOf(key: string, budgets: BudgetsMap | null, enrollments: LeaEnrollmentMap): Profile | null {
+  const e = enrollments[key];
+  if (!e?.total) return null;
+  const b = budgets?.[key];
+  const scalars: Scalars = { enrollment: Math.log(e.total) };
+  if (b) {
+    scalars.perPupil = b.totalExpenditures / e.total;
+    if (b.adminShareOfTotalModel != null) scalars.adminShare = b.adminShareOfTotalModel;
+  }
+  if (e.FRL != null) scalars.frlRate = e.FRL / e.total;
+  if (e.LEP != null) scalars.lepRate = e.LEP / e.total;
+  if (e.IEP != null) scalars.iepRate = e.IEP / e.total;
+  const d = e.demographics;
+  const mix = d ? MIX_GROUPS.map((g) => (d[g] ?? 0) / e.total) : null;
+  return { scalars, mix };
+}
+
+function meanSd(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return { mean, sd: Math.sqrt(variance) };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/**
+ * Rank `candidateKeys` by similarity to `targetKey`. Metrics missing for
+ * either district are skipped for that pair; a pair needs at least half of
+ * the total weight to be comparable. Enrollment is compared on a log scale.
+ */
+export function findPeers(
+  targetKey: string,
+  candidateKeys: string[],
+  budgets: BudgetsMap | null,
+  enrollments: LeaEnrollmentMap,
+  params: PeerParams,
+): PeerResult | null {
+  const profiles = new Map<string, Profile>();
+  for (const k of new Set([targetKey, ...candidateKeys])) {
+    const p = profileOf(k, budgets, enrollments);
+    if (p) profiles.set(k, p);
+  }
+  const target = profiles.get(targetKey);
+  if (!target) return null;
+
+  const all = [...profiles.values()];
+  const scalarIds = PEER_FEATURES.map((f) => f.id).filter((id): id is keyof Scalars => id !== 'demographics');
+  const scalarStats = new Map(
+    scalarIds.map((id) => [id, meanSd(all.flatMap((p) => (p.scalars[id] != null ? [p.scalars[id]!] : [])))]),
+  );
+  const mixes = all.flatMap((p) => (p.mix ? [p.mix] : []));
+  const mixStats = MIX_GROUPS.map((_, i) => meanSd(mixes.map((m) => m[i])));
+
+  const totalWeight = PEER_FEATURES.reduce((s, f) => s + Math.max(0, params.weights[f.id]), 0);
+  if (totalWeight === 0) return { targetKey, peers: [], peerMedianAdminShare: null, peerMedianPerPupil: null };
+
+  const z = (diff: number, sd: number) => (sd > 0 ? diff / sd : 0);
+  const distance = (p: Profile): number | null => {
+    let sum = 0;
+    let used = 0;
+    for (const id of scalarIds) {
+      const w = Math.max(0, params.weights[id]);
+      const a = target.scalars[id];
+      const b = p.scalars[id];
+      if (w === 0 || a == null || b == null) continue;
+      sum += w * z(a - b, scalarStats.get(id)!.sd) ** 2;
+      used += w;
+    }
+    const wMix = Math.max(0, params.weights.demographics);
+    if (wMix > 0 && target.mix && p.mix) {
+      const terms = MIX_GROUPS.map((_, i) => z(target.mix![i] - p.mix![i], mixStats[i].sd) ** 2);
+      sum += (wMix * terms.reduce((s, t) => s + t, 0)) / terms.length;
+      used += wMix;
+    }
+    return used >= totalWeight / 2 ? Math.sqrt(sum / used) : null;
+  };
+
+  const ranked: PeerMatch[] = [];
+  for (const [key, p] of profiles) {
+    if (key === targetKey) continue;
+    const d = distance(p);
+    if (d == null) continue;
+    ranked.push({
+      key,
+      distance: d,
+      enrollment: enrollments[key].total,
+      perPupil: p.scalars.perPupil ?? null,
+      adminShare: p.scalars.adminShare ?? null,
+    });
+  }
+  ranked.sort((a, b) => a.distance - b.distance || a.key.localeCompare(b.key));
+  const peers = ranked.slice(0, Math.max(1, Math.min(PEER_MAX_COUNT, params.count)));
+
+  return {
+    targetKey,
+    peers,
+    peerMedianAdminShare: median(peers.flatMap((p) => (p.adminShare != null ? [p.adminShare] : []))),
+    peerMedianPerPupil: median(peers.flatMap((p) => (p.perPupil != null ? [p.perPupil] : []))),
+  };
+}
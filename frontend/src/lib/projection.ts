@@ -0,0 +1,161 @@
+/**
+ * Multi-year merger timeline built on the single-year V1 snapshot.
+ *
+ * Year t (1..years), in today's dollars:
+ *   admin savings   = steady admin savings × min(1, t / adminPhaseInYears)
+ *   transportation  = steady transport cost × enrollment index (trend, or a
+ *                     cohort-survival forecast when one is supplied)
+ *   salary leveling = steady harmonization cost × min(1, t / salaryRampYears)
+ *   one-time costs  = contract buyouts + IT unification (split over years 1–2) + rebranding (year 1)
+ *   net             = admin savings − transportation − salary leveling − one-time costs
+ *
+ * NPV discounts each year by (1 + discountRate)^t. Payback is the (interpolated)
+ * point where cumulative net turns non-negative and stays so.
+ */
+
+import { clamp, type ConsolidationResultV1 } from './consolidationV1';
+
+export interface ProjectionParams {
+  years: number;
+  discountRate: number;
+  /** Spoke superintendent/central office contract buyouts, as a share of spoke admin cost. */
+  buyoutShareOfSpokeAdmin: number;
+  itUnificationPerStudent: number;
+  rebrandingPerSpoke: number;
+  /** Years until admin reductions reach their steady-state rate. */
+  adminPhaseInYears: number;
+  /** Years until salary schedules are fully leveled. */
+  salaryRampYears: number;
+  /** Annual enrollment change (e.g. -0.01 = 1% decline per year). */
+  enrollmentTrend: number;
+}
+
+export const DEFAULT_PROJECTION_PARAMS: ProjectionParams = {
+  years: 7,
+  discountRate: 0.03,
+  buyoutShareOfSpokeAdmin: 0.5,
+  itUnificationPerStudent: 40,
+  rebrandingPerSpoke: 25000,
+  adminPhaseInYears: 3,
+  salaryRampYears: 4,
+  enrollmentTrend: 0,
+};
+
+export const PROJECTION_MIN_YEARS = 5;
+export const PROJECTION_MAX_YEARS = 10;
+
+export interface ProjectionYear {
+  year: number;
+  enrollment: number;
+  adminSavings: number;
+  transportation: number;
+  salaryHarmonization: number;
+  oneTimeCosts: number;
+  net: number;
+  discountedNet: number;
+  cumulativeNet: number;
+  cumulativeDiscountedNet: number;
+}
+
+export interface ProjectionResult {
+  years: ProjectionYear[];
+  npv: number;
+  /** Years until cumulative net stays ≥ 0; null if not within the horizon. */
+  paybackYears: number | null;
+  discountedPaybackYears: number | null;
+  totalOneTimeCosts: number;
+  /** Net in a year after all phase-ins, at today's enrollment and without one-time costs. */
+  steadyStateNet: number;
+  assumptions: string[];
+}
+
+/**
+ * First point (fractional year) after which the cumulative series stays
+ * non-negative. `cumulative[0]` is the end of year 1; `start` is the value at
+ * year 0 (year 1's one-time costs, paid up front), so a payback within year 1
+ * interpolates as a fraction of it instead of reporting 0.
+ */
+function paybackPoint(cumulative: number[], start: number): number | null {
+  const series = [start, ...cumulative];
+  if (series[series.length - 1] < 0) return null;
+  let i = series.length - 1;
+  while (i > 0 && series[i - 1] >= 0) i--;
+  if (i === 0) return 0;
+  const prev = series[i - 1];
+  const curr = series[i];
+  return i - 1 + (curr === prev ? 0 : -prev / (curr - prev));
+}
+
+export function computeProjection(
+  base: ConsolidationResultV1,
+  salaryHarmonizationCost: number,
+  params: ProjectionParams,
+  /** Forecast combined enrollment for years 0..N; overrides enrollmentTrend. */
+  enrollmentPath?: number[] | null,
+): ProjectionResult | null {
+  if (!base.ok) return null;
+  const horizon = Math.round(clamp(params.years, PROJECTION_MIN_YEARS, PROJECTION_MAX_YEARS));
+  const rate = Math.max(0, params.discountRate);
+  const adminPhase = Math.max(1, params.adminPhaseInYears);
+  const salaryRamp = Math.max(1, params.salaryRampYears);
+  const spokeCount = base.spokeBreakdown.length;
+
+  const buyouts = params.buyoutShareOfSpokeAdmin * base.adminBaselineSpokes;
+  const itTotal = params.itUnificationPerStudent * base.combinedEnrollment;
+  const rebranding = params.rebrandingPerSpoke * spokeCount;
+  const oneTimeByYear = (t: number) =>
+    (t === 1 ? buyouts + rebranding + itTotal * 0.6 : 0) + (t === 2 ? itTotal * 0.4 : 0);
+
+  const usePath = !!enrollmentPath && enrollmentPath.length > horizon && enrollmentPath[0] > 0;
+  const indexFor = (t: number) =>
+    usePath ? enrollmentPath![t] / enrollmentPath![0] : (1 + params.enrollmentTrend) ** t;
+
+  const years: ProjectionYear[] = [];
+  let cumulativeNet = 0;
+  let cumulativeDiscountedNet = 0;
+  for (let t = 1; t <= horizon; t++) {
+    const enrollmentIndex = indexFor(t);
+    const adminSavings = base.adminSavings * Math.min(1, t / adminPhase);
+    const transportation = base.transportationIncrease * enrollmentIndex;
+    const salaryHarmonization = salaryHarmonizationCost * Math.min(1, t / salaryRamp);
+    const oneTimeCosts = oneTimeByYear(t);
+    const net = adminSavings - transportation - salaryHarmonization - oneTimeCosts;
+    const discountedNet = net / (1 + rate) ** t;
+    cumulativeNet += net;
+    cumulativeDiscountedNet += discountedNet;
+    years.push({
+      year: t,
+      enrollment: base.combinedEnrollment * enrollmentIndex,
+      adminSavings,
+      transportation,
+      salaryHarmonization,
+      oneTimeCosts,
+      net,
+      discountedNet,
+      cumulativeNet,
+      cumulativeDiscountedNet,
+    });
+  }
+
+  const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+  const assumptions = [
+    `Contract buyouts ${Math.round(params.buyoutShareOfSpokeAdmin * 100)}% of spoke admin cost (${$(buyouts)}) in year 1`,
+    `IT/system unification ${$(params.itUnificationPerStudent)} per student (${$(itTotal)}), 60% year 1 / 40% year 2`,
+    `Rebranding ${$(params.rebrandingPerSpoke)} per merged district (${$(rebranding)}) in year 1`,
+    `Admin reductions phased in over ${adminPhase} year(s); salary leveling over ${salaryRamp} year(s)`,
+    usePath
+      ? `Enrollment from cohort-survival forecast: ${(indexFor(horizon) * 100 - 100).toFixed(1)}% by year ${horizon} (scales transportation)`
+      : `Enrollment ${params.enrollmentTrend >= 0 ? '+' : ''}${(params.enrollmentTrend * 100).toFixed(1)}%/yr (scales transportation)`,
+    `Discount rate ${(rate * 100).toFixed(1)}%; constant dollars`,
+  ];
+
+  return {
+    years,
+    npv: cumulativeDiscountedNet,
+    paybackYears: paybackPoint(years.map((y) => y.cumulativeNet), -oneTimeByYear(1)),
+    discountedPaybackYears: paybackPoint(years.map((y) => y.cumulativeDiscountedNet), -oneTimeByYear(1)),
+    totalOneTimeCosts: buyouts + itTotal + rebranding,
+    steadyStateNet: base.adminSavings - base.transportationIncrease - salaryHarmonizationCost,
+    assumptions,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Printable sandbox report: one self-contained HTML document (map, inputs,
+ * calculation breakdown, warnings, methodology) opened in a new window and
+ * sent to the browser's print dialog, so it can be saved as PDF.
+ *
+ * The map is drawn as SVG from the district polygons rather than captured
+ * from the live MapLibre canvas: it is framed on the merged districts
+ * regardless of the current view and stays sharp when printed.
+ */
+
+import type { DistrictFeature, GeoJSONFC } from '../types';
+import type { BudgetsMap } from './budgets';
+import { districtKey, type LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { ConsolidationParamsV1, ConsolidationResultV1 } from './consolidationV1';
+import { HUB_STRATEGIES } from './hubSelection';
+
+export interface ScenarioReportInput {
+  title: string;
+  keys: string[];
+  result: ConsolidationResultV1;
+  params: ConsolidationParamsV1;
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  districts: GeoJSONFC<DistrictFeature> | null;
+  enrollmentYear: number | null;
+  nameOf: (key: string) => string;
+  /** Link back to the same view in the app. */
+  url?: string;
+}
+
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const $ = (n: number) => `$${Math.round(n).toLocaleString()}`;
+const signed$ = (n: number) => (n >= 0 ? `+${$(n)}` : `-${$(Math.abs(n))}`);
+const pct = (n: number | null | undefined, digits = 1) => (n == null ? '—' : `${(n * 100).toFixed(digits)}%`);
+const rate = (n: number | undefined, total: number) => (n == null || total <= 0 ? '—' : pct(n / total));
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 420;
+const MERGED_COLORS = ['#1565c0', '#2e7d32', '#ef6c00', '#6a1b9a', '#00838f', '#ad1457', '#5d4037', '#827717'];
+
+function polygonsOf(f: DistrictFeature): number[][][][] {
+  const coords = f.geometry.coordinates as unknown;
+  return f.geometry.type === 'Polygon' ? [coords as number[][][]] : (coords as number[][][][]);
+}
+
+/** SVG of the merged districts (colored), their neighbours (gray), spoke lines and the hub anchor. */
+export function reportMapSvg(
+  districts: GeoJSONFC<DistrictFeature> | null,
+  keys: string[],
+  anchors: DistrictAnchorsMap,
+  hubKey: string,
+): string {
+  const selected = new Set(keys);
+  const features = (districts?.features ?? []).map((f) => ({
+    f,
+    key: districtKey(f.properties.district_name ?? f.properties.name ?? ''),
+  }));
+  const merged = features.filter((d) => selected.has(d.key));
+
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+  const extend = (lon: number, lat: number) => {
+    minLon = Math.min(minLon, lon); maxLon = Math.max(maxLon, lon);
+    minLat = Math.min(minLat, lat); maxLat = Math.max(maxLat, lat);
+  };
+  for (const { f } of merged) for (const poly of polygonsOf(f)) for (const ring of poly) for (const [lon, lat] of ring) extend(lon, lat);
+  for (const k of keys) if (anchors[k]) extend(anchors[k].lon, anchors[k].lat);
+  if (!Number.isFinite(minLon)) return '<p class="muted">No district boundaries available for a map.</p>';
+
+  // Pad 15% and match the SVG aspect ratio (equirectangular, scaled by cos(lat)).
+  const kx = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  let w = (maxLon - minLon) * kx * 1.3 || 0.05;
+  let h = (maxLat - minLat) * 1.3 || 0.05;
+  if (w / h > MAP_WIDTH / MAP_HEIGHT) h = (w * MAP_HEIGHT) / MAP_WIDTH;
+  else w = (h * MAP_WIDTH) / MAP_HEIGHT;
+  const cx = ((minLon + maxLon) / 2) * kx;
+  const cy = (minLat + maxLat) / 2;
+  const x = (lon: number) => (((lon * kx - cx) / w + 0.5) * MAP_WIDTH).toFixed(1);
+  const y = (lat: number) => ((0.5 - (lat - cy) / h) * MAP_HEIGHT).toFixed(1);
+  const path = (f: DistrictFeature) =>
+    polygonsOf(f)
+      .flatMap((poly) => poly.map((ring) => `M${ring.map(([lon, lat]) => `${x(lon)},${y(lat)}`).join('L')}Z`))
+      .join('');
+
+  const colorOf = new Map(keys.map((k, i) => [k, MERGED_COLORS[i % MERGED_COLORS.length]]));
+  const parts: string[] = [];
+  const inView = (f: DistrictFeature) =>
+    polygonsOf(f).some((poly) =>
+      poly[0].some(([lon, lat]) => Math.abs(lon * kx - cx) <= w / 2 && Math.abs(lat - cy) <= h / 2),
+    );
+  for (const { f, key } of features) {
+    if (selected.has(key) || !inView(f)) continue;
+    parts.push(`<path d="${path(f)}" fill="#f2f2f2" stroke="#bbb" stroke-width="0.6"/>`);
+  }
+  for (const { f, key } of merged) {
+    parts.push(`<path d="${path(f)}" fill="${colorOf.get(key)}" fill-opacity="0.25" stroke="${colorOf.get(key)}" stroke-width="1.4"/>`);
+  }
+  const hub = anchors[hubKey];
+  for (const k of keys) {
+    const a = anchors[k];
+    if (!a || k === hubKey) continue;
+    if (hub) {
+      parts.push(`<line x1="${x(a.lon)}" y1="${y(a.lat)}" x2="${x(hub.lon)}" y2="${y(hub.lat)}" stroke="#333" stroke-width="1.2" stroke-dasharray="4 3"/>`);
+    }
+    parts.push(`<circle cx="${x(a.lon)}" cy="${y(a.lat)}" r="4" fill="#fff" stroke="#333" stroke-width="1.5"/>`);
+  }
+  if (hub) {
+    parts.push(`<circle cx="${x(hub.lon)}" cy="${y(hub.lat)}" r="7" fill="#c62828" stroke="#fff" stroke-width="2"/>`);
+  }
+  for (const k of keys) {
+    const a = anchors[k];
+    if (!a) continue;
+    parts.push(
+      `<text x="${x(a.lon)}" y="${(Number(y(a.lat)) - 10).toFixed(1)}" text-anchor="middle" font-size="11" font-weight="${k === hubKey ? 700 : 500}" fill="#222" stroke="#fff" stroke-width="3" paint-order="stroke">${esc(a.displayName)}${k === hubKey ? ' (hub)' : ''}</text>`,
+    );
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" width="100%" style="border:1px solid #ccc;background:#fff">${parts.join('')}</svg>`;
+}
+
+const METHODOLOGY = [
+  'Spending and central administration come from RIDE In$ite expenditure files (budgets.json). “Central administration (model)” is the district management and program operations management figure used by the calculator; the raw figure is shown for reference.',
+  'Enrollment is the RIDE October count for the year shown. FRL, LEP and IEP rates are district counts divided by total enrollment.',
+  'Each district is represented by an anchor point (usually its largest school). The hub is chosen by the selected hub strategy unless pinned; all other districts are spokes.',
+  'Admin savings = spoke districts’ central administration (model) × the admin reduction rate. The hub’s administration is kept in full.',
+  'Transportation increase = Σ over spokes of anchor-to-hub distance × spoke enrollment × share of students busing further × cost per student-mile. Road distances are used where the travel matrix has them; otherwise straight-line distance.',
+  'Net impact = admin savings − transportation increase (positive = net savings). Projected spending = combined spending − net impact.',
+  'The estimate is a first-order screen: it does not model salary harmonization, facilities, state aid or transition costs. See the component model (V2) and state aid panels in the app for those.',
+];
+
+/** Full HTML document for the report. */
+export function buildScenarioReport(input: ScenarioReportInput): string {
+  const { result: r, params, budgets, enrollments, anchors, keys, nameOf } = input;
+  const generated = new Date();
+  const hubMethod =
+    r.hubMethod === 'pinned' ? 'pinned' : HUB_STRATEGIES.find((s) => s.id === r.hubMethod)?.label ?? r.hubMethod;
+  const ordered = [r.hubKey, ...keys.filter((k) => k !== r.hubKey)];
+
+  const inputRows = ordered
+    .map((k) => {
+      const b = budgets[k];
+      const e = enrollments[k];
+      const a = anchors[k];
+      const flags = [...(b?.flags ?? []).map((f) => `Budget: ${f}`), ...(a?.flags ?? []).map((f) => `Anchor: ${f}`)];
+      return `<tr>
+        <td>${esc(nameOf(k))}${k === r.hubKey ? ' <b>(hub)</b>' : ''}</td>
+        <td>${esc(b?.fiscalYear ?? '—')}</td>
+        <td class="num">${b ? $(b.totalExpenditures) : '—'}</td>
+        <td class="num">${b ? $(b.centralAdministration) : '—'}</td>
+        <td class="num">${b ? $(b.centralAdministrationModel) : '—'}</td>
+        <td class="num">${pct(b?.adminShareOfTotalModel)}</td>
+        <td class="num">${e ? e.total.toLocaleString() : '—'}</td>
+        <td class="num">${e && b && e.total > 0 ? $(b.totalExpenditures / e.total) : '—'}</td>
+        <td class="num">${e ? rate(e.FRL, e.total) : '—'}</td>
+        <td class="num">${e ? rate(e.LEP, e.total) : '—'}</td>
+        <td class="num">${e ? rate(e.IEP, e.total) : '—'}</td>
+        <td>${a ? `${esc(a.anchorType)}${a.anchorSchool ? `: ${esc(a.anchorSchool.name)}` : ''}` : '—'}</td>
+      </tr>
+      ${flags.length > 0 ? `<tr class="flags"><td colspan="12">${flags.map(esc).join('<br/>')}</td></tr>` : ''}`;
+    })
+    .join('');
+
+  const spokeRows = r.spokeBreakdown
+    .map(
+      (s) => `<tr>
+        <td>${esc(s.name)}</td>
+        <td class="num">${s.distanceMiles.toFixed(1)}${s.distanceSource === 'haversine' ? ' *' : ''}</td>
+        <td class="num">${s.enrollment.toLocaleString()}</td>
+        <td class="num">${pct(params.affectedShare, 0)}</td>
+        <td class="num">$${params.costPerStudentMile.toFixed(2)}</td>
+        <td class="num">${$(s.cost)}</td>
+      </tr>`,
+    )
+    .join('');
+  const straightLine = r.spokeBreakdown.some((s) => s.distanceSource === 'haversine');
+
+  const u = r.uncertainty;
+  const warnings = [
+    ...r.warnings,
+    ...(r.missing.budgets.length ? [`Missing budget data: ${r.missing.budgets.map(nameOf).join(', ')}`] : []),
+    ...(r.missing.enrollment.length ? [`Missing enrollment data: ${r.missing.enrollment.map(nameOf).join(', ')}`] : []),
+    ...(r.missing.anchors.length ? [`Missing anchors: ${r.missing.anchors.map(nameOf).join(', ')}`] : []),
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${esc(input.title)}</title>
+<style>
+  @page { size: letter; margin: 0.6in; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #222; font-size: 11pt; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; margin: 18px 0 6px; border-bottom: 1px solid #ccc; padding-bottom: 2px; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .muted { color: #666; font-size: 9pt; }
+  table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+  th, td { padding: 3px 4px; border-bottom: 1px solid #e0e0e0; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; font-weight: 600; }
+  .num { text-align: right; white-space: nowrap; }
+  tr.flags td { color: #e65100; font-size: 8pt; border-bottom: 1px solid #ccc; }
+  .headline { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin: 12px 0; }
+  .headline div { border: 1px solid #ddd; border-radius: 4px; padding: 6px 8px; }
+  .headline b { display: block; font-size: 13pt; }
+  .pos { color: #2e7d32; } .neg { color: #c62828; }
+  .warnings { background: #fff3e0; color: #e65100; padding: 6px 10px; border-radius: 4px; font-size: 9pt; }
+  ol { font-size: 9pt; padding-left: 18px; } li { margin-bottom: 4px; }
+  @media screen { body { max-width: 8.5in; margin: 0 auto; padding: 24px; } }
+</style>
+</head>
+<body>
+<section class="page">
+  <h1>${esc(input.title)}</h1>
+  <div class="muted">
+    ${esc(ordered.map(nameOf).join(' · '))}<br/>
+    Generated ${esc(generated.toLocaleString())}${input.enrollmentYear != null ? ` · October ${input.enrollmentYear} enrollment` : ''}
+    ${input.url ? `<br/>${esc(input.url)}` : ''}
+  </div>
+  <div class="headline">
+    <div>Combined enrollment<b>${r.combinedEnrollment.toLocaleString()}</b></div>
+    <div>Admin savings<b class="pos">${$(r.adminSavings)}</b></div>
+    <div>Transportation increase<b class="neg">${$(r.transportationIncrease)}</b></div>
+    <div>Net impact<b class="${r.netImpact >= 0 ? 'pos' : 'neg'}">${signed$(r.netImpact)}</b></div>
+  </div>
+  ${reportMapSvg(input.districts, keys, anchors, r.hubKey)}
+  <div class="muted">Hub: <b>${esc(r.hubName)}</b> (${esc(hubMethod.toLowerCase())}), shown in red; dashed lines connect spoke anchors to the hub.</div>
+</section>
+
+<section class="page">
+  <h2>Inputs</h2>
+  <table>
+    <thead><tr>
+      <th>District</th><th>Fiscal year</th><th class="num">Total expenditures</th><th class="num">Central admin (raw)</th>
+      <th class="num">Central admin (model)</th><th class="num">Admin share</th><th class="num">Enrollment</th>
+      <th class="num">Per pupil</th><th class="num">FRL</th><th class="num">LEP</th><th class="num">IEP</th><th>Anchor</th>
+    </tr></thead>
+    <tbody>${inputRows}</tbody>
+  </table>
+  <div class="muted">Data flags from the source files are listed under each district.</div>
+
+  <h2>Parameters</h2>
+  <table>
+    <tbody>
+      <tr><td>Hub strategy</td><td class="num">${esc(hubMethod)}</td></tr>
+      <tr><td>Admin reduction (spoke districts)</td><td class="num">${pct(params.adminReductionRate, 0)}</td></tr>
+      <tr><td>Students busing further</td><td class="num">${pct(params.affectedShare, 0)}</td></tr>
+      <tr><td>Cost per student-mile</td><td class="num">$${params.costPerStudentMile.toFixed(2)}</td></tr>
+    </tbody>
+  </table>
+</section>
+
+<section class="page">
+  <h2>Calculation</h2>
+  <table>
+    <tbody>
+      <tr><td>Combined spending</td><td class="num">${$(r.combinedSpending)}</td></tr>
+      <tr><td>Baseline per pupil</td><td class="num">${$(r.baselinePerPupil)}</td></tr>
+      <tr><td>Hub central administration (kept)</td><td class="num">${$(r.adminBaselineHub)}</td></tr>
+      <tr><td>Spoke central administration</td><td class="num">${$(r.adminBaselineSpokes)}</td></tr>
+      <tr><td>Admin savings (${$(r.adminBaselineSpokes)} × ${pct(params.adminReductionRate, 0)})</td><td class="num pos">${$(r.adminSavings)}</td></tr>
+      <tr><td>Transportation increase (below)</td><td class="num neg">${$(r.transportationIncrease)}</td></tr>
+      <tr><td><b>Net impact</b> (${pct(r.netImpactPctCombined, 2)} of combined, ${pct(r.netImpactPctSpokesSpending, 2)} of spokes’ spending)</td><td class="num ${r.netImpact >= 0 ? 'pos' : 'neg'}"><b>${signed$(r.netImpact)}</b></td></tr>
+      ${u ? `<tr><td>Monte Carlo P10 / P50 / P90 (${u.runs.toLocaleString()} runs; ${Math.round(u.probNetSavings * 100)}% chance of net savings)</td><td class="num">${signed$(u.p10)} / ${signed$(u.p50)} / ${signed$(u.p90)}</td></tr>` : ''}
+      <tr><td>Projected spending</td><td class="num">${$(r.projectedSpending)}</td></tr>
+      <tr><td>Projected per pupil</td><td class="num">${$(r.projectedPerPupil)}</td></tr>
+    </tbody>
+  </table>
+
+  <h2>Transportation by spoke</h2>
+  <table>
+    <thead><tr><th>Spoke</th><th class="num">Miles to hub</th><th class="num">Enrollment</th><th class="num">Busing further</th><th class="num">$/student-mile</th><th class="num">Cost</th></tr></thead>
+    <tbody>${spokeRows}</tbody>
+  </table>
+  ${straightLine ? '<div class="muted">* Straight-line distance; no road distance in the travel matrix.</div>' : ''}
+
+  <h2>Warnings</h2>
+  ${warnings.length > 0 ? `<div class="warnings">${warnings.map((w) => `· ${esc(w)}`).join('<br/>')}</div>` : '<div class="muted">None.</div>'}
+
+  <h2>Methodology</h2>
+  <ol>${METHODOLOGY.map((m) => `<li>${esc(m)}</li>`).join('')}</ol>
+</section>
+</body>
+</html>`;
+}
+
+/** Open the report in a new window and show the print dialog. Returns false if the popup was blocked. */
+export function openPrintableReport(html: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 300);
+  return true;
+}
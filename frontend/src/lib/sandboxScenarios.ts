@@ -0,0 +1,54 @@
+/**
+ * Several district groupings held by the sandbox at once, compared side by
+ * side under the same parameters. Each scenario keeps its tab color on the map.
+ */
+
+import type { SandboxScenario } from '../types';
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { TravelMatrix } from './geoDistance';
+import { computeConsolidationV1, type ConsolidationParamsV1, type ConsolidationResultV1 } from './consolidationV1';
+import { groupColor } from './optimizer';
+
+export const MAX_SANDBOX_SCENARIOS = 4;
+
+/** "Scenario A", "Scenario B", … */
+export function sandboxScenarioName(index: number): string {
+  return `Scenario ${String.fromCharCode(65 + (index % 26))}`;
+}
+
+export const sandboxScenarioColor = groupColor;
+
+/** Empty scenario named with the first letter not already taken. */
+export function newSandboxScenario(existing: SandboxScenario[]): SandboxScenario {
+  const taken = new Set(existing.map((s) => s.name));
+  let i = 0;
+  while (taken.has(sandboxScenarioName(i))) i++;
+  return { id: `s${Date.now().toString(36)}`, name: sandboxScenarioName(i), keys: [] };
+}
+
+export interface ScenarioComparisonRow {
+  scenario: SandboxScenario;
+  color: string;
+  /** null when the scenario has fewer than two districts. */
+  result: ConsolidationResultV1 | null;
+}
+
+export function compareSandboxScenarios(
+  scenarios: SandboxScenario[],
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  anchors: DistrictAnchorsMap,
+  params: ConsolidationParamsV1,
+  matrix?: TravelMatrix | null,
+): ScenarioComparisonRow[] {
+  return scenarios.map((scenario, i) => ({
+    scenario,
+    color: sandboxScenarioColor(i),
+    result:
+      scenario.keys.length >= 2
+        ? computeConsolidationV1(scenario.keys, budgets, enrollments, anchors, params, matrix)
+        : null,
+  }));
+}
@@ -0,0 +1,236 @@
+/**
+ * Named sandbox scenarios: district selection + parameters.
+ *
+ * Kept in localStorage ("My scenarios") and optionally shared through the
+ * backend's /api/scenarios routes (data/scenarios.json) so team members can
+ * hand each other a specific setup. Results are never stored; they are
+ * recomputed from the current data when a scenario is loaded or compared.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { TravelMatrix } from './geoDistance';
+import { computeConsolidationV1 } from './consolidationV1';
+import {
+  computeConsolidationV2,
+  DEFAULT_COMPONENTS_V2,
+  DEFAULT_CONSOLIDATION_PARAMS_V2,
+  type ConsolidationParamsV2,
+} from './consolidationV2';
+import type { TransportGeo } from './transportModel';
+import { HUB_STRATEGIES } from './hubSelection';
+
+/** Must match StoredScenario in backend/src/server.ts */
+export interface SavedScenario {
+  id: string;
+  name: string;
+  note?: string;
+  author?: string;
+  districtKeys: string[];
+  params: ConsolidationParamsV2;
+  closedSchoolIds?: string[];
+  enrollmentYear?: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScenarioDraft = Omit<SavedScenario, 'id' | 'createdAt' | 'updatedAt'>;
+
+const LOCAL_KEY = 'sandbox.scenarios';
+
+/** Saved params merged over today's defaults, so scenarios survive new parameters. */
+export function withDefaults(s: SavedScenario): SavedScenario {
+  return { ...s, params: { ...DEFAULT_CONSOLIDATION_PARAMS_V2, ...s.params } };
+}
+
+export function loadLocalScenarios(): SavedScenario[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LOCAL_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.map(withDefaults) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeLocalScenarios(scenarios: SavedScenario[]): void {
+  try {
+    localStorage.setItem(LOCAL_KEY, JSON.stringify(scenarios));
+  } catch { /* noop */ }
+}
+
+export function saveLocalScenario(draft: ScenarioDraft): SavedScenario[] {
+  const now = new Date().toISOString();
+  const scenarios = loadLocalScenarios();
+  const existing = scenarios.find((s) => s.name === draft.name);
+  const next = existing
+    ? scenarios.map((s) => (s === existing ? { ...s, ...draft, updatedAt: now } : s))
+    : [...scenarios, { ...draft, id: `local-${Date.now().toString(36)}`, createdAt: now, updatedAt: now }];
+  storeLocalScenarios(next);
+  return next;
+}
+
+export function deleteLocalScenario(id: string): SavedScenario[] {
+  const next = loadLocalScenarios().filter((s) => s.id !== id);
+  storeLocalScenarios(next);
+  return next;
+}
+
+async function api<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const ct = res.headers.get('content-type') ?? '';
+  if (!res.ok || (res.status !== 204 && !ct.includes('application/json'))) {
+    const body = ct.includes('application/json') ? ((await res.json()) as { error?: string }).error : undefined;
+    throw new Error(body ?? `Scenario server unavailable: ${res.status}`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+export async function fetchSharedScenarios(): Promise<SavedScenario[]> {
+  const { scenarios } = await api<{ scenarios: SavedScenario[] }>('/api/scenarios');
+  return scenarios.map(withDefaults);
+}
+
+export async function shareScenario(draft: ScenarioDraft): Promise<SavedScenario> {
+  return withDefaults(await api<SavedScenario>('/api/scenarios', { method: 'POST', body: JSON.stringify(draft) }));
+}
+
+export async function deleteSharedScenario(id: string): Promise<void> {
+  await api<void>(`/api/scenarios/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// --- Diff ---
+
+export interface ScenarioDiffLine {
+  label: string;
+  a: string;
+  b: string;
+  /** b − a for numeric lines; null for text lines. */
+  delta: number | null;
+  changed: boolean;
+  /** Formatting hint for delta. */
+  kind: 'money' | 'count' | 'percent' | 'text';
+  section: 'Setup' | 'Parameters' | 'Results';
+}
+
+export interface ScenarioDiffData {
+  budgets: BudgetsMap;
+  enrollments: LeaEnrollmentMap;
+  anchors: DistrictAnchorsMap;
+  geo?: TransportGeo;
+  travel?: TravelMatrix | null;
+}
+
+const PARAM_LABELS: { field: keyof ConsolidationParamsV2; label: string; kind: ScenarioDiffLine['kind'] }[] = [
+  { field: 'hubStrategy', label: 'Hub strategy', kind: 'text' },
+  { field: 'pinnedHubKey', label: 'Pinned hub', kind: 'text' },
+  { field: 'adminReductionRate', label: 'Admin reduction', kind: 'percent' },
+  { field: 'affectedShare', label: 'Students busing further', kind: 'percent' },
+  { field: 'costPerStudentMile', label: 'Cost per student-mile', kind: 'money' },
+  { field: 'schoolManagementReductionRate', label: 'School management reduction', kind: 'percent' },
+  { field: 'businessServicesReductionRate', label: 'Business services reduction', kind: 'percent' },
+  { field: 'facilitiesReductionRate', label: 'Facilities reduction', kind: 'percent' },
+  { field: 'salaryLevelingRate', label: 'Salary leveling', kind: 'percent' },
+  { field: 'teachingCompensationShare', label: 'Teaching compensation share', kind: 'percent' },
+  { field: 'busCostPerYear', label: 'Bus cost per year', kind: 'money' },
+  { field: 'busCapacity', label: 'Bus capacity', kind: 'count' },
+  { field: 'maxRideMinutes', label: 'Max ride (minutes)', kind: 'count' },
+  { field: 'busSpeedMph', label: 'Bus speed (mph)', kind: 'count' },
+];
+
+export function formatDiffValue(v: number, kind: ScenarioDiffLine['kind']): string {
+  if (kind === 'money') {
+    const abs = Math.abs(v);
+    return `${v < 0 ? '-' : ''}$${abs >= 100 || Number.isInteger(abs) ? Math.round(abs).toLocaleString() : abs.toFixed(2)}`;
+  }
+  if (kind === 'percent') return `${Math.round(v * 1000) / 10}%`;
+  return Number.isInteger(v) ? v.toLocaleString() : v.toFixed(1);
+}
+
+function numberLine(
+  section: ScenarioDiffLine['section'],
+  label: string,
+  a: number | null,
+  b: number | null,
+  kind: ScenarioDiffLine['kind'],
+): ScenarioDiffLine {
+  const delta = a != null && b != null ? b - a : null;
+  return {
+    section,
+    label,
+    a: a == null ? '—' : formatDiffValue(a, kind),
+    b: b == null ? '—' : formatDiffValue(b, kind),
+    delta,
+    changed: delta == null ? a !== b : Math.abs(delta) > 1e-9,
+    kind,
+  };
+}
+
+function textLine(section: ScenarioDiffLine['section'], label: string, a: string, b: string): ScenarioDiffLine {
+  return { section, label, a, b, delta: null, changed: a !== b, kind: 'text' };
+}
+
+/** Line-by-line comparison of two scenarios' setup, parameters and recomputed results. */
+export function diffScenarios(
+  a: SavedScenario,
+  b: SavedScenario,
+  data: ScenarioDiffData,
+  nameOf: (key: string) => string,
+): ScenarioDiffLine[] {
+  const lines: ScenarioDiffLine[] = [];
+  const names = (s: SavedScenario) => s.districtKeys.map(nameOf).sort().join(', ') || '—';
+  lines.push(textLine('Setup', 'Districts', names(a), names(b)));
+  lines.push(numberLine('Setup', 'Closed schools', a.closedSchoolIds?.length ?? 0, b.closedSchoolIds?.length ?? 0, 'count'));
+  lines.push(textLine('Setup', 'Enrollment year', String(a.enrollmentYear ?? '—'), String(b.enrollmentYear ?? '—')));
+
+  for (const p of PARAM_LABELS) {
+    const va = a.params[p.field];
+    const vb = b.params[p.field];
+    if (p.kind === 'text') {
+      const show = (v: unknown) =>
+        v == null
+          ? '—'
+          : p.field === 'pinnedHubKey'
+            ? nameOf(String(v))
+            : HUB_STRATEGIES.find((h) => h.id === v)?.label ?? String(v);
+      lines.push(textLine('Parameters', p.label, show(va), show(vb)));
+    } else {
+      lines.push(numberLine('Parameters', p.label, va as number, vb as number, p.kind));
+    }
+  }
+
+  const compute = (s: SavedScenario) => {
+    if (s.districtKeys.length < 2) return null;
+    const { budgets, enrollments, anchors, geo, travel } = data;
+    return {
+      v1: computeConsolidationV1(s.districtKeys, budgets, enrollments, anchors, s.params, travel),
+      v2: computeConsolidationV2(s.districtKeys, budgets, enrollments, anchors, s.params, DEFAULT_COMPONENTS_V2, geo, travel),
+    };
+  };
+  const ra = compute(a);
+  const rb = compute(b);
+  const v1a = ra?.v1.ok ? ra.v1 : null;
+  const v1b = rb?.v1.ok ? rb.v1 : null;
+  const v2a = ra?.v2.ok ? ra.v2 : null;
+  const v2b = rb?.v2.ok ? rb.v2 : null;
+
+  lines.push(textLine('Results', 'Hub', v1a?.hubName ?? '—', v1b?.hubName ?? '—'));
+  lines.push(numberLine('Results', 'Combined enrollment', v1a?.combinedEnrollment ?? null, v1b?.combinedEnrollment ?? null, 'count'));
+  lines.push(numberLine('Results', 'Combined spending', v1a?.combinedSpending ?? null, v1b?.combinedSpending ?? null, 'money'));
+  lines.push(numberLine('Results', 'Admin savings', v1a?.adminSavings ?? null, v1b?.adminSavings ?? null, 'money'));
+  lines.push(numberLine('Results', 'Transportation increase', v1a?.transportationIncrease ?? null, v1b?.transportationIncrease ?? null, 'money'));
+  lines.push(numberLine('Results', 'Net impact (basic)', v1a?.netImpact ?? null, v1b?.netImpact ?? null, 'money'));
+  lines.push(numberLine('Results', 'Projected per pupil', v1a?.projectedPerPupil ?? null, v1b?.projectedPerPupil ?? null, 'money'));
+
+  const componentIds = [...new Set([...(v2a?.components ?? []), ...(v2b?.components ?? [])].map((c) => c.id))];
+  for (const id of componentIds) {
+    const ca = v2a?.components.find((c) => c.id === id);
+    const cb = v2b?.components.find((c) => c.id === id);
+    lines.push(numberLine('Results', `${(ca ?? cb)!.label} (net)`, ca?.net ?? null, cb?.net ?? null, 'money'));
+  }
+  lines.push(numberLine('Results', 'Net impact (components)', v2a?.netImpact ?? null, v2b?.netImpact ?? null, 'money'));
+  return lines;
+}
@@ -0,0 +1,276 @@
+/**
+ * School closure scenarios within a district.
+ *
+ * Each closed building's students are reassigned grade by grade to the
+ * nearest open public school that serves that grade (from its October grade
+ * counts, else its NCES grade span), preferring schools of the same district.
+ * Added travel is the drive from the closed building to the receiving one,
+ * a proxy for the extra distance from the students' homes.
+ *
+ * Savings come from the district's budget categories: School Management
+ * (principal, office) is split evenly across the district's buildings and
+ * Facilities (utilities, custodial, maintenance) by enrollment share; the
+ * closed building's slice × the savings rate is saved. Extra busing is
+ * added student-miles × cost per student-mile, as in the sandbox.
+ */
+
+import type { SchoolFeature } from '../types';
+import type { BudgetsMap } from './budgets';
+import { districtKey, schoolKey, type SchoolEnrollmentMap } from './enrollment';
+import { travelBetween, type TravelMatrix } from './geoDistance';
+import { schoolUtilization, type SchoolCapacityMap } from './capacity';
+import { usableCategory } from './consolidationV2';
+
+export interface ClosureParams {
+  /** Share of a closed building's School Management slice that is saved. */
+  schoolManagementSavingsRate: number;
+  /** Share of a closed building's Facilities slice that is saved. */
+  facilitiesSavingsRate: number;
+  costPerStudentMile: number;
+  /** Prefer the closed school's own district; other districts only for grades none of its schools serve. */
+  preferSameDistrict: boolean;
+}
+
+export const DEFAULT_CLOSURE_PARAMS: ClosureParams = {
+  schoolManagementSavingsRate: 0.8,
+  facilitiesSavingsRate: 0.7,
+  costPerStudentMile: 3.0,
+  preferSameDistrict: true,
+};
+
+export interface ClosureAssignment {
+  fromId: string;
+  toId: string;
+  toName: string;
+  grades: string[];
+  students: number;
+  miles: number;
+  minutes: number | null;
+  source: 'road' | 'haversine';
+  /** Receiving school belongs to another district. */
+  crossDistrict: boolean;
+}
+
+export interface ClosureSchoolRow {
+  id: string;
+  name: string;
+  districtKey: string;
+  closed: boolean;
+  before: number;
+  after: number;
+  capacity: number | null;
+  utilizationBefore: number | null;
+  utilizationAfter: number | null;
+}
+
+export interface ClosureDistrictSavings {
+  key: string;
+  name: string;
+  schoolManagement: number;
+  facilities: number;
+  /** Categories missing or outside plausible bounds in this district's budget. */
+  missing: string[];
+}
+
+export interface ClosureResult {
+  ok: true;
+  closedIds: string[];
+  assignments: ClosureAssignment[];
+  /** Closed schools and every school receiving students. */
+  schools: ClosureSchoolRow[];
+  savings: ClosureDistrictSavings[];
+  studentsMoved: number;
+  /** Students in grades no open school serves. */
+  studentsUnassigned: number;
+  addedStudentMiles: number;
+  avgAddedMiles: number;
+  transportCost: number;
+  totalSavings: number;
+  net: number;
+  usedRoadDistances: boolean;
+  warnings: string[];
+}
+
+export type ClosureOutcome = ClosureResult | { ok: false; reason: string };
+
+/** -1 for PK/PF, 0 for KF, n for Gnn; null for anything else. */
+export function gradeNumber(grade: string): number | null {
+  if (grade === 'PK' || grade === 'PF') return -1;
+  if (grade === 'KF') return 0;
+  const m = /^G(\d{2})$/.exec(grade);
+  return m ? Number(m[1]) : null;
+}
+
+const enrollmentOf = (school: SchoolFeature, schoolEnrollment: SchoolEnrollmentMap) =>
+  schoolEnrollment[schoolKey(school.properties.district_name ?? '', school.properties.name)];
+
+/** Grades a school serves: those with students in the October count, else its NCES span. */
+function servesGrade(school: SchoolFeature, grade: number, schoolEnrollment: SchoolEnrollmentMap): boolean {
+  const grades = enrollmentOf(school, schoolEnrollment)?.grades;
+  if (grades && Object.keys(grades).length > 0) {
+    return Object.entries(grades).some(([g, n]) => n > 0 && gradeNumber(g) === grade);
+  }
+  const p = school.properties;
+  if (p.grades_high == null) return false;
+  return grade >= (p.grades_low ?? -1) && grade <= p.grades_high;
+}
+
+const pointOf = (s: SchoolFeature) => ({ id: s.properties.id, lat: s.properties.lat, lon: s.properties.lon });
+
+export function computeSchoolClosure(
+  closedIds: string[],
+  schools: SchoolFeature[],
+  schoolEnrollment: SchoolEnrollmentMap,
+  budgets: BudgetsMap | null,
+  capacity: SchoolCapacityMap | null,
+  params: ClosureParams,
+  matrix?: TravelMatrix | null,
+): ClosureOutcome {
+  const publicSchools = schools.filter((s) => s.properties.school_type === 'public');
+  const byId = new Map(publicSchools.map((s) => [s.properties.id, s]));
+  const closed = [...new Set(closedIds)].map((id) => byId.get(id)).filter((s): s is SchoolFeature => !!s);
+  if (closed.length === 0) return { ok: false, reason: 'Pick at least one public school to close.' };
+
+  const closedSet = new Set(closed.map((s) => s.properties.id));
+  const open = publicSchools.filter((s) => !closedSet.has(s.properties.id));
+  const keyOf = (s: SchoolFeature) => districtKey(s.properties.district_name ?? '');
+  const totalOf = (s: SchoolFeature) => enrollmentOf(s, schoolEnrollment)?.total ?? 0;
+
+  const warnings: string[] = [];
+  const assignments: ClosureAssignment[] = [];
+  const added = new Map<string, number>();
+  let studentsUnassigned = 0;
+  let usedRoad = false;
+
+  for (const school of closed) {
+    const enrollment = enrollmentOf(school, schoolEnrollment);
+    if (!enrollment?.grades) {
+      warnings.push(`${school.properties.name}: no October grade counts - no students reassigned.`);
+      continue;
+    }
+    const home = keyOf(school);
+    const byTarget = new Map<string, ClosureAssignment>();
+    for (const [grade, students] of Object.entries(enrollment.grades)) {
+      const g = gradeNumber(grade);
+      if (!students || g == null) continue;
+      const serving = open.filter((s) => servesGrade(s, g, schoolEnrollment));
+      const local = serving.filter((s) => keyOf(s) === home);
+      const candidates = params.preferSameDistrict && local.length > 0 ? local : serving;
+      if (candidates.length === 0) {
+        studentsUnassigned += students;
+        warnings.push(`${school.properties.name}: no open school serves ${grade} (${students} students).`);
+        continue;
+      }
+      let best = candidates[0];
+      let bestLeg = travelBetween(pointOf(school), pointOf(best), matrix);
+      for (const s of candidates.slice(1)) {
+        const leg = travelBetween(pointOf(school), pointOf(s), matrix);
+        if (leg.miles < bestLeg.miles) {
+          best = s;
+          bestLeg = leg;
+        }
+      }
+      if (bestLeg.source === 'road') usedRoad = true;
+      const id = best.properties.id;
+      const a = byTarget.get(id) ?? {
+        fromId: school.properties.id,
+        toId: id,
+        toName: best.properties.name,
+        grades: [],
+        students: 0,
+        ...bestLeg,
+        crossDistrict: keyOf(best) !== home,
+      };
+      a.grades.push(grade);
+      a.students += students;
+      byTarget.set(id, a);
+      added.set(id, (added.get(id) ?? 0) + students);
+    }
+    for (const a of byTarget.values()) {
+      if (a.crossDistrict && params.preferSameDistrict) {
+        warnings.push(`${school.properties.name}: no open school in the district serves ${a.grades.join(', ')}; sent to ${a.toName}.`);
+      }
+      assignments.push(a);
+    }
+  }
+
+  const row = (s: SchoolFeature, isClosed: boolean): ClosureSchoolRow => {
+    const before = totalOf(s);
+    const after = isClosed ? 0 : before + (added.get(s.properties.id) ?? 0);
+    const u = capacity ? schoolUtilization(s, capacity, schoolEnrollment) : null;
+    return {
+      id: s.properties.id,
+      name: s.properties.name,
+      districtKey: keyOf(s),
+      closed: isClosed,
+      before,
+      after,
+      capacity: u?.capacity ?? null,
+      utilizationBefore: u && before > 0 ? before / u.capacity : null,
+      utilizationAfter: u && !isClosed ? after / u.capacity : null,
+    };
+  };
+  const rows = [
+    ...closed.map((s) => row(s, true)),
+    ...open.filter((s) => added.has(s.properties.id)).map((s) => row(s, false)),
+  ];
+  for (const r of rows) {
+    if (r.utilizationAfter != null && r.utilizationAfter > 1) {
+      warnings.push(`${r.name} would be at ${Math.round(r.utilizationAfter * 100)}% of capacity.`);
+    }
+  }
+
+  const savings: ClosureDistrictSavings[] = [];
+  for (const key of [...new Set(closed.map(keyOf))]) {
+    const districtSchools = publicSchools.filter((s) => keyOf(s) === key);
+    const closedHere = closed.filter((s) => keyOf(s) === key);
+    const budget = budgets?.[key];
+    const name = budget?.displayName ?? closedHere[0].properties.district_name ?? key;
+    if (!budget) {
+      savings.push({ key, name, schoolManagement: 0, facilities: 0, missing: ['budget'] });
+      warnings.push(`${name}: no budget data - savings not estimated.`);
+      continue;
+    }
+    const missing: string[] = [];
+    const management = usableCategory(budget, 'schoolManagement');
+    const facilities = usableCategory(budget, 'facilities');
+    if (management == null) missing.push('School Management');
+    if (facilities == null) missing.push('Facilities');
+
+    const districtStudents = districtSchools.reduce((sum, s) => sum + totalOf(s), 0);
+    const closedStudents = closedHere.reduce((sum, s) => sum + totalOf(s), 0);
+    const facilitiesShare =
+      districtStudents > 0 ? closedStudents / districtStudents : closedHere.length / districtSchools.length;
+    savings.push({
+      key,
+      name,
+      schoolManagement:
+        management != null ? (management * closedHere.length * params.schoolManagementSavingsRate) / districtSchools.length : 0,
+      facilities: facilities != null ? facilities * facilitiesShare * params.facilitiesSavingsRate : 0,
+      missing,
+    });
+    if (missing.length > 0) warnings.push(`${name}: ${missing.join(' and ')} not usable - counted as $0.`);
+  }
+
+  const studentsMoved = assignments.reduce((sum, a) => sum + a.students, 0);
+  const addedStudentMiles = assignments.reduce((sum, a) => sum + a.students * a.miles, 0);
+  const transportCost = addedStudentMiles * Math.max(0, params.costPerStudentMile);
+  const totalSavings = savings.reduce((sum, s) => sum + s.schoolManagement + s.facilities, 0);
+
+  return {
+    ok: true,
+    closedIds: closed.map((s) => s.properties.id),
+    assignments,
+    schools: rows,
+    savings,
+    studentsMoved,
+    studentsUnassigned,
+    addedStudentMiles,
+    avgAddedMiles: studentsMoved > 0 ? addedStudentMiles / studentsMoved : 0,
+    transportCost,
+    totalSavings,
+    net: totalSavings - transportCost,
+    usedRoadDistances: usedRoad,
+    warnings,
+  };
+}
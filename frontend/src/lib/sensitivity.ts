@@ -0,0 +1,129 @@
+/**
+ * One-at-a-time sensitivity of the V1 consolidation estimate: each knob is
+ * swept across its range with the others held at their current values, and
+ * the break-even value (net impact = 0) is found by bisection over the knob's
+ * full domain.
+ */
+
+import type { BudgetsMap } from './budgets';
+import type { LeaEnrollmentMap } from './enrollment';
+import type { DistrictAnchorsMap } from './anchors';
+import type { TravelMatrix } from './geoDistance';
+import { computeConsolidationV1, type ConsolidationParamsV1 } from './consolidationV1';
+
+export type SensitivityField = 'adminReductionRate' | 'costPerStudentMile' | 'affectedShare';
+
+export interface SensitivitySpec {
+  field: SensitivityField;
+  label: string;
+  /** Sweep range for the tornado bars, given the current value. */
+  range: (base: number) => [number, number];
+  /** Values the model accepts; the break-even search covers this. */
+  domain: [number, number];
+  format: (v: number) => string;
+}
+
+export interface SweepPoint {
+  value: number;
+  netImpact: number;
+}
+
+export interface SensitivityRow {
+  field: SensitivityField;
+  label: string;
+  base: number;
+  low: number;
+  high: number;
+  netAtLow: number;
+  netAtHigh: number;
+  /** |netAtHigh − netAtLow| */
+  swing: number;
+  sweep: SweepPoint[];
+  /** Value where net impact crosses zero, or null if it never does within the domain. */
+  breakEven: number | null;
+  /** True when values above breakEven produce net savings. */
+  savesAbove: boolean;
+  format: (v: number) => string;
+}
+
+export interface SensitivityResult {
+  baseNet: number;
+  /** Sorted by swing, largest first. */
+  rows: SensitivityRow[];
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+export const SENSITIVITY_SPECS_V1: SensitivitySpec[] = [
+  { field: 'adminReductionRate', label: 'Admin reduction', range: () => [0, 1], domain: [0, 1], format: pct },
+  {
+    field: 'costPerStudentMile',
+    label: 'Cost per student-mile',
+    range: (base) => [0, Math.max(6, base * 2)],
+    domain: [0, 100],
+    format: (v) => `$${v.toFixed(2)}`,
+  },
+  { field: 'affectedShare', label: 'Students busing further', range: () => [0, 1], domain: [0, 1], format: pct },
+];
+
+const SWEEP_STEPS = 10;
+const BISECTION_STEPS = 40;
+
+export function computeSensitivityV1(
+  keys: string[],
+  budgets: BudgetsMap,
+  enrollments: LeaEnrollmentMap,
+  anchors: DistrictAnchorsMap,
+  params: ConsolidationParamsV1,
+  matrix?: TravelMatrix | null,
+  specs: SensitivitySpec[] = SENSITIVITY_SPECS_V1,
+): SensitivityResult | null {
+  const netWith = (field: SensitivityField, value: number) =>
+    computeConsolidationV1(keys, budgets, enrollments, anchors, { ...params, [field]: value }, matrix).netImpact;
+
+  const base = computeConsolidationV1(keys, budgets, enrollments, anchors, params, matrix);
+  if (!base.ok) return null;
+
+  const rows = specs.map((spec): SensitivityRow => {
+    const [low, high] = spec.range(params[spec.field]);
+    const sweep: SweepPoint[] = [];
+    for (let i = 0; i <= SWEEP_STEPS; i++) {
+      const value = low + ((high - low) * i) / SWEEP_STEPS;
+      sweep.push({ value, netImpact: netWith(spec.field, value) });
+    }
+    const netAtLow = sweep[0].netImpact;
+    const netAtHigh = sweep[sweep.length - 1].netImpact;
+
+    let breakEven: number | null = null;
+    let [lo, hi] = spec.domain;
+    const netLo = netWith(spec.field, lo);
+    const netHi = netWith(spec.field, hi);
+    if (netLo === 0) breakEven = lo;
+    else if (Math.sign(netLo) !== Math.sign(netHi)) {
+      for (let i = 0; i < BISECTION_STEPS; i++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(netWith(spec.field, mid)) === Math.sign(netLo)) lo = mid;
+        else hi = mid;
+      }
+      breakEven = (lo + hi) / 2;
+    }
+
+    return {
+      field: spec.field,
+      label: spec.label,
+      base: params[spec.field],
+      low,
+      high,
+      netAtLow,
+      netAtHigh,
+      swing: Math.abs(netAtHigh - netAtLow),
+      sweep,
+      breakEven,
+      savesAbove: netHi > netLo,
+      format: spec.format,
+    };
+  });
+
+  rows.sort((a, b) => b.swing - a.swing);
+  return { baseNet: base.netImpact, rows };
+}
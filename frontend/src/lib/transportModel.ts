@@ -0,0 +1,354 @@
+/**
+ * Distance-based transportation model for a merged district.
+ *
+ * Each spoke district's students are spread uniformly over a grid of points
+ * inside its boundary and split into grade bands (PK–5, 6–8, 9–12) from the
+ * LEA grade counts. Reassigned riders go to the nearest hub school serving
+ * their band; the baseline sends the same riders to the nearest school of
+ * their own district. Both sides are sized into buses the same way, so the
+ * cost is the fleet difference × annual cost per bus.
+ *
+ * Road miles are straight-line miles × a detour factor. With a travel matrix
+ * the factor is measured per target school from the spoke's anchor (so Bay
+ * crossings are priced in); otherwise CIRCUITY_FACTOR.
+ *
+ * A bus run's time is the average drive to school plus one stop per
+ * STUDENTS_PER_STOP riders; runs over maxRideMinutes are split across more
+ * buses. Bands run on staggered bell times, so one bus can chain runs (plus
+ * the deadhead back) within the morning window; the fleet is the larger of
+ * the busiest band's runs and total run time / window.
+ */
+
+import type { DistrictFeature, SchoolFeature } from '../types';
+import { districtKey, schoolKey, type LeaEnrollmentMap, type SchoolEnrollmentMap } from './enrollment';
+import { anchorPointId, milesBetween, travelBetween, type TravelMatrix } from './geoDistance';
+import type { DistrictAnchorsMap } from './anchors';
+
+export type GradeBand = 'elementary' | 'middle' | 'high';
+
+export const GRADE_BANDS: GradeBand[] = ['elementary', 'middle', 'high'];
+
+export interface TransportModelParams {
+  /** Share of spoke students reassigned to hub schools. */
+  affectedShare: number;
+  busCostPerYear: number;
+  busCapacity: number;
+  maxRideMinutes: number;
+  busSpeedMph: number;
+}
+
+export interface TransportGeo {
+  districts: DistrictFeature[];
+  schools: SchoolFeature[];
+  schoolEnrollment: SchoolEnrollmentMap | null;
+  /** Road distances; needs anchors to measure detours from each spoke. */
+  travel?: { matrix: TravelMatrix; anchors: DistrictAnchorsMap } | null;
+}
+
+export interface SpokeTransport {
+  key: string;
+  name: string;
+  riders: number;
+  avgMilesBefore: number;
+  avgMilesAfter: number;
+  baselineBuses: number;
+  modelBuses: number;
+  cost: number;
+  /** Riders whose drive alone exceeds maxRideMinutes. */
+  ridersOverMaxRide: number;
+}
+
+export interface TransportModelResult {
+  spokes: SpokeTransport[];
+  totalCost: number;
+  extraBuses: number;
+  assumptions: string[];
+  /** Spoke keys without a boundary, enrollment, or schools to route to. */
+  missing: string[];
+  distanceSource: 'road' | 'haversine';
+}
+
+interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+const GRID_SPACING_MILES = 0.5;
+/** Road miles per straight-line mile when no travel matrix is loaded. */
+const CIRCUITY_FACTOR = 1.3;
+/** Detours are only measured beyond this straight-line distance (short legs are noisy). */
+const MIN_DETOUR_MILES = 2;
+const MAX_DETOUR_FACTOR = 4;
+const STUDENTS_PER_STOP = 5;
+const MINUTES_PER_STOP = 1;
+/** Morning window for chaining elementary, middle and high runs. */
+const MORNING_WINDOW_MINUTES = 150;
+
+const BAND_GRADES: Record<GradeBand, string[]> = {
+  elementary: ['PK', 'KF', 'G01', 'G02', 'G03', 'G04', 'G05'],
+  middle: ['G06', 'G07', 'G08'],
+  high: ['G09', 'G10', 'G11', 'G12'],
+};
+
+/** NCES grade numbers (PK = -1, K = 0) covered by each band. */
+const BAND_RANGE: Record<GradeBand, [number, number]> = {
+  elementary: [-1, 5],
+  middle: [6, 8],
+  high: [9, 12],
+};
+
+// --- Geometry ---
+
+type Ring = number[][];
+
+function polygonsOf(feature: DistrictFeature): Ring[][] {
+  const coords = feature.geometry.coordinates as unknown;
+  return feature.geometry.type === 'Polygon' ? [coords as Ring[]] : (coords as Ring[][]);
+}
+
+function inRing(lon: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function inPolygons(lon: number, lat: number, polygons: Ring[][]): boolean {
+  return polygons.some(([outer, ...holes]) => inRing(lon, lat, outer) && !holes.some((h) => inRing(lon, lat, h)));
+}
+
+/** Point-in-polygon test against a district boundary (holes excluded). */
+export function districtContains(feature: DistrictFeature, lon: number, lat: number): boolean {
+  return inPolygons(lon, lat, polygonsOf(feature));
+}
+
+const gridCache = new WeakMap<DistrictFeature, LatLon[]>();
+
+/** Grid points inside a district boundary (cached per feature). Falls back to the bbox center. */
+export function sampleDistrictGrid(feature: DistrictFeature): LatLon[] {
+  const cached = gridCache.get(feature);
+  if (cached) return cached;
+
+  const polygons = polygonsOf(feature);
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity;
+  for (const poly of polygons) {
+    for (const [lon, lat] of poly[0]) {
+      minLon = Math.min(minLon, lon); maxLon = Math.max(maxLon, lon);
+      minLat = Math.min(minLat, lat); maxLat = Math.max(maxLat, lat);
+    }
+  }
+
+  const dLat = GRID_SPACING_MILES / 69;
+  const dLon = GRID_SPACING_MILES / (69 * Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180));
+  const points: LatLon[] = [];
+  for (let lat = minLat + dLat / 2; lat < maxLat; lat += dLat) {
+    for (let lon = minLon + dLon / 2; lon < maxLon; lon += dLon) {
+      if (inPolygons(lon, lat, polygons)) points.push({ lat, lon });
+    }
+  }
+  if (points.length === 0) points.push({ lat: (minLat + maxLat) / 2, lon: (minLon + maxLon) / 2 });
+
+  gridCache.set(feature, points);
+  return points;
+}
+
+// --- Schools and students ---
+
+function schoolBands(school: SchoolFeature, schoolEnrollment: SchoolEnrollmentMap | null): GradeBand[] {
+  const p = school.properties;
+  const grades = schoolEnrollment?.[schoolKey(p.district_name ?? '', p.name)]?.grades;
+  if (grades && Object.keys(grades).length > 0) {
+    return GRADE_BANDS.filter((band) => BAND_GRADES[band].some((g) => (grades[g] ?? 0) > 0));
+  }
+  if (p.grades_high != null) {
+    const low = p.grades_low ?? -1;
+    return GRADE_BANDS.filter((band) => low <= BAND_RANGE[band][1] && p.grades_high! >= BAND_RANGE[band][0]);
+  }
+  if (p.grade_bucket === 'Elementary') return ['elementary'];
+  if (p.grade_bucket === 'Middle') return ['middle'];
+  if (p.grade_bucket === 'High') return ['high'];
+  return [];
+}
+
+function studentsByBand(key: string, enrollments: LeaEnrollmentMap): Record<GradeBand, number> {
+  const e = enrollments[key];
+  const out: Record<GradeBand, number> = { elementary: 0, middle: 0, high: 0 };
+  if (!e) return out;
+  if (e.grades && Object.keys(e.grades).length > 0) {
+    for (const band of GRADE_BANDS) out[band] = BAND_GRADES[band].reduce((s, g) => s + (e.grades![g] ?? 0), 0);
+    return out;
+  }
+  // No grade detail: split evenly across the 14 grade levels
+  for (const band of GRADE_BANDS) out[band] = (e.total * BAND_GRADES[band].length) / 14;
+  return out;
+}
+
+interface RoutedSchool {
+  id: string;
+  point: LatLon;
+  bands: GradeBand[];
+}
+
+type DetourFn = (school: RoutedSchool) => number;
+
+/** Road miles per straight-line mile from a spoke's anchor to each school. */
+function detourFrom(spokeKey: string, travel: TransportGeo['travel']): DetourFn {
+  const anchor = travel?.anchors[spokeKey];
+  if (!travel || !anchor) return () => CIRCUITY_FACTOR;
+  const cache = new Map<string, number>();
+  const origin = { id: anchorPointId(spokeKey), lat: anchor.lat, lon: anchor.lon };
+  return (school) => {
+    let f = cache.get(school.id);
+    if (f === undefined) {
+      const straight = milesBetween(origin, school.point);
+      const leg = travelBetween(origin, { id: school.id, ...school.point }, travel.matrix);
+      f = leg.source === 'road' && straight >= MIN_DETOUR_MILES
+        ? Math.max(1, Math.min(MAX_DETOUR_FACTOR, leg.miles / straight))
+        : CIRCUITY_FACTOR;
+      cache.set(school.id, f);
+    }
+    return f;
+  };
+}
+
+function nearestMiles(from: LatLon, candidates: RoutedSchool[], band: GradeBand, detour: DetourFn): number | null {
+  let best: number | null = null;
+  for (const s of candidates) {
+    if (!s.bands.includes(band)) continue;
+    const d = milesBetween(from, s.point) * detour(s);
+    if (best === null || d < best) best = d;
+  }
+  return best;
+}
+
+interface BandRuns {
+  runs: number;
+  /** Total minutes of those runs including the deadhead back. */
+  minutes: number;
+}
+
+/** Bus runs for one band's riders given their average road distance to school. */
+function runsForBand(riders: number, avgMiles: number, params: TransportModelParams): BandRuns {
+  if (riders <= 0) return { runs: 0, minutes: 0 };
+  const capacity = Math.max(1, params.busCapacity);
+  const driveMinutes = (avgMiles / Math.max(1, params.busSpeedMph)) * 60;
+  const stopBudget = Math.floor((params.maxRideMinutes - driveMinutes) / MINUTES_PER_STOP);
+  // Drive alone exceeds the limit: shorter routes don't help (counted in ridersOverMaxRide)
+  const perBus = stopBudget <= 0 ? capacity : Math.min(capacity, stopBudget * STUDENTS_PER_STOP);
+  const runs = Math.ceil(riders / perBus);
+  const stopsPerRun = Math.ceil(riders / runs / STUDENTS_PER_STOP);
+  return { runs, minutes: runs * (2 * driveMinutes + stopsPerRun * MINUTES_PER_STOP) };
+}
+
+function fleetSize(bands: BandRuns[]): number {
+  if (bands.length === 0) return 0;
+  const busiest = Math.max(...bands.map((b) => b.runs));
+  const totalMinutes = bands.reduce((s, b) => s + b.minutes, 0);
+  return Math.max(busiest, Math.ceil(totalMinutes / MORNING_WINDOW_MINUTES));
+}
+
+export function computeTransportModel(
+  hubKey: string,
+  spokeKeys: string[],
+  enrollments: LeaEnrollmentMap,
+  geo: TransportGeo,
+  params: TransportModelParams,
+): TransportModelResult {
+  const share = Math.max(0, Math.min(1, params.affectedShare));
+  const featureByKey = new Map<string, DistrictFeature>();
+  for (const f of geo.districts) {
+    featureByKey.set(districtKey(f.properties.district_name ?? f.properties.name ?? ''), f);
+  }
+
+  const schoolsByDistrict = new Map<string, RoutedSchool[]>();
+  for (const s of geo.schools) {
+    if (s.properties.school_type !== 'public') continue;
+    const bands = schoolBands(s, geo.schoolEnrollment);
+    if (bands.length === 0) continue;
+    const k = districtKey(s.properties.district_name ?? '');
+    const list = schoolsByDistrict.get(k) ?? [];
+    list.push({ id: s.properties.id, point: { lat: s.properties.lat, lon: s.properties.lon }, bands });
+    schoolsByDistrict.set(k, list);
+  }
+  const allSchools = [...schoolsByDistrict.values()].flat();
+  const hubSchools = schoolsByDistrict.get(hubKey) ?? [];
+
+  const spokes: SpokeTransport[] = [];
+  const missing: string[] = [];
+
+  for (const k of spokeKeys) {
+    const feature = featureByKey.get(k);
+    const ownSchools = schoolsByDistrict.get(k) ?? [];
+    if (!feature || !enrollments[k] || hubSchools.length === 0) { missing.push(k); continue; }
+
+    const points = sampleDistrictGrid(feature);
+    const detour = detourFrom(k, geo.travel);
+    const byBand = studentsByBand(k, enrollments);
+    let riders = 0, milesBefore = 0, milesAfter = 0, overMax = 0;
+    const baselineRuns: BandRuns[] = [];
+    const modelRuns: BandRuns[] = [];
+
+    for (const band of GRADE_BANDS) {
+      const bandRiders = byBand[band] * share;
+      if (bandRiders <= 0) continue;
+      // Hub without this band: riders stay at their current school
+      if (!hubSchools.some((s) => s.bands.includes(band))) continue;
+
+      let before = 0, after = 0, over = 0, routed = 0;
+      for (const pt of points) {
+        // Districts without their own school for a band (e.g. Foster high schoolers) use the nearest one statewide
+        const b = nearestMiles(pt, ownSchools, band, detour) ?? nearestMiles(pt, allSchools, band, detour);
+        const a = nearestMiles(pt, hubSchools, band, detour);
+        if (b === null || a === null) continue;
+        before += b;
+        after += a;
+        routed++;
+        if ((a / Math.max(1, params.busSpeedMph)) * 60 > params.maxRideMinutes) over++;
+      }
+      if (routed === 0) continue;
+
+      const avgBefore = before / routed;
+      const avgAfter = after / routed;
+      riders += bandRiders;
+      milesBefore += avgBefore * bandRiders;
+      milesAfter += avgAfter * bandRiders;
+      overMax += (over / routed) * bandRiders;
+      baselineRuns.push(runsForBand(bandRiders, avgBefore, params));
+      modelRuns.push(runsForBand(bandRiders, avgAfter, params));
+    }
+    const baselineFleet = fleetSize(baselineRuns);
+    const modelFleet = fleetSize(modelRuns);
+
+    spokes.push({
+      key: k,
+      name: enrollments[k].distname || k,
+      riders: Math.round(riders),
+      avgMilesBefore: riders > 0 ? milesBefore / riders : 0,
+      avgMilesAfter: riders > 0 ? milesAfter / riders : 0,
+      baselineBuses: baselineFleet,
+      modelBuses: modelFleet,
+      cost: Math.max(0, modelFleet - baselineFleet) * params.busCostPerYear,
+      ridersOverMaxRide: Math.round(overMax),
+    });
+  }
+
+  return {
+    spokes,
+    totalCost: spokes.reduce((s, sp) => s + sp.cost, 0),
+    extraBuses: spokes.reduce((s, sp) => s + Math.max(0, sp.modelBuses - sp.baselineBuses), 0),
+    assumptions: [
+      `${Math.round(share * 100)}% of spoke students reassigned to the nearest hub school serving their grade band`,
+      `Students spread evenly over a ${GRID_SPACING_MILES}-mile grid inside each district`,
+      geo.travel
+        ? 'Road miles from the OSM travel matrix (detour measured from each spoke anchor)'
+        : `No road travel matrix: road miles = ${CIRCUITY_FACTOR} × straight line`,
+      `${params.busCapacity} seats per bus, ${params.busSpeedMph} mph, max ride ${params.maxRideMinutes} min, $${Math.round(params.busCostPerYear).toLocaleString()} per bus per year`,
+      `Elementary, middle and high on staggered bells; buses chain runs within a ${MORNING_WINDOW_MINUTES}-min morning window`,
+    ],
+    missing,
+    distanceSource: geo.travel ? 'road' : 'haversine',
+  };
+}
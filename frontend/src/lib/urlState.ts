@@ -0,0 +1,211 @@
+/**
+ * Shareable URL state: map view, filters, layer toggles, selection and the
+ * sandbox, encoded as query parameters so a link reproduces what a colleague
+ * saw. Values equal to the defaults are left out to keep links short.
+ *
+ *   v=lon,lat,zoom  pub=1  priv=1  grade=Elementary,High  levels=unified,secondary
+ *   dist=0  labels=1  cluster=1  anchors=1  util=1  table=1  year=2023
+ *   shade=<choropleth metric>  classes=quantile|equal|jenks
+ *   d=<district key>  sel=<key>,<key>  school=<school id>
+ *   sb=<key>,<key>|<key>,…  sba=<active scenario index>  closed=<school id>,…
+ *   p.<param>=<value> (sandbox parameters)
+ */
+
+import { DEFAULT_CONSOLIDATION_PARAMS_V2, type ConsolidationParamsV2 } from './consolidationV2';
+import {
+  CHOROPLETH_METRICS,
+  CLASSIFICATION_METHODS,
+  type ChoroplethMetric,
+  type ClassificationMethod,
+} from './choropleth';
+import { HUB_STRATEGIES } from './hubSelection';
+import { MAX_SANDBOX_SCENARIOS } from './sandboxScenarios';
+
+export interface MapViewState {
+  lon: number;
+  lat: number;
+  zoom: number;
+}
+
+export interface SchoolFilters {
+  public: boolean;
+  private: boolean;
+  grade: string[];
+}
+
+export interface DistrictLevelFilter {
+  unified: boolean;
+  elementary: boolean;
+  secondary: boolean;
+}
+
+export interface UrlState {
+  view: MapViewState | null;
+  filters: SchoolFilters;
+  districtLevelFilter: DistrictLevelFilter;
+  showDistricts: boolean;
+  showDistrictLabels: boolean;
+  clusterSchools: boolean;
+  showAnchors: boolean;
+  colorByUtilization: boolean;
+  showDistrictTable: boolean;
+  /** Metric the districts are shaded by; null = plain fill. */
+  choroplethMetric: ChoroplethMetric | null;
+  classificationMethod: ClassificationMethod;
+  enrollmentYear: number | null;
+  /** Key of the district shown in the sidebar card. */
+  selectedDistrictKey: string | null;
+  selectedDistrictKeys: string[];
+  selectedSchoolId: string | null;
+  /** District keys of each sandbox scenario, in tab order. */
+  sandboxScenarios: string[][];
+  activeSandbox: number;
+  closedSchoolIds: string[];
+  consolidationParams: ConsolidationParamsV2;
+}
+
+export const DEFAULT_URL_STATE: UrlState = {
+  view: null,
+  filters: { public: false, private: false, grade: [] },
+  districtLevelFilter: { unified: true, elementary: true, secondary: true },
+  showDistricts: true,
+  showDistrictLabels: false,
+  clusterSchools: false,
+  showAnchors: false,
+  colorByUtilization: false,
+  showDistrictTable: false,
+  choroplethMetric: null,
+  classificationMethod: 'quantile',
+  enrollmentYear: null,
+  selectedDistrictKey: null,
+  selectedDistrictKeys: [],
+  selectedSchoolId: null,
+  sandboxScenarios: [[]],
+  activeSandbox: 0,
+  closedSchoolIds: [],
+  consolidationParams: DEFAULT_CONSOLIDATION_PARAMS_V2,
+};
+
+const LEVELS: (keyof DistrictLevelFilter)[] = ['unified', 'elementary', 'secondary'];
+
+const FLAGS: {
+  param: string;
+  field: 'showDistricts' | 'showDistrictLabels' | 'clusterSchools' | 'showAnchors' | 'colorByUtilization' | 'showDistrictTable';
+}[] = [
+  { param: 'dist', field: 'showDistricts' },
+  { param: 'labels', field: 'showDistrictLabels' },
+  { param: 'cluster', field: 'clusterSchools' },
+  { param: 'anchors', field: 'showAnchors' },
+  { param: 'util', field: 'colorByUtilization' },
+  { param: 'table', field: 'showDistrictTable' },
+];
+
+const list = (v: string | null) => (v ? v.split(',').map((s) => s.trim()).filter(Boolean) : []);
+
+function parseParams(q: URLSearchParams): ConsolidationParamsV2 {
+  const params = { ...DEFAULT_CONSOLIDATION_PARAMS_V2 };
+  for (const field of Object.keys(DEFAULT_CONSOLIDATION_PARAMS_V2) as (keyof ConsolidationParamsV2)[]) {
+    const raw = q.get(`p.${field}`);
+    if (raw == null) continue;
+    const fallback = DEFAULT_CONSOLIDATION_PARAMS_V2[field];
+    if (typeof fallback === 'number') {
+      const n = Number(raw);
+      if (Number.isFinite(n)) (params as Record<string, unknown>)[field] = n;
+    } else if (field === 'hubStrategy') {
+      const strategy = HUB_STRATEGIES.find((s) => s.id === raw);
+      if (strategy) params.hubStrategy = strategy.id;
+    } else {
+      (params as Record<string, unknown>)[field] = raw === '' ? null : raw;
+    }
+  }
+  return params;
+}
+
+export function parseUrlState(search: string): UrlState {
+  const q = new URLSearchParams(search);
+  const d = DEFAULT_URL_STATE;
+
+  let view: MapViewState | null = null;
+  const [lon, lat, zoom] = list(q.get('v')).map(Number);
+  if ([lon, lat, zoom].every(Number.isFinite)) view = { lon, lat, zoom };
+
+  const levels = q.has('levels') ? list(q.get('levels')) : LEVELS;
+  const flag = (param: string, fallback: boolean) => (q.has(param) ? q.get(param) === '1' : fallback);
+  const year = Number(q.get('year'));
+  const scenarios = (q.get('sb') ?? '').split('|').slice(0, MAX_SANDBOX_SCENARIOS).map(list);
+  const active = Number(q.get('sba'));
+  const shade = CHOROPLETH_METRICS.find((m) => m.id === q.get('shade'));
+  const classes = CLASSIFICATION_METHODS.find((m) => m.id === q.get('classes'));
+
+  const state: UrlState = {
+    ...d,
+    view,
+    filters: { public: q.get('pub') === '1', private: q.get('priv') === '1', grade: list(q.get('grade')) },
+    districtLevelFilter: {
+      unified: levels.includes('unified'),
+      elementary: levels.includes('elementary'),
+      secondary: levels.includes('secondary'),
+    },
+    choroplethMetric: shade?.id ?? null,
+    classificationMethod: classes?.id ?? d.classificationMethod,
+    enrollmentYear: q.has('year') && Number.isInteger(year) ? year : null,
+    selectedDistrictKey: q.get('d') || null,
+    selectedDistrictKeys: q.has('sel') ? list(q.get('sel')) : q.get('d') ? [q.get('d')!] : [],
+    selectedSchoolId: q.get('school') || null,
+    sandboxScenarios: scenarios,
+    activeSandbox: Number.isInteger(active) && active > 0 && active < scenarios.length ? active : 0,
+    closedSchoolIds: list(q.get('closed')),
+    consolidationParams: parseParams(q),
+  };
+  for (const f of FLAGS) state[f.field] = flag(f.param, d[f.field]);
+  return state;
+}
+
+/** Query string (with leading "?", or "" when everything is default). */
+export function encodeUrlState(state: UrlState): string {
+  const q = new URLSearchParams();
+  const d = DEFAULT_URL_STATE;
+  if (state.view) {
+    const { lon, lat, zoom } = state.view;
+    q.set('v', `${lon.toFixed(4)},${lat.toFixed(4)},${zoom.toFixed(2)}`);
+  }
+  if (state.filters.public) q.set('pub', '1');
+  if (state.filters.private) q.set('priv', '1');
+  if (state.filters.grade.length > 0) q.set('grade', state.filters.grade.join(','));
+  const levels = LEVELS.filter((l) => state.districtLevelFilter[l]);
+  if (levels.length < LEVELS.length) q.set('levels', levels.join(','));
+  for (const f of FLAGS) {
+    if (state[f.field] !== d[f.field]) q.set(f.param, state[f.field] ? '1' : '0');
+  }
+  if (state.choroplethMetric) q.set('shade', state.choroplethMetric);
+  if (state.classificationMethod !== d.classificationMethod) q.set('classes', state.classificationMethod);
+  if (state.enrollmentYear != null) q.set('year', String(state.enrollmentYear));
+  if (state.selectedDistrictKey) q.set('d', state.selectedDistrictKey);
+  const sel = state.selectedDistrictKeys;
+  if (sel.length > 0 && !(sel.length === 1 && sel[0] === state.selectedDistrictKey)) q.set('sel', sel.join(','));
+  if (state.selectedSchoolId) q.set('school', state.selectedSchoolId);
+  if (state.sandboxScenarios.length > 1 || state.sandboxScenarios[0]?.length > 0) {
+    q.set('sb', state.sandboxScenarios.map((keys) => keys.join(',')).join('|'));
+  }
+  if (state.activeSandbox > 0) q.set('sba', String(state.activeSandbox));
+  if (state.closedSchoolIds.length > 0) q.set('closed', state.closedSchoolIds.join(','));
+  for (const field of Object.keys(d.consolidationParams) as (keyof ConsolidationParamsV2)[]) {
+    const v = state.consolidationParams[field];
+    if (v !== d.consolidationParams[field]) q.set(`p.${field}`, v == null ? '' : String(v));
+  }
+  const s = q.toString().replace(/%2C/g, ',').replace(/%7C/g, '|');
+  return s ? `?${s}` : '';
+}
+
+/** Selection part of the state; a change here is a new history entry, anything else replaces the current one. */
+export function selectionSignature(
+  state: Pick<UrlState, 'selectedDistrictKey' | 'selectedDistrictKeys' | 'selectedSchoolId' | 'sandboxScenarios' | 'activeSandbox'>,
+): string {
+  return JSON.stringify([
+    state.selectedDistrictKey,
+    state.selectedDistrictKeys,
+    state.selectedSchoolId,
+    state.sandboxScenarios,
+    state.activeSandbox,
+  ]);
+}
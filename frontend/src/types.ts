@@ -16,6 +16,10 @@ export interface SchoolProperties {
   source: string;
   nces_id?: string;
   pss_id?: string;
+  /** enrollment / capacity; set in the app when coloring schools by utilization. */
+  utilization?: number;
+  /** Set in the app for schools closed in the school closure scenario. */
+  closed?: boolean;
 }
 
 export interface SchoolFeature {
@@ -44,6 +48,24 @@ export interface DistrictFeature {
   properties: DistrictProperties;
 }
 
+/** One district grouping held by the consolidation sandbox. */
+export interface SandboxScenario {
+  id: string;
+  name: string;
+  keys: string[];
+}
+
+/** Spoke-to-hub connector drawn for the consolidation sandbox. */
+export interface SandboxLink {
+  fromKey: string;
+  toKey: string;
+  from: [number, number];
+  to: [number, number];
+  miles: number;
+  minutes: number | null;
+  source: 'road' | 'haversine';
+}
+
 export interface GeoJSONFC<T = SchoolFeature> {
   type: 'FeatureCollection';
   features: T[];
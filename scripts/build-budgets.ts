@@ -8,6 +8,11 @@
  * Schema per district:
  *   displayName, sourceFile, fiscalYear, totalExpenditures,
  *   centralAdministration, components { districtManagement, programOperationsManagement },
+ *   categories { faceToFaceTeaching, schoolManagement, businessServices, facilities },
+ *   expenditureCategories { [fiscalYear]: [{ name, amount, items: [{ name, amount }] }] },
+ *   revenueCategories (same shape), revenues { fiscalYear, local, state, federal, other, total } | null,
+ *   history [{ fiscalYear, totalExpenditures, totalPctChange, districtManagement,
+ *     programOperationsManagement, centralAdministration, adminShareOfTotal }] (oldest first),
  *   flags[]
  *
  * Run: npm run build:budgets
@@ -32,6 +37,53 @@ interface BudgetComponents {
   programOperationsManagement: number;
 }
 
+/** Detail 2 rows used by the V2 consolidation components. null = row not present. */
+interface BudgetCategories {
+  faceToFaceTeaching: number | null;
+  schoolManagement: number | null;
+  businessServices: number | null;
+  facilities: number | null;
+}
+
+interface BudgetLineItem {
+  name: string;
+  amount: number;
+  /** RIDE "% Difference from the previous fiscal year" for this row, as a fraction. */
+  pctChange: number | null;
+}
+
+/** One In$ite "Details" category with its "Detail 2" line items. */
+interface BudgetCategory {
+  name: string;
+  amount: number;
+  items: BudgetLineItem[];
+}
+
+/** Keyed by fiscal year label, e.g. "FY2024-25". */
+type BudgetCategoryTree = Record<string, BudgetCategory[]>;
+
+/** Revenues by source for the selected fiscal year. */
+interface RevenueSummary {
+  fiscalYear: string;
+  local: number;
+  state: number;
+  federal: number;
+  other: number;
+  total: number;
+}
+
+/** Headline figures for one fiscal year column of the source file. */
+interface BudgetYearSnapshot {
+  fiscalYear: string;
+  totalExpenditures: number | null;
+  /** RIDE "% Difference" on the Total row, as a fraction. */
+  totalPctChange: number | null;
+  districtManagement: number | null;
+  programOperationsManagement: number | null;
+  centralAdministration: number | null;
+  adminShareOfTotal: number | null;
+}
+
 interface DistrictBudget {
   displayName: string;
   sourceFile: string;
@@ -43,6 +95,11 @@ interface DistrictBudget {
   adminShareOfTotalModel: number | null;
   components: BudgetComponents;
   componentsModel: BudgetComponents;
+  categories: BudgetCategories;
+  expenditureCategories: BudgetCategoryTree;
+  revenueCategories: BudgetCategoryTree;
+  revenues: RevenueSummary | null;
+  history: BudgetYearSnapshot[];
   flags: string[];
 }
 
@@ -51,6 +108,17 @@ type BudgetsMap = Record<string, DistrictBudget>;
 const ADMIN_SHARE_OUTLIER = 0.15;
 const ADMIN_SHARE_CAP = 0.10;
 
+const CATEGORY_ROWS: { field: keyof BudgetCategories; detail1: string; detail2: string }[] = [
+  { field: 'faceToFaceTeaching', detail1: 'Instruction', detail2: 'Face-to-Face Teaching' },
+  { field: 'schoolManagement', detail1: 'Leadership', detail2: 'School Management' },
+  { field: 'businessServices', detail1: 'Operations', detail2: 'Business Services' },
+  { field: 'facilities', detail1: 'Operations', detail2: 'Facilities' },
+];
+
+function emptyCategories(): BudgetCategories {
+  return { faceToFaceTeaching: null, schoolManagement: null, businessServices: null, facilities: null };
+}
+
 // Fiscal years in preference order (most recent first)
 const FY_PREFERENCE = ['2025-26', '2024-25', '2023-24'];
 
@@ -91,6 +159,14 @@ function parseMoney(value: string | undefined | null): number {
   return isNegative ? -n : n;
 }
 
+function parsePercent(value: string | undefined | null): number | null {
+  if (value == null) return null;
+  const s = String(value).trim().replace(/[%,\s]/g, '');
+  if (!s) return null;
+  const n = parseFloat(s);
+  return isNaN(n) ? null : Math.round(n * 1e4) / 1e6;
+}
+
 interface ParsedRow {
   cells: string[];
 }
@@ -130,6 +206,8 @@ interface ColumnMapping {
   detail2Col: number;
   leaNameCol: number;
   fyDollarColumns: { fy: string; colIndex: number }[];
+  /** "% Difference from previous fiscal year" column per FY (e.g. "2024-25"). */
+  fyPctChangeColumns: Record<string, number>;
 }
 
 function buildColumnMapping(headerLines: string[][]): ColumnMapping | null {
@@ -165,14 +243,17 @@ function buildColumnMapping(headerLines: string[][]): ColumnMapping | null {
 
   // Find FY dollar columns: look at fyRow for year patterns, then match with "$" in labelRow
   const fyDollarColumns: { fy: string; colIndex: number }[] = [];
+  const fyPctChangeColumns: Record<string, number> = {};
   for (let i = 0; i < fyRow.length; i++) {
     const fyCell = fyRow[i].trim();
     const fyMatch = fyCell.match(/(\d{4})\s*-\s*(\d{2,4})/);
     if (fyMatch) {
       const labelBelow = (labelRow[i] ?? '').trim();
+      const fy = `${fyMatch[1]}-${fyMatch[2].length === 2 ? fyMatch[2] : fyMatch[2].slice(-2)}`;
       if (labelBelow === '$' || labelBelow.toLowerCase().startsWith('$')) {
-        const fy = `${fyMatch[1]}-${fyMatch[2].length === 2 ? fyMatch[2] : fyMatch[2].slice(-2)}`;
         fyDollarColumns.push({ fy, colIndex: i });
+      } else if (labelBelow.toLowerCase().startsWith('% difference')) {
+        fyPctChangeColumns[fy] = i;
       }
     }
   }
@@ -193,7 +274,7 @@ function buildColumnMapping(headerLines: string[][]): ColumnMapping | null {
     }
   }
 
-  return { revenueOrExpCol, detailsCol, detail2Col, leaNameCol, fyDollarColumns };
+  return { revenueOrExpCol, detailsCol, detail2Col, leaNameCol, fyDollarColumns, fyPctChangeColumns };
 }
 
 function pickLatestFiscalYear(available: { fy: string; colIndex: number }[]): { fy: string; colIndex: number } | null {
@@ -216,6 +297,109 @@ function isExpenditureRow(cells: string[], mapping: ColumnMapping): boolean {
   return val === '' || val === 'expenditures' || val === 'expenditure';
 }
 
+/**
+ * Group Details / Detail 2 rows into a category tree for every FY dollar column.
+ * Total rows are skipped, duplicate rows (RIDE repeats a line with a blank LEA
+ * name when it disappears between years) are summed, and blank cells are ignored.
+ * Files without a Detail 2 column yield categories with no items.
+ */
+function buildCategoryTree(
+  dataRows: ParsedRow[],
+  mapping: ColumnMapping,
+  includeRow: (cells: string[], mapping: ColumnMapping) => boolean,
+): BudgetCategoryTree {
+  const hasDetail2 = mapping.detail2Col >= 0;
+  const tree: BudgetCategoryTree = {};
+
+  for (const { fy, colIndex } of mapping.fyDollarColumns) {
+    const pctCol = mapping.fyPctChangeColumns[fy];
+    const byName = new Map<string, { amount: number; items: Map<string, { amount: number; pctChange: number | null }> }>();
+
+    for (const row of dataRows) {
+      const cells = row.cells;
+      if (!includeRow(cells, mapping)) continue;
+      const detail1 = (cells[mapping.detailsCol] ?? '').trim();
+      const detail2 = hasDetail2 ? (cells[mapping.detail2Col] ?? '').trim() : '';
+      if (!detail1 || matchesCategory(detail1, 'Total')) continue;
+      const dollarVal = parseMoney(cells[colIndex]);
+      if (isNaN(dollarVal)) continue;
+
+      let cat = byName.get(detail1);
+      if (!cat) { cat = { amount: 0, items: new Map() }; byName.set(detail1, cat); }
+      cat.amount += dollarVal;
+      if (detail2) {
+        const item = cat.items.get(detail2);
+        if (item) item.amount += dollarVal;
+        else cat.items.set(detail2, { amount: dollarVal, pctChange: pctCol != null ? parsePercent(cells[pctCol]) : null });
+      }
+    }
+
+    if (byName.size === 0) continue;
+    tree[`FY${fy}`] = [...byName.entries()]
+      .map(([name, c]) => ({
+        name,
+        amount: c.amount,
+        items: [...c.items.entries()]
+          .map(([itemName, item]) => ({ name: itemName, amount: item.amount, pctChange: item.pctChange }))
+          .sort((a, b) => b.amount - a.amount),
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  return tree;
+}
+
+function isRevenueRow(cells: string[], mapping: ColumnMapping): boolean {
+  if (mapping.revenueOrExpCol < 0) return false;
+  const val = (cells[mapping.revenueOrExpCol] ?? '').trim().toLowerCase();
+  return val === 'revenues' || val === 'revenue';
+}
+
+/**
+ * Map an In$ite revenue "Details" label to a funding source. RI has no county
+ * layer, so "Intermediate Sources" (Little Compton's town appropriation) is local.
+ */
+function revenueSource(category: string): 'local' | 'state' | 'federal' | 'other' {
+  const c = category.toLowerCase();
+  if (c.includes('local') || c.includes('intermediate')) return 'local';
+  if (c.includes('state')) return 'state';
+  if (c.includes('federal')) return 'federal';
+  return 'other';
+}
+
+/**
+ * Summarize revenues for the expenditure fiscal year, falling back to the most
+ * recent year that has revenue rows. A year whose total is negative (sign
+ * flipped on entry) is negated.
+ */
+function summarizeRevenues(
+  tree: BudgetCategoryTree,
+  fiscalYear: string,
+  flags: string[],
+): RevenueSummary | null {
+  let year = fiscalYear;
+  if (!tree[year]?.length) {
+    const available = Object.keys(tree).sort();
+    if (available.length === 0) return null;
+    year = available[available.length - 1];
+    flags.push('revenues_from_other_fiscal_year');
+  }
+  const summary: RevenueSummary = { fiscalYear: year, local: 0, state: 0, federal: 0, other: 0, total: 0 };
+  for (const c of tree[year]) {
+    summary[revenueSource(c.name)] += c.amount;
+    summary.total += c.amount;
+  }
+  if (summary.total < 0) {
+    flags.push('revenues_sign_corrected');
+    summary.local = -summary.local;
+    summary.state = -summary.state;
+    summary.federal = -summary.federal;
+    summary.other = -summary.other;
+    summary.total = -summary.total;
+  }
+  return summary;
+}
+
 function extractDistrictName(filename: string): string {
   let name = path.basename(filename, path.extname(filename));
   // Strip known suffixes/annotations from filenames
@@ -242,10 +426,88 @@ function emptyBudget(displayName: string, sourceFile: string, flags: string[]):
     adminShareOfTotalModel: null,
     components: { districtManagement: 0, programOperationsManagement: 0 },
     componentsModel: { districtManagement: 0, programOperationsManagement: 0 },
+    categories: emptyCategories(),
+    expenditureCategories: {},
+    revenueCategories: {},
+    revenues: null,
+    history: [],
     flags,
   };
 }
 
+interface YearValues {
+  totalExpenditures: number | null;
+  totalPctChange: number | null;
+  districtManagement: number | null;
+  programOpsManagement: number | null;
+  categories: BudgetCategories;
+}
+
+/** Pull the headline expenditure rows out of one FY dollar column. */
+function extractYear(dataRows: ParsedRow[], mapping: ColumnMapping, fy: string, colIdx: number): YearValues {
+  const pctCol = mapping.fyPctChangeColumns[fy];
+  const hasDetail2 = mapping.detail2Col >= 0;
+  const values: YearValues = {
+    totalExpenditures: null,
+    totalPctChange: null,
+    districtManagement: null,
+    programOpsManagement: null,
+    categories: emptyCategories(),
+  };
+
+  for (const row of dataRows) {
+    const cells = row.cells;
+    const detail1 = (cells[mapping.detailsCol] ?? '').trim();
+    const detail2 = hasDetail2 ? (cells[mapping.detail2Col] ?? '').trim() : '';
+    const dollarVal = parseMoney(cells[colIdx]);
+
+    if (!isExpenditureRow(cells, mapping)) continue;
+
+    if (matchesCategory(detail1, 'Total') && (!hasDetail2 || matchesCategory(detail2, 'Total'))) {
+      if (!isNaN(dollarVal) && dollarVal > 0) {
+        values.totalExpenditures = dollarVal;
+        values.totalPctChange = pctCol != null ? parsePercent(cells[pctCol]) : null;
+      }
+    }
+
+    if (!hasDetail2) continue;
+
+    if (matchesCategory(detail1, 'Leadership') && matchesCategory(detail2, 'District Management')) {
+      if (!isNaN(dollarVal)) values.districtManagement = dollarVal;
+    }
+
+    if (matchesCategory(detail1, 'Leadership') && matchesCategory(detail2, 'Program Operations Management')) {
+      if (!isNaN(dollarVal)) values.programOpsManagement = dollarVal;
+    }
+
+    for (const c of CATEGORY_ROWS) {
+      if (matchesCategory(detail1, c.detail1) && matchesCategory(detail2, c.detail2) && !isNaN(dollarVal)) {
+        values.categories[c.field] = dollarVal;
+      }
+    }
+  }
+
+  return values;
+}
+
+function toSnapshot(fy: string, v: YearValues): BudgetYearSnapshot {
+  const hasAdmin = v.districtManagement !== null || v.programOpsManagement !== null;
+  const centralAdministration = hasAdmin ? (v.districtManagement ?? 0) + (v.programOpsManagement ?? 0) : null;
+  const adminShareOfTotal =
+    centralAdministration !== null && v.totalExpenditures
+      ? Math.round((centralAdministration / v.totalExpenditures) * 1e6) / 1e6
+      : null;
+  return {
+    fiscalYear: `FY${fy}`,
+    totalExpenditures: v.totalExpenditures,
+    totalPctChange: v.totalPctChange,
+    districtManagement: v.districtManagement,
+    programOperationsManagement: v.programOpsManagement,
+    centralAdministration,
+    adminShareOfTotal,
+  };
+}
+
 function extractRaw(filePath: string): {
   displayName: string;
   sourceFile: string;
@@ -253,6 +515,10 @@ function extractRaw(filePath: string): {
   totalExpenditures: number;
   districtManagement: number;
   programOpsManagement: number;
+  categories: BudgetCategories;
+  expenditureCategories: BudgetCategoryTree;
+  revenueCategories: BudgetCategoryTree;
+  history: BudgetYearSnapshot[];
   flags: string[];
 } | null {
   const sourceFile = path.basename(filePath);
@@ -272,58 +538,45 @@ function extractRaw(filePath: string): {
 
   const mapping = buildColumnMapping(headerLines);
   if (!mapping || mapping.fyDollarColumns.length === 0) {
-    return { displayName, sourceFile, fiscalYear: '', totalExpenditures: 0, districtManagement: 0, programOpsManagement: 0, flags: ['missing_fiscal_year'] };
+    return { displayName, sourceFile, fiscalYear: '', totalExpenditures: 0, districtManagement: 0, programOpsManagement: 0, categories: emptyCategories(), expenditureCategories: {}, revenueCategories: {}, history: [], flags: ['missing_fiscal_year'] };
   }
 
   const chosen = pickLatestFiscalYear(mapping.fyDollarColumns);
   if (!chosen) {
-    return { displayName, sourceFile, fiscalYear: '', totalExpenditures: 0, districtManagement: 0, programOpsManagement: 0, flags: ['missing_fiscal_year'] };
+    return { displayName, sourceFile, fiscalYear: '', totalExpenditures: 0, districtManagement: 0, programOpsManagement: 0, categories: emptyCategories(), expenditureCategories: {}, revenueCategories: {}, history: [], flags: ['missing_fiscal_year'] };
   }
 
   const fiscalYear = `FY${chosen.fy}`;
-  const colIdx = chosen.colIndex;
-
-  let totalExpenditures = 0;
-  let districtManagement = 0;
-  let programOpsManagement = 0;
-  let foundTotal = false;
-  let foundDM = false;
-  let foundPOM = false;
-
   const hasDetail2 = mapping.detail2Col >= 0;
 
-  for (const row of dataRows) {
-    const cells = row.cells;
-    const detail1 = (cells[mapping.detailsCol] ?? '').trim();
-    const detail2 = hasDetail2 ? (cells[mapping.detail2Col] ?? '').trim() : '';
-    const dollarVal = parseMoney(cells[colIdx]);
-
-    if (!isExpenditureRow(cells, mapping)) continue;
-
-    if (matchesCategory(detail1, 'Total') && (!hasDetail2 || matchesCategory(detail2, 'Total'))) {
-      if (!isNaN(dollarVal) && dollarVal > 0) {
-        totalExpenditures = dollarVal;
-        foundTotal = true;
-      }
-    }
-
-    if (!hasDetail2) continue;
+  const history = mapping.fyDollarColumns
+    .map(({ fy, colIndex }) => toSnapshot(fy, extractYear(dataRows, mapping, fy, colIndex)))
+    .filter((h) => h.totalExpenditures !== null)
+    .sort((a, b) => a.fiscalYear.localeCompare(b.fiscalYear));
 
-    if (matchesCategory(detail1, 'Leadership') && matchesCategory(detail2, 'District Management')) {
-      if (!isNaN(dollarVal)) { districtManagement = dollarVal; foundDM = true; }
-    }
+  const current = extractYear(dataRows, mapping, chosen.fy, chosen.colIndex);
 
-    if (matchesCategory(detail1, 'Leadership') && matchesCategory(detail2, 'Program Operations Management')) {
-      if (!isNaN(dollarVal)) { programOpsManagement = dollarVal; foundPOM = true; }
-    }
-  }
-
-  if (!foundTotal) flags.push('missing_total_expenditures');
-  if (!foundDM) flags.push('missing_district_management');
-  if (!foundPOM) flags.push('missing_program_operations_management');
+  if (current.totalExpenditures === null) flags.push('missing_total_expenditures');
+  if (current.districtManagement === null) flags.push('missing_district_management');
+  if (current.programOpsManagement === null) flags.push('missing_program_operations_management');
   if (!hasDetail2) flags.push('no_detail2_column');
 
-  return { displayName, sourceFile, fiscalYear, totalExpenditures, districtManagement, programOpsManagement, flags };
+  const expenditureCategories = buildCategoryTree(dataRows, mapping, isExpenditureRow);
+  const revenueCategories = buildCategoryTree(dataRows, mapping, isRevenueRow);
+
+  return {
+    displayName,
+    sourceFile,
+    fiscalYear,
+    totalExpenditures: current.totalExpenditures ?? 0,
+    districtManagement: current.districtManagement ?? 0,
+    programOpsManagement: current.programOpsManagement ?? 0,
+    categories: current.categories,
+    expenditureCategories,
+    revenueCategories,
+    history,
+    flags,
+  };
 }
 
 function processFile(filePath: string): DistrictBudget {
@@ -336,6 +589,9 @@ function processFile(filePath: string): DistrictBudget {
   const flags = raw.flags;
   const { totalExpenditures, districtManagement, programOpsManagement, fiscalYear } = raw;
 
+  const revenues = summarizeRevenues(raw.revenueCategories, fiscalYear, flags);
+  if (!revenues) flags.push('missing_revenues');
+
   // Raw values
   const centralAdministration = districtManagement + programOpsManagement;
   if (centralAdministration > totalExpenditures && totalExpenditures > 0) {
@@ -393,6 +649,11 @@ function processFile(filePath: string): DistrictBudget {
     adminShareOfTotalModel,
     components: { districtManagement, programOperationsManagement: programOpsManagement },
     componentsModel: { districtManagement: dmModel, programOperationsManagement: pomModel },
+    categories: raw.categories,
+    expenditureCategories: raw.expenditureCategories,
+    revenueCategories: raw.revenueCategories,
+    revenues,
+    history: raw.history,
     flags,
   };
 }
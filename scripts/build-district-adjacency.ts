@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+/**
+ * Build the district adjacency graph from shared polygon borders.
+ *
+ * Input:  data/districts.geojson
+ * Output: frontend/public/geo/district-adjacency.json
+ *
+ * Schema:
+ *   { source, neighbors: { key: key[] }, waterNeighbors: { key: key[] }, nestedIn: { key: key },
+ *     waterCrossings: { "a|b": bridge or ferry name } }
+ *   `neighbors` holds every shared border (same rule as buildAdjacency in
+ *   frontend/src/lib/adjacency.ts); `waterNeighbors` is the subset that only
+ *   touches across open water. Keys use districtKey().
+ *
+ * TIGER boundaries run out into Narragansett Bay and the Sakonnet River, so
+ * towns facing each other across the bay share a border. There is no water
+ * layer in the build inputs, so those pairs are listed in WATER_BORDERS below.
+ * Rivers with bridges (Seekonk, Blackstone, Pawtuxet) count as land borders.
+ *
+ * Run: npm run build:adjacency
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildAdjacency } from '../frontend/src/lib/adjacency';
+import type { DistrictFeature } from '../frontend/src/types';
+
+const PROJECT_ROOT = process.cwd();
+const DISTRICTS_PATH = process.env.DISTRICTS_GEOJSON ?? path.join(PROJECT_ROOT, 'data', 'districts.geojson');
+const OUT_DIR = path.join(PROJECT_ROOT, 'frontend', 'public', 'geo');
+
+/** Bordering pairs separated only by open water (bridge or ferry noted where one exists). */
+const WATER_BORDERS: [string, string, string?][] = [
+  ['jamestown', 'north kingstown', 'Jamestown Verrazzano Bridge'],
+  ['jamestown', 'newport', 'Newport Pell Bridge'],
+  ['jamestown', 'middletown'],
+  ['jamestown', 'narragansett'],
+  ['jamestown', 'portsmouth'],
+  ['bristol warren', 'portsmouth', 'Mount Hope Bridge'],
+  ['bristol warren', 'tiverton'],
+  ['portsmouth', 'tiverton', 'Sakonnet River Bridge'],
+  ['little compton', 'portsmouth'],
+  ['barrington', 'portsmouth'],
+  ['barrington', 'warwick'],
+  ['north kingstown', 'portsmouth'],
+  ['portsmouth', 'warwick'],
+  ['east providence', 'warwick'],
+  ['cranston', 'east providence'],
+];
+
+interface AdjacencyFile {
+  source: string;
+  neighbors: Record<string, string[]>;
+  waterNeighbors: Record<string, string[]>;
+  nestedIn: Record<string, string>;
+  /** Bridge or ferry per water pair, keyed "a|b" with a < b. */
+  waterCrossings: Record<string, string>;
+}
+
+function pairId(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function main(): void {
+  console.log('Building district adjacency from districts.geojson...\n');
+
+  if (!fs.existsSync(DISTRICTS_PATH)) {
+    console.error(`Districts GeoJSON not found: ${DISTRICTS_PATH}`);
+    console.error('Run: npm run build:districts first.');
+    if (!fs.existsSync(OUT_DIR)) fs.mkdirSync(OUT_DIR, { recursive: true });
+    const empty: AdjacencyFile = { source: '', neighbors: {}, waterNeighbors: {}, nestedIn: {}, waterCrossings: {} };
+    fs.writeFileSync(path.join(OUT_DIR, 'district-adjacency.json'), JSON.stringify(empty));
+    return;
+  }
+
+  const geojson = JSON.parse(fs.readFileSync(DISTRICTS_PATH, 'utf-8'));
+  const features: DistrictFeature[] = (geojson.features ?? []).filter(
+    (f: DistrictFeature) => f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon',
+  );
+  const { neighbors, nestedIn } = buildAdjacency(features);
+
+  const waterNeighbors: Record<string, string[]> = {};
+  const waterCrossings: Record<string, string> = {};
+  for (const k of Object.keys(neighbors)) waterNeighbors[k] = [];
+  for (const [a, b, via] of WATER_BORDERS) {
+    if (!neighbors[a]?.includes(b)) {
+      console.warn(`  Water border ${a} – ${b} is not a shared border in the polygons; skipped`);
+      continue;
+    }
+    waterNeighbors[a].push(b);
+    waterNeighbors[b].push(a);
+    if (via) waterCrossings[pairId(a, b)] = via;
+  }
+  for (const list of Object.values(waterNeighbors)) list.sort();
+
+  const out: AdjacencyFile = {
+    source: path.relative(PROJECT_ROOT, DISTRICTS_PATH),
+    neighbors,
+    waterNeighbors,
+    nestedIn,
+    waterCrossings,
+  };
+
+  if (!fs.existsSync(OUT_DIR)) fs.mkdirSync(OUT_DIR, { recursive: true });
+  const outPath = path.join(OUT_DIR, 'district-adjacency.json');
+  fs.writeFileSync(outPath, JSON.stringify(out, null, 2));
+
+  const pairs = Object.values(neighbors).reduce((s, n) => s + n.length, 0) / 2;
+  const waterPairs = Object.values(waterNeighbors).reduce((s, n) => s + n.length, 0) / 2;
+  console.log(`  Districts: ${Object.keys(neighbors).length}`);
+  console.log(`  Shared borders: ${pairs} (${waterPairs} across water)`);
+  console.log(`  Nested districts: ${Object.keys(nestedIn).length}`);
+  console.log(`  Output: ${outPath}\n`);
+
+  for (const k of Object.keys(neighbors).sort()) {
+    const land = neighbors[k].filter((n) => !waterNeighbors[k].includes(n));
+    const water = waterNeighbors[k].length > 0 ? `  ~ ${waterNeighbors[k].join(', ')}` : '';
+    console.log(`  ${k.padEnd(24)} ${land.join(', ') || '(none)'}${water}`);
+  }
+}
+
+main();
@@ -7,7 +7,7 @@
  * If none, fall back to an interior point of the district polygon.
  *
  * Input:  data/districts.geojson, data/schools.geojson,
- *         frontend/public/enrollment/ri_school_enrollment_2024-10.json
+ *         frontend/public/enrollment/ri_school_enrollment_<latest>-10.json (from index.json)
  * Output: frontend/public/centroids/district-anchors.json
  *
  * Run: npm run build:anchors
@@ -18,11 +18,12 @@ import * as path from 'path';
 import pointOnFeature from '@turf/point-on-feature';
 import centroid from '@turf/centroid';
 import { districtKey, normalizeDistrictName } from './lib/normalize';
+import { latestSnapshotPaths } from './lib/enrollmentSnapshots';
 
 const ROOT = process.cwd();
 const DISTRICTS_PATH = path.join(ROOT, 'data', 'districts.geojson');
 const SCHOOLS_PATH = path.join(ROOT, 'data', 'schools.geojson');
-const ENROLLMENT_PATH = path.join(ROOT, 'frontend', 'public', 'enrollment', 'ri_school_enrollment_2024-10.json');
+const ENROLLMENT_PATH = latestSnapshotPaths().school;
 const OUT_DIR = path.join(ROOT, 'frontend', 'public', 'centroids');
 const OUT_FILE = path.join(OUT_DIR, 'district-anchors.json');
 
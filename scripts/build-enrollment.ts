@@ -1,7 +1,17 @@
 #!/usr/bin/env node
 /**
- * Build enrollment JSON from RIDE Oct 2024 CSVs.
- * Output: frontend/public/enrollment/ri_lea_enrollment_2024-10.json, ri_school_enrollment_2024-10.json
+ * Build enrollment JSON from RIDE October enrollment CSVs, one snapshot per year.
+ *
+ * Snapshots come from data/enrollment/manifest.json when present:
+ *   { "snapshots": [{ "year": 2023, "lea": "path/to/lea.csv", "school": "path/to/school.csv" }] }
+ * (paths relative to the project root). Otherwise every CSV whose name contains
+ * 01OCT<year> in "Enrollment Data (As of 2024)/", data/enrollment/ or their
+ * subfolders is picked up; files with "school" in the name are school-level.
+ *
+ * Output (frontend/public/enrollment/):
+ *   ri_lea_enrollment_<year>-10.json, ri_school_enrollment_<year>-10.json  per snapshot
+ *   index.json                  snapshot list and latest year
+ *   ri_lea_enrollment_history.json  district totals by year
  * Run: npm run build:enrollment
  */
 
@@ -12,21 +22,24 @@ import { parse } from 'csv-parse/sync';
 const PROJECT_ROOT = process.cwd();
 const ENROLLMENT_DATA_DIR = path.join(PROJECT_ROOT, 'Enrollment Data (As of 2024)');
 const LEGACY_DATA_DIR = path.join(PROJECT_ROOT, 'data', 'enrollment');
+const MANIFEST_PATH = path.join(LEGACY_DATA_DIR, 'manifest.json');
 const OUT_DIR = path.join(PROJECT_ROOT, 'frontend', 'public', 'enrollment');
 
-const LEA_CSV_CANDIDATES = [
-  path.join(ENROLLMENT_DATA_DIR, 'Actual 01OCT2024 Enrollment Data RI.csv'),
-  path.join(ENROLLMENT_DATA_DIR, '01OCT2024 RI LEA Data.csv'),
-  path.join(LEGACY_DATA_DIR, '01OCT2024 RI LEA Data.csv'),
-];
-const LEA_CSV = LEA_CSV_CANDIDATES.find((p) => fs.existsSync(p)) ?? LEA_CSV_CANDIDATES[0];
+/** Searched in order; the first LEA/school CSV found for a year wins. */
+const SNAPSHOT_DIRS = [ENROLLMENT_DATA_DIR, LEGACY_DATA_DIR];
+const SNAPSHOT_FILE_PATTERN = /01OCT(\d{4})/i;
 
-const SCHOOL_CSV_CANDIDATES = [
-  path.join(ENROLLMENT_DATA_DIR, 'Actual 01OCT2024 By School Enrollment Data RI.csv'),
-  path.join(ENROLLMENT_DATA_DIR, '01OCT2024 RI Data by School.csv'),
-  path.join(LEGACY_DATA_DIR, '01OCT2024 RI Data by School.csv'),
-];
-const SCHOOL_CSV = SCHOOL_CSV_CANDIDATES.find((p) => fs.existsSync(p)) ?? SCHOOL_CSV_CANDIDATES[0];
+interface SnapshotSource {
+  year: number;
+  leaCsv: string;
+  schoolCsv: string | null;
+}
+
+interface ManifestEntry {
+  year: number;
+  lea: string;
+  school?: string;
+}
 
 import { normalizeDistrictName as normalize, districtKey as resolveDistrictKey } from './lib/normalize';
 
@@ -67,6 +80,30 @@ interface DistrictEnrollment {
   grades: Record<string, number>;
 }
 
+interface SchoolEnrollment {
+  distcode: string;
+  schcode: string;
+  distname: string;
+  schname: string;
+  total: number;
+  FRL?: number;
+  LEP?: number;
+  IEP?: number;
+  VOCED?: number;
+  demographics?: Demographics;
+  grades: Record<string, number>;
+}
+
+/** One entry of index.json. Must match EnrollmentSnapshotInfo in frontend/src/lib/enrollment.ts */
+interface SnapshotInfo {
+  year: number;
+  label: string;
+  lea: string;
+  school: string;
+  districts: number;
+  schools: number;
+}
+
 const ELEM_GRADES = ['GPK', 'GKG', 'G01', 'G02', 'G03', 'G04', 'G05', 'G06', 'G07', 'G08', 'KF', 'KG', 'PK', 'PF'];
 const SEC_GRADES = ['G09', 'G10', 'G11', 'G12'];
 const DEMO_FIELDS = ['NATIVE', 'ASIAN', 'BLACK', 'HISPANIC', 'MULTIRACE', 'PACIFICISLANDER', 'WHITE', 'FEMALE', 'MALE', 'OTHER'] as const;
@@ -157,36 +194,56 @@ function getSampleLeaEnrollment(): Record<string, { distcode: string; distname:
   return out;
 }
 
-function main(): void {
-  console.log('Building enrollment JSON from RIDE Oct 2024 CSVs...\n');
-
-  if (!fs.existsSync(OUT_DIR)) {
-    fs.mkdirSync(OUT_DIR, { recursive: true });
+/** CSVs directly in dir or in its immediate subfolders. */
+function csvFilesIn(dir: string, depth = 1): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const out: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory() && depth > 0) out.push(...csvFilesIn(full, depth - 1));
+    else if (entry.isFile() && entry.name.toLowerCase().endsWith('.csv')) out.push(full);
   }
+  return out;
+}
 
-  if (!fs.existsSync(LEA_CSV)) {
-    console.warn(`Missing LEA CSV: ${LEA_CSV}`);
-    console.warn('Place "01OCT2024 RI LEA Data.csv" in data/enrollment/ - using sample data for demo.');
-    const sampleLea = getSampleLeaEnrollment();
-    fs.writeFileSync(path.join(OUT_DIR, 'ri_lea_enrollment_2024-10.json'), JSON.stringify(sampleLea));
-    fs.writeFileSync(path.join(OUT_DIR, 'ri_school_enrollment_2024-10.json'), '{}');
-    console.log(`Wrote sample LEA data (${Object.keys(sampleLea).length} districts). Run again after adding CSVs for real data.`);
-    return;
+function discoverSnapshots(): SnapshotSource[] {
+  if (fs.existsSync(MANIFEST_PATH)) {
+    const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf-8')) as { snapshots?: ManifestEntry[] };
+    const out: SnapshotSource[] = [];
+    for (const entry of manifest.snapshots ?? []) {
+      const leaCsv = path.resolve(PROJECT_ROOT, entry.lea);
+      if (!Number.isInteger(entry.year) || !fs.existsSync(leaCsv)) {
+        console.warn(`  Manifest entry skipped (year ${entry.year}): ${entry.lea} not found`);
+        continue;
+      }
+      const schoolCsv = entry.school ? path.resolve(PROJECT_ROOT, entry.school) : null;
+      out.push({ year: entry.year, leaCsv, schoolCsv: schoolCsv && fs.existsSync(schoolCsv) ? schoolCsv : null });
+    }
+    return out.sort((a, b) => a.year - b.year);
   }
 
-  const leaRaw = fs.readFileSync(LEA_CSV, 'utf-8');
-  const schoolRaw = fs.existsSync(SCHOOL_CSV)
-    ? fs.readFileSync(SCHOOL_CSV, 'utf-8')
-    : '';
-  if (!schoolRaw) {
-    console.warn('School CSV missing - writing empty school enrollment.');
+  const byYear = new Map<number, { lea?: string; school?: string }>();
+  for (const dir of SNAPSHOT_DIRS) {
+    for (const file of csvFilesIn(dir)) {
+      const match = path.basename(file).match(SNAPSHOT_FILE_PATTERN);
+      if (!match) continue;
+      const year = parseInt(match[1], 10);
+      const entry = byYear.get(year) ?? {};
+      if (/school/i.test(path.basename(file))) entry.school ??= file;
+      else entry.lea ??= file;
+      byYear.set(year, entry);
+    }
   }
+  return [...byYear.entries()]
+    .filter(([year, e]) => {
+      if (!e.lea) console.warn(`  ${year}: school CSV found but no LEA CSV - skipped`);
+      return !!e.lea;
+    })
+    .map(([year, e]) => ({ year, leaCsv: e.lea!, schoolCsv: e.school ?? null }))
+    .sort((a, b) => a.year - b.year);
+}
 
-  const leaRows = parse(leaRaw, { columns: true, skip_empty_lines: true }) as Record<string, unknown>[];
-  const schoolRows = schoolRaw
-    ? (parse(schoolRaw, { columns: true, skip_empty_lines: true }) as Record<string, unknown>[])
-    : [];
-
+function buildLeaMap(leaRows: Record<string, unknown>[]): Record<string, DistrictEnrollment> {
   const leaMap: Record<string, DistrictEnrollment> = {};
   for (const row of leaRows) {
     const distname = getCol(row, 'distname', 'DistName', 'DISTNAME', 'LEANAME', 'lea_name');
@@ -230,20 +287,11 @@ function main(): void {
       grades: Object.keys(grades).length ? grades : {},
     };
   }
+  return leaMap;
+}
 
-  const schoolMap: Record<string, {
-    distcode: string;
-    schcode: string;
-    distname: string;
-    schname: string;
-    total: number;
-    FRL?: number;
-    LEP?: number;
-    IEP?: number;
-    VOCED?: number;
-    demographics?: Demographics;
-    grades: Record<string, number>;
-  }> = {};
+function buildSchoolMap(schoolRows: Record<string, unknown>[]): Record<string, SchoolEnrollment> {
+  const schoolMap: Record<string, SchoolEnrollment> = {};
   for (const row of schoolRows) {
     const distname = getCol(row, 'distname', 'DistName', 'DISTNAME', 'LEANAME');
     const schname = getCol(row, 'schname', 'SchName', 'SCHNAME', 'SCH_NAME');
@@ -273,20 +321,86 @@ function main(): void {
       grades: Object.keys(grades).length ? grades : {},
     };
   }
+  return schoolMap;
+}
+
+const leaFileName = (year: number) => `ri_lea_enrollment_${year}-10.json`;
+const schoolFileName = (year: number) => `ri_school_enrollment_${year}-10.json`;
+
+function writeIndex(snapshots: SnapshotInfo[], history: Record<string, Record<string, number>>): void {
+  const index = {
+    latest: Math.max(...snapshots.map((s) => s.year)),
+    snapshots,
+  };
+  fs.writeFileSync(path.join(OUT_DIR, 'index.json'), JSON.stringify(index, null, 2));
+  fs.writeFileSync(path.join(OUT_DIR, 'ri_lea_enrollment_history.json'), JSON.stringify(history));
+  console.log(`  Wrote index.json (${snapshots.length} snapshot(s), latest ${index.latest})`);
+}
+
+function main(): void {
+  console.log('Building enrollment JSON from RIDE October CSVs...\n');
 
   if (!fs.existsSync(OUT_DIR)) {
     fs.mkdirSync(OUT_DIR, { recursive: true });
   }
 
-  const leaPath = path.join(OUT_DIR, 'ri_lea_enrollment_2024-10.json');
-  const schoolPath = path.join(OUT_DIR, 'ri_school_enrollment_2024-10.json');
-  fs.writeFileSync(leaPath, JSON.stringify(leaMap));
-  fs.writeFileSync(schoolPath, JSON.stringify(schoolMap));
+  const sources = discoverSnapshots();
+  if (sources.length === 0) {
+    console.warn('No RIDE October enrollment CSVs found.');
+    console.warn('Place "01OCT<year> RI LEA Data.csv" in data/enrollment/ (or list files in data/enrollment/manifest.json) - using sample data for demo.');
+    const sampleLea = getSampleLeaEnrollment();
+    fs.writeFileSync(path.join(OUT_DIR, leaFileName(2024)), JSON.stringify(sampleLea));
+    fs.writeFileSync(path.join(OUT_DIR, schoolFileName(2024)), '{}');
+    const history = Object.fromEntries(Object.entries(sampleLea).map(([k, v]) => [k, { '2024': v.total }]));
+    writeIndex(
+      [{ year: 2024, label: 'Oct 2024', lea: leaFileName(2024), school: schoolFileName(2024), districts: Object.keys(sampleLea).length, schools: 0 }],
+      history,
+    );
+    console.log(`Wrote sample LEA data (${Object.keys(sampleLea).length} districts). Run again after adding CSVs for real data.`);
+    return;
+  }
+
+  const snapshots: SnapshotInfo[] = [];
+  const history: Record<string, Record<string, number>> = {};
+  for (const src of sources) {
+    console.log(`Oct ${src.year}:`);
+    console.log(`  LEA CSV: ${path.relative(PROJECT_ROOT, src.leaCsv)}`);
+    if (!src.schoolCsv) {
+      console.warn('  School CSV missing - writing empty school enrollment.');
+    }
+
+    const leaRows = parse(fs.readFileSync(src.leaCsv, 'utf-8'), { columns: true, skip_empty_lines: true }) as Record<string, unknown>[];
+    const schoolRows = src.schoolCsv
+      ? (parse(fs.readFileSync(src.schoolCsv, 'utf-8'), { columns: true, skip_empty_lines: true }) as Record<string, unknown>[])
+      : [];
+
+    const leaMap = buildLeaMap(leaRows);
+    const schoolMap = buildSchoolMap(schoolRows);
+
+    const leaPath = path.join(OUT_DIR, leaFileName(src.year));
+    const schoolPath = path.join(OUT_DIR, schoolFileName(src.year));
+    fs.writeFileSync(leaPath, JSON.stringify(leaMap));
+    fs.writeFileSync(schoolPath, JSON.stringify(schoolMap));
+
+    for (const [key, d] of Object.entries(leaMap)) {
+      (history[key] ??= {})[String(src.year)] = d.total;
+    }
+    snapshots.push({
+      year: src.year,
+      label: `Oct ${src.year}`,
+      lea: leaFileName(src.year),
+      school: schoolFileName(src.year),
+      districts: Object.keys(leaMap).length,
+      schools: Object.keys(schoolMap).length,
+    });
+
+    console.log(`  LEA districts: ${Object.keys(leaMap).length}`);
+    console.log(`  Schools: ${Object.keys(schoolMap).length}`);
+    console.log(`  Wrote ${leaPath}`);
+    console.log(`  Wrote ${schoolPath}`);
+  }
 
-  console.log(`  LEA districts: ${Object.keys(leaMap).length}`);
-  console.log(`  Schools: ${Object.keys(schoolMap).length}`);
-  console.log(`  Wrote ${leaPath}`);
-  console.log(`  Wrote ${schoolPath}`);
+  writeIndex(snapshots, history);
 }
 
 main();
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+/**
+ * Build per-school capacity and utilization from an optional capacity dataset.
+ *
+ * Input:  data/public_school_capacity.json (optional), keyed by NCES school ID:
+ *           { "440027000077": { "capacity": 450, "source": "2023 facilities survey", "note": "..." } }
+ *         data/schools.geojson (to match NCES IDs to RIDE school names)
+ *         latest school enrollment from frontend/public/enrollment/index.json
+ * Output: frontend/public/capacity/school-capacity.json, keyed by NCES ID with
+ *         capacity, enrollment and utilization = enrollment / capacity
+ *
+ * Run: npm run build:capacity
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeDistrictName } from './lib/normalize';
+import { latestSnapshotPaths } from './lib/enrollmentSnapshots';
+
+const ROOT = process.cwd();
+const CAPACITY_PATH = path.join(ROOT, 'data', 'public_school_capacity.json');
+const SCHOOLS_PATH = path.join(ROOT, 'data', 'schools.geojson');
+const OUT_DIR = path.join(ROOT, 'frontend', 'public', 'capacity');
+const OUT_FILE = path.join(OUT_DIR, 'school-capacity.json');
+
+interface CapacityInput {
+  capacity: number;
+  source?: string;
+  note?: string;
+}
+
+/** Must match SchoolCapacityEntry in frontend/src/lib/capacity.ts */
+interface CapacityEntry {
+  capacity: number;
+  enrollment: number | null;
+  utilization: number | null;
+  enrollmentYear: number;
+  source?: string;
+  note?: string;
+}
+
+function loadCapacityInput(): Record<string, CapacityInput> {
+  const raw = JSON.parse(fs.readFileSync(CAPACITY_PATH, 'utf-8'));
+  const out: Record<string, CapacityInput> = {};
+  for (const [k, v] of Object.entries(raw || {})) {
+    const entry = v as Partial<CapacityInput>;
+    if (entry && typeof entry.capacity === 'number' && entry.capacity > 0) {
+      out[String(k)] = { capacity: entry.capacity, source: entry.source, note: entry.note };
+    } else {
+      console.warn(`  ${k}: missing or non-positive capacity - skipped`);
+    }
+  }
+  return out;
+}
+
+function main(): void {
+  console.log('Building school capacity...\n');
+
+  if (!fs.existsSync(CAPACITY_PATH)) {
+    console.log('  No data/public_school_capacity.json - capacity features stay hidden. Nothing to do.');
+    return;
+  }
+
+  const input = loadCapacityInput();
+  const snapshot = latestSnapshotPaths();
+  const enrollment: Record<string, { total?: number }> = fs.existsSync(snapshot.school)
+    ? JSON.parse(fs.readFileSync(snapshot.school, 'utf-8'))
+    : {};
+  if (Object.keys(enrollment).length === 0) {
+    console.warn('  School enrollment not found; utilization left empty.');
+  }
+
+  const schoolsGeo = JSON.parse(fs.readFileSync(SCHOOLS_PATH, 'utf-8'));
+  const namesByNces = new Map<string, { name: string; district: string }>();
+  for (const f of schoolsGeo.features ?? []) {
+    const p = f.properties ?? {};
+    if (p.school_type === 'public' && p.nces_id) namesByNces.set(String(p.nces_id), { name: p.name, district: p.district_name ?? '' });
+  }
+
+  const out: Record<string, CapacityEntry> = {};
+  let matched = 0;
+  for (const [nces, c] of Object.entries(input)) {
+    const school = namesByNces.get(nces);
+    if (!school) console.warn(`  ${nces}: not in schools.geojson`);
+    const total = school ? enrollment[`${normalizeDistrictName(school.district)}||${normalizeDistrictName(school.name)}`]?.total : undefined;
+    const students = typeof total === 'number' && total > 0 ? total : null;
+    if (students != null) matched++;
+    out[nces] = {
+      capacity: c.capacity,
+      enrollment: students,
+      utilization: students != null ? students / c.capacity : null,
+      enrollmentYear: snapshot.year,
+      ...(c.source ? { source: c.source } : {}),
+      ...(c.note ? { note: c.note } : {}),
+    };
+  }
+
+  if (!fs.existsSync(OUT_DIR)) fs.mkdirSync(OUT_DIR, { recursive: true });
+  fs.writeFileSync(OUT_FILE, JSON.stringify(out, null, 2));
+  console.log(`  Schools with capacity: ${Object.keys(out).length} (${matched} matched to Oct ${snapshot.year} enrollment)`);
+  console.log(`  Wrote ${OUT_FILE}`);
+}
+
+main();
@@ -0,0 +1,348 @@
+#!/usr/bin/env node
+/**
+ * Build a drive distance / drive time matrix between all schools and district
+ * anchors from a local OpenStreetMap extract.
+ *
+ * Input:  data/raw/*.osm.pbf (e.g. Geofabrik rhode-island-latest.osm.pbf;
+ *         or pass a path as the first argument),
+ *         data/schools.geojson, frontend/public/centroids/district-anchors.json
+ * Output: frontend/public/geo/travel-matrix.json
+ *
+ * Schema:
+ *   { source, points: [{ id, lat, lon, snapMiles }], miles: (number|null)[][], minutes: (number|null)[][] }
+ *   Point ids are school feature ids and "anchor:<districtKey>". null = unreachable.
+ *
+ * Roads are weighted by time using a speed per highway class; ferries
+ * (Jamestown, Block Island) are included at ferry speed. Without a .osm.pbf
+ * nothing is written and the app falls back to straight-line distances.
+ *
+ * Run: npm run build:travel
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readOsmPbf } from './lib/osmPbf';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw');
+const SCHOOLS_PATH = path.join(ROOT, 'data', 'schools.geojson');
+const ANCHORS_PATH = path.join(ROOT, 'frontend', 'public', 'centroids', 'district-anchors.json');
+const OUT_FILE = path.join(ROOT, 'frontend', 'public', 'geo', 'travel-matrix.json');
+
+/** Typical driving speeds (mph) by OSM highway class. */
+const SPEED_MPH: Record<string, number> = {
+  motorway: 55,
+  motorway_link: 35,
+  trunk: 45,
+  trunk_link: 30,
+  primary: 35,
+  primary_link: 25,
+  secondary: 30,
+  secondary_link: 25,
+  tertiary: 30,
+  tertiary_link: 25,
+  unclassified: 25,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+};
+const FERRY_SPEED_MPH = 12;
+/** Speed for the straight-line hop from a point to its nearest road node. */
+const SNAP_SPEED_MPH = 15;
+const SNAP_WARN_MILES = 1;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface MatrixPoint {
+  id: string;
+  lat: number;
+  lon: number;
+  snapMiles: number;
+}
+
+interface Graph {
+  lat: Float64Array;
+  lon: Float64Array;
+  /** CSR adjacency */
+  offsets: Int32Array;
+  targets: Int32Array;
+  minutes: Float32Array;
+  miles: Float32Array;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function milesBetween(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+function findPbf(): string | null {
+  if (process.argv[2]) return path.resolve(process.argv[2]);
+  if (!fs.existsSync(RAW_DIR)) return null;
+  const f = fs.readdirSync(RAW_DIR).find((n) => n.toLowerCase().endsWith('.osm.pbf'));
+  return f ? path.join(RAW_DIR, f) : null;
+}
+
+function loadPoints(): MatrixPoint[] {
+  const points: MatrixPoint[] = [];
+  const schools = JSON.parse(fs.readFileSync(SCHOOLS_PATH, 'utf-8')) as {
+    features: { properties: { id: string; lat: number; lon: number } }[];
+  };
+  for (const f of schools.features) {
+    points.push({ id: f.properties.id, lat: f.properties.lat, lon: f.properties.lon, snapMiles: 0 });
+  }
+  if (fs.existsSync(ANCHORS_PATH)) {
+    const anchors = JSON.parse(fs.readFileSync(ANCHORS_PATH, 'utf-8')) as Record<string, { lat: number; lon: number }>;
+    for (const [key, a] of Object.entries(anchors)) {
+      points.push({ id: `anchor:${key}`, lat: a.lat, lon: a.lon, snapMiles: 0 });
+    }
+  } else {
+    console.warn(`  Anchors not found (${ANCHORS_PATH}); run npm run build:anchors first for anchor distances.`);
+  }
+  return points;
+}
+
+function wayOneway(tags: Record<string, string>): 0 | 1 | -1 {
+  const v = tags.oneway;
+  if (v === 'yes' || v === '1' || v === 'true') return 1;
+  if (v === '-1' || v === 'reverse') return -1;
+  if (tags.highway === 'motorway' || tags.junction === 'roundabout') return 1;
+  return 0;
+}
+
+function waySpeed(tags: Record<string, string>): number | null {
+  if (tags.route === 'ferry') return FERRY_SPEED_MPH;
+  if (tags.access === 'no' || tags.access === 'private' || tags.motor_vehicle === 'no') return null;
+  return SPEED_MPH[tags.highway] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Graph
+// ---------------------------------------------------------------------------
+
+function buildGraph(pbfPath: string): { graph: Graph; roadNode: Uint8Array } {
+  interface DriveWay { refs: number[]; speed: number; oneway: 0 | 1 | -1; ferry: boolean }
+  const ways: DriveWay[] = [];
+  const nodeIndex = new Map<number, number>();
+
+  // Pass 1: drivable ways and the nodes they use
+  readOsmPbf(pbfPath, {
+    way: (_id, tags, refs) => {
+      const speed = waySpeed(tags);
+      if (speed === null || refs.length < 2) return;
+      ways.push({ refs, speed, oneway: wayOneway(tags), ferry: tags.route === 'ferry' });
+      for (const r of refs) if (!nodeIndex.has(r)) nodeIndex.set(r, nodeIndex.size);
+    },
+  });
+
+  // Pass 2: coordinates for those nodes
+  const n = nodeIndex.size;
+  const lat = new Float64Array(n).fill(NaN);
+  const lon = new Float64Array(n).fill(NaN);
+  readOsmPbf(pbfPath, {
+    node: (id, la, lo) => {
+      const i = nodeIndex.get(id);
+      if (i !== undefined) { lat[i] = la; lon[i] = lo; }
+    },
+  });
+
+  // Edges (two arrays per direction), then CSR
+  const from: number[] = [];
+  const to: number[] = [];
+  const mins: number[] = [];
+  const dist: number[] = [];
+  const roadNode = new Uint8Array(n);
+  for (const w of ways) {
+    for (let i = 1; i < w.refs.length; i++) {
+      const a = nodeIndex.get(w.refs[i - 1])!;
+      const b = nodeIndex.get(w.refs[i])!;
+      if (isNaN(lat[a]) || isNaN(lat[b])) continue;
+      const d = milesBetween(lat[a], lon[a], lat[b], lon[b]);
+      const t = (d / w.speed) * 60;
+      if (w.oneway >= 0) { from.push(a); to.push(b); mins.push(t); dist.push(d); }
+      if (w.oneway <= 0) { from.push(b); to.push(a); mins.push(t); dist.push(d); }
+      if (!w.ferry) { roadNode[a] = 1; roadNode[b] = 1; }
+    }
+  }
+
+  const offsets = new Int32Array(n + 1);
+  for (const f of from) offsets[f + 1]++;
+  for (let i = 0; i < n; i++) offsets[i + 1] += offsets[i];
+  const fill = offsets.slice(0, n);
+  const targets = new Int32Array(from.length);
+  const minutes = new Float32Array(from.length);
+  const miles = new Float32Array(from.length);
+  for (let e = 0; e < from.length; e++) {
+    const slot = fill[from[e]]++;
+    targets[slot] = to[e];
+    minutes[slot] = mins[e];
+    miles[slot] = dist[e];
+  }
+
+  return { graph: { lat, lon, offsets, targets, minutes, miles }, roadNode };
+}
+
+/** Nearest road (non-ferry) node per point, by brute force. */
+function snapPoints(points: MatrixPoint[], graph: Graph, roadNode: Uint8Array): Int32Array {
+  const snapped = new Int32Array(points.length).fill(-1);
+  for (let p = 0; p < points.length; p++) {
+    const { lat, lon } = points[p];
+    const cosLat = Math.cos((lat * Math.PI) / 180);
+    let best = Infinity;
+    for (let i = 0; i < graph.lat.length; i++) {
+      if (!roadNode[i]) continue;
+      const dy = graph.lat[i] - lat;
+      const dx = (graph.lon[i] - lon) * cosLat;
+      const d = dx * dx + dy * dy;
+      if (d < best) { best = d; snapped[p] = i; }
+    }
+    if (snapped[p] >= 0) {
+      const i = snapped[p];
+      points[p].snapMiles = Math.round(milesBetween(lat, lon, graph.lat[i], graph.lon[i]) * 100) / 100;
+    }
+  }
+  return snapped;
+}
+
+/** Dijkstra on minutes from one node; stops once every target is settled. */
+function shortestPaths(
+  graph: Graph,
+  source: number,
+  targets: Set<number>,
+  bestMinutes: Float64Array,
+  pathMiles: Float64Array,
+): void {
+  bestMinutes.fill(Infinity);
+  pathMiles.fill(Infinity);
+  const settled = new Uint8Array(bestMinutes.length);
+  // Binary heap of [minutes, node]
+  const heapKey: number[] = [];
+  const heapNode: number[] = [];
+  const push = (k: number, v: number) => {
+    let i = heapKey.length;
+    heapKey.push(k); heapNode.push(v);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heapKey[parent] <= heapKey[i]) break;
+      [heapKey[parent], heapKey[i]] = [heapKey[i], heapKey[parent]];
+      [heapNode[parent], heapNode[i]] = [heapNode[i], heapNode[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): number => {
+    const top = heapNode[0];
+    const lastK = heapKey.pop()!;
+    const lastV = heapNode.pop()!;
+    if (heapKey.length > 0) {
+      heapKey[0] = lastK; heapNode[0] = lastV;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1, r = l + 1;
+        let m = i;
+        if (l < heapKey.length && heapKey[l] < heapKey[m]) m = l;
+        if (r < heapKey.length && heapKey[r] < heapKey[m]) m = r;
+        if (m === i) break;
+        [heapKey[m], heapKey[i]] = [heapKey[i], heapKey[m]];
+        [heapNode[m], heapNode[i]] = [heapNode[i], heapNode[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  let remaining = targets.size;
+  bestMinutes[source] = 0;
+  pathMiles[source] = 0;
+  push(0, source);
+  while (heapKey.length > 0 && remaining > 0) {
+    const u = pop();
+    if (settled[u]) continue;
+    settled[u] = 1;
+    if (targets.has(u)) remaining--;
+    for (let e = graph.offsets[u]; e < graph.offsets[u + 1]; e++) {
+      const v = graph.targets[e];
+      const t = bestMinutes[u] + graph.minutes[e];
+      if (t < bestMinutes[v]) {
+        bestMinutes[v] = t;
+        pathMiles[v] = pathMiles[u] + graph.miles[e];
+        push(t, v);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function main(): void {
+  console.log('Building travel matrix from OpenStreetMap extract...\n');
+
+  const pbfPath = findPbf();
+  if (!pbfPath || !fs.existsSync(pbfPath)) {
+    console.warn(`No .osm.pbf found in ${RAW_DIR}.`);
+    console.warn('Download an extract (e.g. https://download.geofabrik.de/north-america/us/rhode-island-latest.osm.pbf)');
+    console.warn('into data/raw/ and re-run. The app falls back to straight-line distances.');
+    return;
+  }
+
+  const points = loadPoints();
+  console.log(`  Source: ${path.basename(pbfPath)}`);
+  console.log(`  Points: ${points.length}`);
+
+  const { graph, roadNode } = buildGraph(pbfPath);
+  console.log(`  Graph: ${graph.lat.length.toLocaleString()} nodes, ${graph.targets.length.toLocaleString()} directed edges`);
+
+  const snapped = snapPoints(points, graph, roadNode);
+  const farSnaps = points.filter((p) => p.snapMiles > SNAP_WARN_MILES);
+  for (const p of farSnaps) console.warn(`  Warning: ${p.id} is ${p.snapMiles} mi from the nearest road`);
+
+  const targetNodes = new Set<number>([...snapped].filter((i) => i >= 0));
+  const bestMinutes = new Float64Array(graph.lat.length);
+  const pathMiles = new Float64Array(graph.lat.length);
+  const miles: (number | null)[][] = [];
+  const minutes: (number | null)[][] = [];
+  const round1 = (v: number) => Math.round(v * 10) / 10;
+
+  for (let a = 0; a < points.length; a++) {
+    const rowMiles: (number | null)[] = [];
+    const rowMinutes: (number | null)[] = [];
+    if (snapped[a] >= 0) shortestPaths(graph, snapped[a], targetNodes, bestMinutes, pathMiles);
+    for (let b = 0; b < points.length; b++) {
+      const node = snapped[b];
+      if (snapped[a] < 0 || node < 0 || !isFinite(bestMinutes[node])) {
+        rowMiles.push(null);
+        rowMinutes.push(null);
+        continue;
+      }
+      const snap = points[a].snapMiles + points[b].snapMiles;
+      rowMiles.push(round1(pathMiles[node] + snap));
+      rowMinutes.push(round1(bestMinutes[node] + (snap / SNAP_SPEED_MPH) * 60));
+    }
+    miles.push(rowMiles);
+    minutes.push(rowMinutes);
+    if ((a + 1) % 50 === 0) console.log(`  Routed ${a + 1}/${points.length}`);
+  }
+
+  const unreachable = miles.reduce((s, row) => s + row.filter((v) => v === null).length, 0);
+  fs.mkdirSync(path.dirname(OUT_FILE), { recursive: true });
+  fs.writeFileSync(
+    OUT_FILE,
+    JSON.stringify({ source: path.basename(pbfPath), points, miles, minutes }),
+  );
+
+  console.log(`\n  Unreachable pairs: ${unreachable}`);
+  console.log(`  Output: ${OUT_FILE}\n`);
+}
+
+main();
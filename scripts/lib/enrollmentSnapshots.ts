@@ -0,0 +1,33 @@
+/**
+ * Locate the enrollment JSON written by build-enrollment.ts for the latest
+ * October count, via frontend/public/enrollment/index.json. Falls back to the
+ * Oct 2024 file names used before multi-year builds.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const ENROLLMENT_OUT_DIR = path.join(process.cwd(), 'frontend', 'public', 'enrollment');
+
+export interface LatestSnapshotPaths {
+  year: number;
+  lea: string;
+  school: string;
+}
+
+export function latestSnapshotPaths(dir: string = ENROLLMENT_OUT_DIR): LatestSnapshotPaths {
+  const indexPath = path.join(dir, 'index.json');
+  if (fs.existsSync(indexPath)) {
+    const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as {
+      latest: number;
+      snapshots: { year: number; lea: string; school: string }[];
+    };
+    const latest = index.snapshots.find((s) => s.year === index.latest);
+    if (latest) return { year: latest.year, lea: path.join(dir, latest.lea), school: path.join(dir, latest.school) };
+  }
+  return {
+    year: 2024,
+    lea: path.join(dir, 'ri_lea_enrollment_2024-10.json'),
+    school: path.join(dir, 'ri_school_enrollment_2024-10.json'),
+  };
+}
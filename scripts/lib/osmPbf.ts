@@ -0,0 +1,210 @@
+/**
+ * Minimal OpenStreetMap PBF reader: nodes (plain and dense) and ways with tags.
+ * Relations and metadata are skipped. Only raw and zlib blobs are supported,
+ * which covers Geofabrik and BBBike extracts.
+ *
+ * Format: https://wiki.openstreetmap.org/wiki/PBF_Format
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+export interface OsmHandlers {
+  node?: (id: number, lat: number, lon: number) => void;
+  way?: (id: number, tags: Record<string, string>, refs: number[]) => void;
+}
+
+// --- Protobuf wire format ---
+
+class Reader {
+  pos: number;
+
+  constructor(readonly buf: Uint8Array, start = 0, readonly end = buf.length) {
+    this.pos = start;
+  }
+
+  /** Unsigned varint; exact up to 2^53. */
+  varint(): number {
+    let result = 0;
+    let mul = 1;
+    for (;;) {
+      const b = this.buf[this.pos++];
+      result += (b & 0x7f) * mul;
+      if (b < 0x80) return result;
+      mul *= 128;
+    }
+  }
+
+  /** Zigzag-encoded signed varint. */
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  /** Length-delimited field as a sub-reader. */
+  sub(): Reader {
+    const len = this.varint();
+    const r = new Reader(this.buf, this.pos, this.pos + len);
+    this.pos += len;
+    return r;
+  }
+
+  bytes(): Uint8Array {
+    const len = this.varint();
+    const out = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.pos += this.varint();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+
+  /** Iterate fields; the callback must consume the value or call skip. */
+  fields(fn: (field: number, wireType: number) => void): void {
+    while (this.pos < this.end) {
+      const tag = this.varint();
+      fn(Math.floor(tag / 8), tag % 8);
+    }
+  }
+
+  packed(read: (r: Reader) => number): number[] {
+    const r = this.sub();
+    const out: number[] = [];
+    while (r.pos < r.end) out.push(read(r));
+    return out;
+  }
+}
+
+const utf8 = new TextDecoder();
+
+// --- Blocks ---
+
+function readBlob(buf: Uint8Array): Uint8Array {
+  let raw: Uint8Array | null = null;
+  let zlibData: Uint8Array | null = null;
+  const r = new Reader(buf);
+  r.fields((field, wt) => {
+    if (field === 1) raw = r.bytes();
+    else if (field === 3) zlibData = r.bytes();
+    else if (field === 4 || field === 6 || field === 7) throw new Error('Compressed PBF blob type not supported (use zlib)');
+    else r.skip(wt);
+  });
+  if (raw) return raw;
+  if (zlibData) return zlib.inflateSync(zlibData);
+  throw new Error('Empty PBF blob');
+}
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function coord(ctx: BlockContext, offset: number, value: number): number {
+  return (offset + ctx.granularity * value) * 1e-9;
+}
+
+function readDenseNodes(r: Reader, ctx: BlockContext, onNode: NonNullable<OsmHandlers['node']>): void {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  r.fields((field, wt) => {
+    if (field === 1) ids = r.packed((p) => p.svarint());
+    else if (field === 8) lats = r.packed((p) => p.svarint());
+    else if (field === 9) lons = r.packed((p) => p.svarint());
+    else r.skip(wt);
+  });
+  let id = 0, lat = 0, lon = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i]; lat += lats[i]; lon += lons[i];
+    onNode(id, coord(ctx, ctx.latOffset, lat), coord(ctx, ctx.lonOffset, lon));
+  }
+}
+
+function readNode(r: Reader, ctx: BlockContext, onNode: NonNullable<OsmHandlers['node']>): void {
+  let id = 0, lat = 0, lon = 0;
+  r.fields((field, wt) => {
+    if (field === 1) id = r.svarint();
+    else if (field === 8) lat = r.svarint();
+    else if (field === 9) lon = r.svarint();
+    else r.skip(wt);
+  });
+  onNode(id, coord(ctx, ctx.latOffset, lat), coord(ctx, ctx.lonOffset, lon));
+}
+
+function readWay(r: Reader, ctx: BlockContext, onWay: NonNullable<OsmHandlers['way']>): void {
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let deltas: number[] = [];
+  r.fields((field, wt) => {
+    if (field === 1) id = r.varint();
+    else if (field === 2) keys = r.packed((p) => p.varint());
+    else if (field === 3) vals = r.packed((p) => p.varint());
+    else if (field === 8) deltas = r.packed((p) => p.svarint());
+    else r.skip(wt);
+  });
+  const tags: Record<string, string> = {};
+  for (let i = 0; i < keys.length; i++) tags[ctx.strings[keys[i]]] = ctx.strings[vals[i]];
+  const refs: number[] = new Array(deltas.length);
+  let ref = 0;
+  for (let i = 0; i < deltas.length; i++) { ref += deltas[i]; refs[i] = ref; }
+  onWay(id, tags, refs);
+}
+
+function readPrimitiveBlock(buf: Uint8Array, handlers: OsmHandlers): void {
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Reader[] = [];
+  const r = new Reader(buf);
+  r.fields((field, wt) => {
+    if (field === 1) {
+      const st = r.sub();
+      st.fields((f, w) => {
+        if (f === 1) ctx.strings.push(utf8.decode(st.bytes()));
+        else st.skip(w);
+      });
+    } else if (field === 2) groups.push(r.sub());
+    else if (field === 17) ctx.granularity = r.varint();
+    else if (field === 19) ctx.latOffset = r.varint();
+    else if (field === 20) ctx.lonOffset = r.varint();
+    else r.skip(wt);
+  });
+
+  // Groups are read after the whole block so granularity/offsets are known
+  for (const g of groups) {
+    g.fields((field, wt) => {
+      if (field === 1 && handlers.node) readNode(g.sub(), ctx, handlers.node);
+      else if (field === 2 && handlers.node) readDenseNodes(g.sub(), ctx, handlers.node);
+      else if (field === 3 && handlers.way) readWay(g.sub(), ctx, handlers.way);
+      else g.skip(wt);
+    });
+  }
+}
+
+/** Stream every OSMData block of a .osm.pbf file through the handlers. */
+export function readOsmPbf(filePath: string, handlers: OsmHandlers): void {
+  const file = fs.readFileSync(filePath);
+  let pos = 0;
+  while (pos + 4 <= file.length) {
+    const headerLen = file.readUInt32BE(pos);
+    pos += 4;
+    let type = '';
+    let dataSize = 0;
+    const hr = new Reader(file, pos, pos + headerLen);
+    hr.fields((field, wt) => {
+      if (field === 1) type = utf8.decode(hr.bytes());
+      else if (field === 3) dataSize = hr.varint();
+      else hr.skip(wt);
+    });
+    pos += headerLen;
+    const blob = file.subarray(pos, pos + dataSize);
+    pos += dataSize;
+    if (type === 'OSMData') readPrimitiveBlock(readBlob(blob), handlers);
+  }
+}